@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { AuthorProfile } from '../types';
+import { useAuthorProfiles } from '../hooks/useAuthorProfiles';
+import { WordPressClient, WPUser } from '../utils/wordpressClient';
+
+interface AuthorProfileEditorProps {
+  wpSiteUrl: string;
+  wpUsername: string;
+  wpAppPassword: string;
+  defaultAuthorId: string;
+  onDefaultAuthorChange: (id: string) => void;
+}
+
+const EMPTY_AUTHOR: AuthorProfile = {
+  id: '',
+  name: '',
+  jobTitle: '',
+  bio: '',
+  credentials: [],
+  experienceNotes: [],
+  approvedQuotes: [],
+  sameAs: []
+};
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+interface AuthorDraft {
+  profile: AuthorProfile;
+  credentials: string;
+  experienceNotes: string;
+  approvedQuotes: string;
+  sameAs: string;
+}
+
+const toDraft = (profile: AuthorProfile): AuthorDraft => ({
+  profile,
+  credentials: profile.credentials.join('\n'),
+  experienceNotes: profile.experienceNotes.join('\n'),
+  approvedQuotes: profile.approvedQuotes.map(quote => `${quote.text} | ${quote.source}`).join('\n'),
+  sameAs: profile.sameAs.join('\n')
+});
+
+export const AuthorProfileEditor: React.FC<AuthorProfileEditorProps> = ({
+  wpSiteUrl,
+  wpUsername,
+  wpAppPassword,
+  defaultAuthorId,
+  onDefaultAuthorChange
+}) => {
+  const { profiles, saveProfile, removeProfile } = useAuthorProfiles();
+  const [draft, setDraft] = useState<AuthorDraft | null>(null);
+  const [wpUsers, setWpUsers] = useState<WPUser[]>([]);
+  const [usersError, setUsersError] = useState<string | null>(null);
+
+  const loadWordPressUsers = async () => {
+    setUsersError(null);
+    try {
+      const client = new WordPressClient({ siteUrl: wpSiteUrl, username: wpUsername, appPassword: wpAppPassword });
+      setWpUsers(await client.listUsers({ context: 'edit', fields: ['id', 'name', 'slug'] }));
+    } catch (error) {
+      setUsersError((error as Error).message);
+    }
+  };
+
+  const updateProfile = (changes: Partial<AuthorProfile>) => {
+    setDraft(prev => prev && { ...prev, profile: { ...prev.profile, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.profile.name.trim()) return;
+
+    const saved = await saveProfile({
+      ...draft.profile,
+      credentials: splitLines(draft.credentials),
+      experienceNotes: splitLines(draft.experienceNotes),
+      approvedQuotes: splitLines(draft.approvedQuotes).map(line => {
+        const [text, ...source] = line.split('|');
+        return { text: text.trim(), source: source.join('|').trim() || draft.profile.name };
+      }),
+      sameAs: splitLines(draft.sameAs)
+    });
+
+    if (!defaultAuthorId) onDefaultAuthorChange(saved.id);
+    setDraft(null);
+  };
+
+  const handleDelete = async (profile: AuthorProfile) => {
+    if (!window.confirm(`Delete author profile "${profile.name}"?`)) return;
+    await removeProfile(profile.id);
+    if (defaultAuthorId === profile.id) onDefaultAuthorChange('');
+  };
+
+  const canLoadUsers = wpSiteUrl && wpUsername && wpAppPassword;
+
+  return (
+    <>
+      <div className="help-text">
+        Generation only uses first-person experience, credentials and quotes recorded here. Without a profile the
+        AI is told not to write first-person experience at all.
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="defaultAuthor">Default Author</label>
+        <select id="defaultAuthor" value={defaultAuthorId} onChange={(e) => onDefaultAuthorChange(e.target.value)}>
+          <option value="">None (no first-person experience)</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <div className="help-text">
+          Used for new articles and for posts whose WordPress author has no mapped profile.
+        </div>
+      </div>
+
+      {profiles.map(profile => (
+        <div key={profile.id} className="form-group" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <span style={{ flex: 1 }}>
+            {profile.name}{profile.jobTitle && ` — ${profile.jobTitle}`}
+            {profile.wpUserId ? ` (WP user #${profile.wpUserId})` : ' (not mapped)'}
+          </span>
+          <button type="button" className="btn btn-secondary btn-small" onClick={() => setDraft(toDraft(profile))}>
+            Edit
+          </button>
+          <button type="button" className="btn btn-secondary btn-small" onClick={() => handleDelete(profile)}>
+            Delete
+          </button>
+        </div>
+      ))}
+
+      {!draft && (
+        <button type="button" className="btn btn-secondary btn-small" onClick={() => setDraft(toDraft(EMPTY_AUTHOR))}>
+          ➕ Add Author
+        </button>
+      )}
+
+      {draft && (
+        <div style={{ marginTop: '1rem' }}>
+          <div className="form-group" style={{ display: 'flex', gap: '0.5rem' }}>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="authorName">Name</label>
+              <input
+                type="text"
+                id="authorName"
+                value={draft.profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="authorJobTitle">Job Title</label>
+              <input
+                type="text"
+                id="authorJobTitle"
+                value={draft.profile.jobTitle}
+                onChange={(e) => updateProfile({ jobTitle: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="authorWpUser">WordPress User</label>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              {wpUsers.length > 0 ? (
+                <select
+                  id="authorWpUser"
+                  value={draft.profile.wpUserId ?? ''}
+                  onChange={(e) => updateProfile({ wpUserId: e.target.value ? Number(e.target.value) : undefined })}
+                >
+                  <option value="">Not mapped</option>
+                  {wpUsers.map(user => (
+                    <option key={user.id} value={user.id}>{user.name} (@{user.slug})</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="number"
+                  id="authorWpUser"
+                  value={draft.profile.wpUserId ?? ''}
+                  onChange={(e) => updateProfile({ wpUserId: e.target.value ? Number(e.target.value) : undefined })}
+                  placeholder="WordPress user ID"
+                />
+              )}
+              <button
+                type="button"
+                className="btn btn-secondary btn-small"
+                onClick={loadWordPressUsers}
+                disabled={!canLoadUsers}
+              >
+                Load Users
+              </button>
+            </div>
+            {usersError && <div className="help-text">{usersError}</div>}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="authorBio">Bio</label>
+            <textarea id="authorBio" value={draft.profile.bio} onChange={(e) => updateProfile({ bio: e.target.value })} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="authorCredentials">Credentials (one per line)</label>
+            <textarea
+              id="authorCredentials"
+              value={draft.credentials}
+              onChange={(e) => setDraft({ ...draft, credentials: e.target.value })}
+              placeholder="Certified Financial Planner (CFP)"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="authorExperience">Verified Experience Notes (one per line)</label>
+            <textarea
+              id="authorExperience"
+              value={draft.experienceNotes}
+              onChange={(e) => setDraft({ ...draft, experienceNotes: e.target.value })}
+              placeholder="Ran the in-house SEO team at a 200-person SaaS company for four years"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="authorQuotes">Approved Quotes as "quote | source" (one per line)</label>
+            <textarea
+              id="authorQuotes"
+              value={draft.approvedQuotes}
+              onChange={(e) => setDraft({ ...draft, approvedQuotes: e.target.value })}
+            />
+          </div>
+          <div className="form-group" style={{ display: 'flex', gap: '0.5rem' }}>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="authorUrl">Author Page URL</label>
+              <input
+                type="url"
+                id="authorUrl"
+                value={draft.profile.url || ''}
+                onChange={(e) => updateProfile({ url: e.target.value || undefined })}
+                placeholder="Defaults to the WordPress author archive"
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="authorSameAs">Profile Links (one per line)</label>
+              <textarea
+                id="authorSameAs"
+                value={draft.sameAs}
+                onChange={(e) => setDraft({ ...draft, sameAs: e.target.value })}
+                placeholder="https://www.linkedin.com/in/..."
+              />
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="button" className="btn btn-small" onClick={handleSave} disabled={!draft.profile.name.trim()}>
+              💾 Save Author
+            </button>
+            <button type="button" className="btn btn-secondary btn-small" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
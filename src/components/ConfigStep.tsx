@@ -1,4 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import {
+  AI_PROVIDERS,
+  AI_STAGES,
+  DEFAULT_FALLBACK_CHAINS,
+  DEFAULT_FALLBACK_RULES,
+  DEFAULT_MODELS,
+  FallbackRules,
+  getApiKeyForProvider,
+  getModelChain,
+  getModelForProvider,
+  listCustomModels
+} from '../utils/aiProviders';
+import { getModelPrice } from '../utils/costLedger';
+import { DEFAULT_VOICE_PROFILE_ID } from '../utils/voiceProfiles';
+import { AIProvider, AIStage, ContentFormat, FaqBlockStyle, ModelPriceTable, StageRoute, StageRoutingTable } from '../types';
+import { VoiceProfileEditor } from './VoiceProfileEditor';
+import { AuthorProfileEditor } from './AuthorProfileEditor';
 
 interface ConfigStepProps {
   onComplete: (config: any) => void;
@@ -16,6 +33,21 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
     anthropicApiKey: '',
     openrouterApiKey: '',
     openrouterModel: '',
+    geminiModel: '',
+    openaiModel: '',
+    anthropicModel: '',
+    customBaseUrl: '',
+    customApiKey: '',
+    customModel: '',
+    modelPrices: {} as ModelPriceTable,
+    fallbackChains: { ...DEFAULT_FALLBACK_CHAINS } as Record<AIProvider, string[]>,
+    fallbackOn: { ...DEFAULT_FALLBACK_RULES } as FallbackRules,
+    allowCostlierFallbacks: false,
+    stageRouting: {} as StageRoutingTable,
+    voiceProfileId: DEFAULT_VOICE_PROFILE_ID,
+    defaultAuthorId: '',
+    contentFormat: 'classic' as ContentFormat,
+    faqBlockStyle: 'none' as FaqBlockStyle,
     selectedProvider: 'gemini',
     enableAdvancedFeatures: false,
     ...initialConfig
@@ -26,8 +58,87 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
     gemini: null,
     openai: null,
     anthropic: null,
-    openrouter: null
+    openrouter: null,
+    custom: null
   });
+  const [customModels, setCustomModels] = useState<string[]>([]);
+  const [priceDraft, setPriceDraft] = useState({ model: '', input: '', output: '' });
+
+  const addModelPrice = () => {
+    const model = priceDraft.model.trim();
+    const input = parseFloat(priceDraft.input);
+    const output = parseFloat(priceDraft.output);
+    if (!model || isNaN(input) || isNaN(output) || input < 0 || output < 0) return;
+
+    setConfig(prev => ({ ...prev, modelPrices: { ...prev.modelPrices, [model]: { input, output } } }));
+    setPriceDraft({ model: '', input: '', output: '' });
+  };
+
+  const updateStageRoute = (stage: AIStage, route: StageRoute) => {
+    setConfig(prev => {
+      const merged = { ...prev.stageRouting[stage], ...route };
+      const next = { ...prev.stageRouting, [stage]: merged };
+      if (!merged.provider && !merged.model?.trim()) delete next[stage];
+      return { ...prev, stageRouting: next };
+    });
+  };
+
+  const removeModelPrice = (model: string) => {
+    setConfig(prev => {
+      const { [model]: _removed, ...rest } = prev.modelPrices;
+      return { ...prev, modelPrices: rest };
+    });
+  };
+
+  const selectedProvider = config.selectedProvider as AIProvider;
+  const selectedModel = getModelForProvider(config);
+  const activeFallbacks = getModelChain(config, selectedProvider, selectedModel);
+  const skippedFallbacks = (config.fallbackChains[selectedProvider] || [])
+    .map((model: string) => model.trim())
+    .filter((model: string) => model && !activeFallbacks.includes(model));
+
+  const fallbackRuleLabels: Record<keyof FallbackRules, string> = {
+    notFound: 'Model not found (404)',
+    rateLimit: 'Rate limited (429)',
+    serverError: 'Provider error (5xx)',
+    contentFilter: 'Output blocked by content filter'
+  };
+
+  const stageLabels: Record<AIStage, string> = {
+    brief: 'Content brief',
+    analysis: 'Competitor analysis',
+    draft: 'Drafting',
+    schema: 'Schema markup',
+    internalLinks: 'Internal links',
+    rewrite: 'Rewriting existing posts',
+    seoMeta: 'SEO title & description',
+    images: 'Image placements & alt text',
+    taxonomy: 'Categories & tags'
+  };
+  const selectedModelPrice = getModelPrice(selectedModel, config.modelPrices);
+
+  const discoverCustomModels = async (baseUrl: string, apiKey: string) => {
+    if (!baseUrl.trim()) {
+      setKeyStatuses(prev => ({ ...prev, custom: null }));
+      setCustomModels([]);
+      return;
+    }
+
+    setKeyStatuses(prev => ({ ...prev, custom: 'validating' }));
+
+    try {
+      const models = await listCustomModels(baseUrl, apiKey);
+      setCustomModels(models);
+      setKeyStatuses(prev => ({ ...prev, custom: 'valid' }));
+      if (models.length > 0) {
+        setConfig(prev => ({ ...prev, customModel: prev.customModel || models[0] }));
+      }
+    } catch (error) {
+      console.warn('Custom endpoint model discovery failed:', error);
+      setCustomModels([]);
+      setKeyStatuses(prev => ({ ...prev, custom: 'invalid' }));
+    }
+  };
 
   const validateApiKey = async (provider: string, apiKey: string) => {
     if (!apiKey.trim()) {
@@ -137,6 +248,14 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
     return () => clearTimeout(timeout);
   }, [config.openrouterApiKey]);
 
+  useEffect(() => {
+    if (config.selectedProvider !== 'custom') return;
+    const timeout = setTimeout(() => {
+      discoverCustomModels(config.customBaseUrl, config.customApiKey);
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [config.selectedProvider, config.customBaseUrl, config.customApiKey]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onComplete(config);
@@ -150,7 +269,8 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
     ((config.selectedProvider === 'gemini' && keyStatuses.gemini === 'valid') ||
      (config.selectedProvider === 'openai' && keyStatuses.openai === 'valid') ||
      (config.selectedProvider === 'anthropic' && keyStatuses.anthropic === 'valid') ||
-     (config.selectedProvider === 'openrouter' && keyStatuses.openrouter === 'valid' && config.openrouterModel.trim()));
+     (config.selectedProvider === 'openrouter' && keyStatuses.openrouter === 'valid' && config.openrouterModel.trim()) ||
+     (config.selectedProvider === 'custom' && keyStatuses.custom === 'valid' && config.customModel.trim()));
 
   const renderKeyStatusIcon = (provider: string) => {
     const status = keyStatuses[provider];
@@ -215,6 +335,39 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 Generate an Application Password in WordPress Admin → Users → Your Profile → Application Passwords.
               </div>
             </div>
+
+            <div className="form-group">
+              <label htmlFor="contentFormat">Content Format</label>
+              <select
+                id="contentFormat"
+                value={config.contentFormat}
+                onChange={(e) => setConfig(prev => ({ ...prev, contentFormat: e.target.value as ContentFormat }))}
+              >
+                <option value="classic">Classic HTML</option>
+                <option value="blocks">Gutenberg blocks</option>
+              </select>
+              <div className="help-text">
+                Use Gutenberg blocks for sites on the block editor; classic HTML lands there as a single Classic block.
+              </div>
+            </div>
+
+            {config.contentFormat === 'blocks' && (
+              <div className="form-group">
+                <label htmlFor="faqBlockStyle">FAQ Sections</label>
+                <select
+                  id="faqBlockStyle"
+                  value={config.faqBlockStyle}
+                  onChange={(e) => setConfig(prev => ({ ...prev, faqBlockStyle: e.target.value as FaqBlockStyle }))}
+                >
+                  <option value="none">Heading and paragraph blocks</option>
+                  <option value="yoast">Yoast FAQ block</option>
+                  <option value="rankmath">Rank Math FAQ block</option>
+                </select>
+                <div className="help-text">
+                  An FAQ heading followed by question sub-headings becomes a single FAQ block with FAQPage schema.
+                </div>
+              </div>
+            )}
           </fieldset>
 
           <fieldset className="config-fieldset">
@@ -251,6 +404,7 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 <option value="openai">OpenAI GPT-4</option>
                 <option value="anthropic">Anthropic Claude</option>
                 <option value="openrouter">OpenRouter</option>
+                <option value="custom">Custom OpenAI-compatible (Ollama, LM Studio, vLLM)</option>
               </select>
             </div>
 
@@ -270,6 +424,21 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 </div>
               </div>
             )}
+            {config.selectedProvider === 'gemini' && (
+              <div className="form-group">
+                <label htmlFor="geminiModel">Model ID (optional)</label>
+                <input
+                  type="text"
+                  id="geminiModel"
+                  value={config.geminiModel}
+                  onChange={(e) => setConfig(prev => ({ ...prev, geminiModel: e.target.value }))}
+                  placeholder={DEFAULT_MODELS.gemini}
+                />
+                <div className="help-text">
+                  Leave blank to use {DEFAULT_MODELS.gemini}.
+                </div>
+              </div>
+            )}
 
             {config.selectedProvider === 'openai' && (
               <div className="form-group">
@@ -287,6 +456,21 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 </div>
               </div>
             )}
+            {config.selectedProvider === 'openai' && (
+              <div className="form-group">
+                <label htmlFor="openaiModel">Model ID (optional)</label>
+                <input
+                  type="text"
+                  id="openaiModel"
+                  value={config.openaiModel}
+                  onChange={(e) => setConfig(prev => ({ ...prev, openaiModel: e.target.value }))}
+                  placeholder={DEFAULT_MODELS.openai}
+                />
+                <div className="help-text">
+                  Leave blank to use {DEFAULT_MODELS.openai}.
+                </div>
+              </div>
+            )}
 
             {config.selectedProvider === 'anthropic' && (
               <div className="form-group">
@@ -304,6 +488,21 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 </div>
               </div>
             )}
+            {config.selectedProvider === 'anthropic' && (
+              <div className="form-group">
+                <label htmlFor="anthropicModel">Model ID (optional)</label>
+                <input
+                  type="text"
+                  id="anthropicModel"
+                  value={config.anthropicModel}
+                  onChange={(e) => setConfig(prev => ({ ...prev, anthropicModel: e.target.value }))}
+                  placeholder={DEFAULT_MODELS.anthropic}
+                />
+                <div className="help-text">
+                  Leave blank to use {DEFAULT_MODELS.anthropic}.
+                </div>
+              </div>
+            )}
 
             {config.selectedProvider === 'openrouter' && (
               <>
@@ -338,6 +537,233 @@ export const ConfigStep: React.FC<ConfigStepProps> = ({ onComplete, initialConfi
                 </div>
               </>
             )}
+
+            {config.selectedProvider === 'custom' && (
+              <>
+                <div className="form-group">
+                  <div className="api-key-group">
+                    <label htmlFor="customBaseUrl">Base URL</label>
+                    <input
+                      type="url"
+                      id="customBaseUrl"
+                      value={config.customBaseUrl}
+                      onChange={(e) => setConfig(prev => ({ ...prev, customBaseUrl: e.target.value }))}
+                      placeholder="http://localhost:11434/v1"
+                      required
+                    />
+                    {renderKeyStatusIcon('custom')}
+                  </div>
+                  <div className="help-text">
+                    Any server exposing the OpenAI chat completions API. Ollama: http://localhost:11434/v1,
+                    LM Studio: http://localhost:1234/v1, vLLM: http://your-host:8000/v1.
+                    The server must allow CORS requests from this app's origin.
+                  </div>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="customApiKey">API Key (optional)</label>
+                  <input
+                    type="password"
+                    id="customApiKey"
+                    value={config.customApiKey}
+                    onChange={(e) => setConfig(prev => ({ ...prev, customApiKey: e.target.value }))}
+                    placeholder="Leave blank for local servers"
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="customModel">Model</label>
+                  {customModels.length > 0 ? (
+                    <select
+                      id="customModel"
+                      value={config.customModel}
+                      onChange={(e) => setConfig(prev => ({ ...prev, customModel: e.target.value }))}
+                    >
+                      {customModels.map(model => (
+                        <option key={model} value={model}>{model}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      id="customModel"
+                      value={config.customModel}
+                      onChange={(e) => setConfig(prev => ({ ...prev, customModel: e.target.value }))}
+                      placeholder={DEFAULT_MODELS.custom}
+                      required
+                    />
+                  )}
+                  <div className="help-text">
+                    {keyStatuses.custom === 'valid'
+                      ? `${customModels.length} model(s) discovered via /v1/models.`
+                      : 'Models are discovered from /v1/models once the endpoint responds.'}
+                  </div>
+                </div>
+              </>
+            )}
+          </fieldset>
+
+          <fieldset className="config-fieldset">
+            <legend>Brand Voice</legend>
+            <VoiceProfileEditor
+              selectedId={config.voiceProfileId}
+              onSelect={(id) => setConfig(prev => ({ ...prev, voiceProfileId: id || DEFAULT_VOICE_PROFILE_ID }))}
+            />
+          </fieldset>
+
+          <fieldset className="config-fieldset">
+            <legend>Authors (E-E-A-T)</legend>
+            <AuthorProfileEditor
+              wpSiteUrl={config.wpSiteUrl}
+              wpUsername={config.wpUsername}
+              wpAppPassword={config.wpAppPassword}
+              defaultAuthorId={config.defaultAuthorId}
+              onDefaultAuthorChange={(id) => setConfig(prev => ({ ...prev, defaultAuthorId: id }))}
+            />
+          </fieldset>
+
+          <fieldset className="config-fieldset">
+            <legend>Model Fallback Chain</legend>
+            <div className="form-group">
+              <label htmlFor="fallbackChain">Fallback models for {selectedProvider} (one per line, tried in order)</label>
+              <textarea
+                id="fallbackChain"
+                value={(config.fallbackChains[selectedProvider] || []).join('\n')}
+                onChange={(e) => {
+                  const models = e.target.value.split('\n');
+                  setConfig(prev => ({
+                    ...prev,
+                    fallbackChains: { ...prev.fallbackChains, [selectedProvider]: models }
+                  }));
+                }}
+                placeholder="Leave empty to disable fallback"
+              />
+              <div className="help-text">
+                The model above is always tried first. The model that produced each article is recorded with it.
+              </div>
+            </div>
+            <div className="checkbox-group">
+              <input
+                type="checkbox"
+                id="allowCostlierFallbacks"
+                checked={!!config.allowCostlierFallbacks}
+                onChange={(e) => setConfig(prev => ({ ...prev, allowCostlierFallbacks: e.target.checked }))}
+              />
+              <label htmlFor="allowCostlierFallbacks">Allow fallback to models that cost more than {selectedModel}</label>
+            </div>
+            {skippedFallbacks.length > 0 && (
+              <div className="help-text">
+                ⚠️ Skipped because they cost more than {selectedModel} or have no price: {skippedFallbacks.join(', ')}
+              </div>
+            )}
+            {(Object.keys(fallbackRuleLabels) as Array<keyof FallbackRules>).map(rule => (
+              <div key={rule} className="checkbox-group">
+                <input
+                  type="checkbox"
+                  id={`fallbackOn-${rule}`}
+                  checked={config.fallbackOn[rule]}
+                  onChange={(e) => setConfig(prev => ({
+                    ...prev,
+                    fallbackOn: { ...prev.fallbackOn, [rule]: e.target.checked }
+                  }))}
+                />
+                <label htmlFor={`fallbackOn-${rule}`}>Fall back on: {fallbackRuleLabels[rule]}</label>
+              </div>
+            ))}
+          </fieldset>
+
+          <fieldset className="config-fieldset">
+            <legend>Task Model Routing</legend>
+            <div className="help-text">
+              Send each pipeline stage to its own provider and model, e.g. a small model for briefs and
+              schema and a frontier model for drafting. Blank entries use the provider selected above.
+            </div>
+            {AI_STAGES.map(stage => {
+              const route: StageRoute = config.stageRouting[stage] || {};
+              const routeProvider = route.provider || selectedProvider;
+              const missingKey = route.provider && !getApiKeyForProvider(config, route.provider);
+
+              return (
+                <div key={stage} className="form-group" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  <label htmlFor={`route-${stage}`} style={{ flex: 1, margin: 0 }}>{stageLabels[stage]}</label>
+                  <select
+                    id={`route-${stage}`}
+                    style={{ flex: 1 }}
+                    value={route.provider || ''}
+                    onChange={(e) => updateStageRoute(stage, { provider: (e.target.value || undefined) as AIProvider | undefined })}
+                  >
+                    <option value="">Default ({selectedProvider})</option>
+                    {AI_PROVIDERS.map(provider => (
+                      <option key={provider} value={provider}>{provider}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    aria-label={`${stageLabels[stage]} model`}
+                    style={{ flex: 2 }}
+                    value={route.model || ''}
+                    onChange={(e) => updateStageRoute(stage, { model: e.target.value })}
+                    placeholder={getModelForProvider(config, routeProvider)}
+                  />
+                  {missingKey && (
+                    <span style={{ color: 'var(--neon-orange)', fontSize: '0.85rem' }}>No API key</span>
+                  )}
+                </div>
+              );
+            })}
+          </fieldset>
+
+          <fieldset className="config-fieldset">
+            <legend>Model Pricing (USD per 1M tokens)</legend>
+            <div className="help-text">
+              Used to price every AI call in the cost ledger.
+              {' '}{selectedModelPrice
+                ? `${selectedModel}: $${selectedModelPrice.input} input / $${selectedModelPrice.output} output.`
+                : `No price is known for ${selectedModel}; add one below or its calls will be counted at $0.`}
+            </div>
+
+            {Object.entries(config.modelPrices as ModelPriceTable).map(([model, price]) => (
+              <div key={model} className="form-group" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <span style={{ flex: 2 }}>{model}</span>
+                <span style={{ flex: 1 }}>${price.input} in</span>
+                <span style={{ flex: 1 }}>${price.output} out</span>
+                <button type="button" className="btn btn-secondary btn-small" onClick={() => removeModelPrice(model)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <div className="form-group" style={{ display: 'flex', gap: '0.5rem' }}>
+              <input
+                type="text"
+                aria-label="Model ID"
+                style={{ flex: 2 }}
+                value={priceDraft.model}
+                onChange={(e) => setPriceDraft(prev => ({ ...prev, model: e.target.value }))}
+                placeholder={selectedModel}
+              />
+              <input
+                type="number"
+                aria-label="Input price per million tokens"
+                style={{ flex: 1 }}
+                min="0"
+                step="0.01"
+                value={priceDraft.input}
+                onChange={(e) => setPriceDraft(prev => ({ ...prev, input: e.target.value }))}
+                placeholder="Input $"
+              />
+              <input
+                type="number"
+                aria-label="Output price per million tokens"
+                style={{ flex: 1 }}
+                min="0"
+                step="0.01"
+                value={priceDraft.output}
+                onChange={(e) => setPriceDraft(prev => ({ ...prev, output: e.target.value }))}
+                placeholder="Output $"
+              />
+              <button type="button" className="btn btn-secondary btn-small" onClick={addModelPrice}>
+                Add
+              </button>
+            </div>
           </fieldset>
 
           <fieldset className="config-fieldset">
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { ContentBrief, EEATSignals } from '../types';
+
+interface ContentBriefEditorProps {
+  brief: ContentBrief;
+  onChange: (brief: ContentBrief) => void;
+  onApprove: () => void;
+  onRegenerate: () => void;
+  onCancel: () => void;
+  isBusy?: boolean;
+}
+
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * One-item-per-line textarea that keeps the raw text while typing and commits
+ * the parsed list on blur.
+ */
+const LinesField: React.FC<{
+  id: string;
+  label: string;
+  items: string[];
+  onCommit: (items: string[]) => void;
+}> = ({ id, label, items, onCommit }) => {
+  const committed = items.join('\n');
+  const [text, setText] = useState(committed);
+
+  useEffect(() => {
+    setText(committed);
+  }, [committed]);
+
+  return (
+    <div className="form-group">
+      <label htmlFor={id}>{label} (one per line)</label>
+      <textarea
+        id={id}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onCommit(fromLines(text))}
+      />
+    </div>
+  );
+};
+
+export const ContentBriefEditor: React.FC<ContentBriefEditorProps> = ({
+  brief,
+  onChange,
+  onApprove,
+  onRegenerate,
+  onCancel,
+  isBusy = false
+}) => {
+  const eeat = brief.eeatRequirements;
+
+  const updateEEAT = <K extends keyof EEATSignals>(group: K, value: Partial<EEATSignals[K]>) => {
+    onChange({
+      ...brief,
+      eeatRequirements: { ...eeat, [group]: { ...eeat[group], ...value } }
+    });
+  };
+
+  const listField = (id: string, label: string, items: string[], onCommit: (items: string[]) => void) => (
+    <LinesField id={id} label={label} items={items} onCommit={onCommit} />
+  );
+
+  return (
+    <div className="content-brief-editor" style={{ textAlign: 'left' }}>
+      <h3>Review Content Brief</h3>
+      <p className="help-text">
+        Edit the brief before drafting. The article will follow this outline and cover every gap listed.
+      </p>
+
+      <div className="form-group">
+        <label htmlFor="briefTitle">Title</label>
+        <input
+          type="text"
+          id="briefTitle"
+          value={brief.title}
+          onChange={(e) => onChange({ ...brief, title: e.target.value })}
+        />
+      </div>
+
+      {listField('briefOutline', 'Outline', brief.outline, outline => onChange({ ...brief, outline }))}
+      {listField('briefGaps', 'Competitor Gaps', brief.competitorGaps, competitorGaps => onChange({ ...brief, competitorGaps }))}
+      {listField('briefKeywords', 'Target Keywords', brief.targetKeywords, targetKeywords => onChange({ ...brief, targetKeywords }))}
+
+      <fieldset className="config-fieldset">
+        <legend>E-E-A-T Requirements</legend>
+        {listField('eeatQuotes', 'Expert Quotes', eeat.authoritative.expertQuotes, expertQuotes => updateEEAT('authoritative', { expertQuotes }))}
+        {listField('eeatStudies', 'Studies', eeat.authoritative.studies, studies => updateEEAT('authoritative', { studies }))}
+        {listField('eeatSources', 'Sources', eeat.authoritative.sources, sources => updateEEAT('authoritative', { sources }))}
+        {listField('eeatAnecdotes', 'Personal Anecdotes', eeat.experiential.personalAnecdotes, personalAnecdotes => updateEEAT('experiential', { personalAnecdotes }))}
+        {listField('eeatInsights', 'First-Person Insights', eeat.experiential.firstPersonInsights, firstPersonInsights => updateEEAT('experiential', { firstPersonInsights }))}
+        {listField('eeatAnalysis', 'Balanced Analysis', eeat.trustworthy.balancedAnalysis, balancedAnalysis => updateEEAT('trustworthy', { balancedAnalysis }))}
+        {listField(
+          'eeatProsCons',
+          'Pros and Cons as "pro | con"',
+          eeat.trustworthy.prosAndCons.map(({ pro, con }) => `${pro} | ${con}`),
+          lines => updateEEAT('trustworthy', {
+            prosAndCons: lines.map(line => {
+              const [pro, ...con] = line.split('|');
+              return { pro: pro.trim(), con: con.join('|').trim() };
+            })
+          })
+        )}
+      </fieldset>
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+        <button type="button" className="btn" onClick={onApprove} disabled={isBusy || brief.outline.length === 0}>
+          ✅ Approve & Generate Article
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={onRegenerate} disabled={isBusy}>
+          🔄 Regenerate Brief
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={isBusy}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { AlignedSection, alignSections, computeDiffStats, diffSequences, toSourceLines } from '../utils/contentDiff';
+
+interface ContentDiffViewerProps {
+  originalHtml: string | null;
+  generatedHtml: string;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+const REMOVED_BG = 'rgba(255, 99, 71, 0.15)';
+const ADDED_BG = 'rgba(46, 204, 113, 0.15)';
+
+const STATUS_LABELS: Record<AlignedSection['status'], string> = {
+  unchanged: 'Unchanged',
+  changed: 'Changed',
+  added: 'New section',
+  removed: 'Removed section'
+};
+
+const columnStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '0.75rem',
+  border: '1px solid var(--border-color)',
+  borderRadius: '6px',
+  overflow: 'auto',
+  maxHeight: '400px'
+};
+
+const SourceColumn: React.FC<{ lines: { text: string; changed: boolean }[]; background: string }> = ({ lines, background }) => (
+  <pre style={{ ...columnStyle, fontFamily: 'var(--font-mono)', fontSize: '12px', whiteSpace: 'pre-wrap', margin: 0 }}>
+    {lines.map((line, index) => (
+      <div key={index} style={line.changed ? { background } : undefined}>{line.text}</div>
+    ))}
+  </pre>
+);
+
+/**
+ * Splits a line diff into the left (original) and right (generated) columns.
+ */
+const sourceColumns = (section: AlignedSection) => {
+  const ops = diffSequences(toSourceLines(section.original?.html || ''), toSourceLines(section.generated?.html || ''));
+  return {
+    left: ops.filter(op => op.type !== 'added').map(op => ({ text: op.text, changed: op.type === 'removed' })),
+    right: ops.filter(op => op.type !== 'removed').map(op => ({ text: op.text, changed: op.type === 'added' }))
+  };
+};
+
+export const ContentDiffViewer: React.FC<ContentDiffViewerProps> = ({ originalHtml, generatedHtml, isLoading, error }) => {
+  const [mode, setMode] = useState<'rendered' | 'html'>('rendered');
+  const [hideUnchanged, setHideUnchanged] = useState(false);
+
+  const sections = useMemo(
+    () => originalHtml === null ? [] : alignSections(originalHtml, generatedHtml),
+    [originalHtml, generatedHtml]
+  );
+  const stats = useMemo(
+    () => originalHtml === null ? null : computeDiffStats(originalHtml, generatedHtml, sections),
+    [originalHtml, generatedHtml, sections]
+  );
+
+  if (isLoading) return <p className="help-text">Loading the current WordPress content...</p>;
+  if (error) return <p className="help-text" style={{ color: 'var(--neon-orange)' }}>⚠️ Could not load the original: {error}</p>;
+  if (originalHtml === null || !stats) return null;
+
+  const visibleSections = hideUnchanged ? sections.filter(section => section.status !== 'unchanged') : sections;
+
+  return (
+    <div className="content-diff-viewer" style={{ textAlign: 'left' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <div className="content-mode-toggle">
+          <button type="button" className={mode === 'rendered' ? 'active' : ''} onClick={() => setMode('rendered')}>
+            Rendered
+          </button>
+          <button type="button" className={mode === 'html' ? 'active' : ''} onClick={() => setMode('html')}>
+            HTML Source
+          </button>
+        </div>
+        <label className="checkbox-group">
+          <input type="checkbox" checked={hideUnchanged} onChange={(e) => setHideUnchanged(e.target.checked)} />
+          Hide unchanged sections
+        </label>
+      </div>
+
+      <div className="preview-stats" style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', margin: '0.75rem 0' }}>
+        <span>Words: +{stats.wordsAdded} / −{stats.wordsRemoved}</span>
+        <span>Links: +{stats.linksAdded.length} / −{stats.linksRemoved.length}</span>
+        <span>Headings: +{stats.headingsAdded.length} / −{stats.headingsRemoved.length}</span>
+      </div>
+
+      {(stats.linksRemoved.length > 0 || stats.headingsRemoved.length > 0) && (
+        <div className="help-text" style={{ color: 'var(--neon-orange)', marginBottom: '0.75rem' }}>
+          {stats.linksRemoved.length > 0 && (
+            <div>⚠️ Links dropped: {stats.linksRemoved.join(', ')}</div>
+          )}
+          {stats.headingsRemoved.length > 0 && (
+            <div>⚠️ Headings dropped: {stats.headingsRemoved.map(heading => `"${heading}"`).join(', ')}</div>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', fontWeight: 600 }}>
+        <div style={{ flex: 1 }}>Current WordPress content</div>
+        <div style={{ flex: 1 }}>Generated rewrite</div>
+      </div>
+
+      {visibleSections.map((section, index) => {
+        const title = section.generated?.heading || section.original?.heading || 'Introduction';
+        const columns = mode === 'html' ? sourceColumns(section) : null;
+
+        return (
+          <div key={index} style={{ marginTop: '1rem' }}>
+            <div className="help-text">
+              <strong>{title}</strong> • {STATUS_LABELS[section.status]}
+              {section.status === 'changed' && ` (+${section.wordsAdded} / −${section.wordsRemoved} words)`}
+            </div>
+            <div style={{ display: 'flex', gap: '1rem' }}>
+              {columns ? (
+                <>
+                  <SourceColumn lines={columns.left} background={REMOVED_BG} />
+                  <SourceColumn lines={columns.right} background={ADDED_BG} />
+                </>
+              ) : (
+                <>
+                  <div
+                    style={{ ...columnStyle, background: section.status === 'removed' ? REMOVED_BG : undefined }}
+                    dangerouslySetInnerHTML={{ __html: section.original?.html || '' }}
+                  />
+                  <div
+                    style={{ ...columnStyle, background: section.status === 'added' ? ADDED_BG : undefined }}
+                    dangerouslySetInnerHTML={{ __html: section.generated?.html || '' }}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
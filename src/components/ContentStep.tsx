@@ -1,5 +1,9 @@
 import React from 'react';
 import { ExistingContentHub } from './ExistingContentHub';
+import SingleArticleHub from './SingleArticleHub';
+import StrategistHub from './StrategistHub';
+import { CostLedgerPanel } from './CostLedgerPanel';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
 
 interface ContentStepProps {
   config: any;
@@ -8,6 +12,18 @@ interface ContentStepProps {
 
 export const ContentStep: React.FC<ContentStepProps> = ({ config, onComplete }) => {
   const [activeMode, setActiveMode] = React.useState<'strategist' | 'single' | 'existing'>('strategist');
+  // Set when another mode hands generated content to the library in "Update Existing"
+  const [openLibrary, setOpenLibrary] = React.useState<{ contentId?: string } | undefined>(undefined);
+
+  const selectMode = (mode: 'strategist' | 'single' | 'existing') => {
+    setOpenLibrary(undefined);
+    setActiveMode(mode);
+  };
+
+  const handleOpenInLibrary = (contentId?: string) => {
+    setOpenLibrary({ contentId });
+    setActiveMode('existing');
+  };
 
   return (
     <div className="step-container full-width">
@@ -15,40 +31,37 @@ export const ContentStep: React.FC<ContentStepProps> = ({ config, onComplete })
         <button
           type="button"
           className={activeMode === 'strategist' ? 'active' : ''}
-          onClick={() => setActiveMode('strategist')}
+          onClick={() => selectMode('strategist')}
         >
           🧠 AI Strategist
         </button>
         <button
           type="button"
           className={activeMode === 'single' ? 'active' : ''}
-          onClick={() => setActiveMode('single')}
+          onClick={() => selectMode('single')}
         >
           ✍️ Single Article
         </button>
         <button
           type="button"
           className={activeMode === 'existing' ? 'active' : ''}
-          onClick={() => setActiveMode('existing')}
+          onClick={() => selectMode('existing')}
         >
           🔄 Update Existing
         </button>
       </div>
 
+      <CostLedgerPanel />
+      <PromptTemplatesPanel />
+
       {activeMode === 'strategist' && (
-        <div className="strategist-hub">
-          <h2>🧠 AI Strategist</h2>
-          <p>Coming soon - Advanced content strategy planning</p>
-        </div>
+        <StrategistHub config={config} onComplete={onComplete} onOpenInLibrary={() => handleOpenInLibrary()} />
       )}
       {activeMode === 'single' && (
-        <div className="single-article-hub">
-          <h2>✍️ Single Article</h2>
-          <p>Coming soon - Individual article generation</p>
-        </div>
+        <SingleArticleHub config={config} onComplete={onComplete} onOpenInLibrary={handleOpenInLibrary} />
       )}
       {activeMode === 'existing' && (
-        <ExistingContentHub config={config} onComplete={onComplete} />
+        <ExistingContentHub config={config} onComplete={onComplete} openLibrary={openLibrary} />
       )}
     </div>
   );
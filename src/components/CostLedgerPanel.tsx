@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useCostLedger } from '../hooks/useCostLedger';
+import { CostRollup } from '../utils/costLedger';
+
+type RollupView = 'job' | 'post' | 'session';
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+export const CostLedgerPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [view, setView] = useState<RollupView>('job');
+  const {
+    entries,
+    sessionEntries,
+    sessionCost,
+    jobRollups,
+    postRollups,
+    sessionRollups,
+    exportCSV,
+    clearLedger
+  } = useCostLedger();
+
+  const rollups: CostRollup[] = view === 'job' ? jobRollups : view === 'post' ? postRollups : sessionRollups;
+  const sessionTokens = sessionEntries.reduce((total, entry) => total + entry.inputTokens + entry.outputTokens, 0);
+  const hasEstimates = entries.some(entry => entry.estimated);
+  const hasUnpriced = entries.some(entry => entry.unpriced);
+
+  return (
+    <div className="cost-ledger-panel" style={{
+      background: 'var(--surface-color)',
+      border: '1px solid var(--border-color)',
+      borderRadius: '8px',
+      padding: '1rem',
+      marginBottom: '1.5rem',
+      textAlign: 'left'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <div>
+          <strong>💰 AI Cost This Session: {formatCost(sessionCost)}</strong>
+          <span style={{ marginLeft: '1rem', color: 'var(--text-light-color)', fontSize: '0.9rem' }}>
+            {sessionEntries.length} calls • {sessionTokens.toLocaleString()} tokens
+          </span>
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button type="button" className="btn btn-secondary btn-small" onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? 'Hide Ledger' : 'Show Ledger'}
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary btn-small"
+            onClick={() => exportCSV()}
+            disabled={entries.length === 0}
+          >
+            📥 Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '1rem' }}>
+          <div className="content-mode-toggle" style={{ marginBottom: '1rem' }}>
+            <button type="button" className={view === 'job' ? 'active' : ''} onClick={() => setView('job')}>
+              Per Job
+            </button>
+            <button type="button" className={view === 'post' ? 'active' : ''} onClick={() => setView('post')}>
+              Per Post
+            </button>
+            <button type="button" className={view === 'session' ? 'active' : ''} onClick={() => setView('session')}>
+              Per Session
+            </button>
+          </div>
+
+          {rollups.length === 0 ? (
+            <p style={{ color: 'var(--text-light-color)' }}>No AI calls recorded yet.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border-color)' }}>
+                  <th>{view === 'job' ? 'Job' : view === 'post' ? 'Post' : 'Session'}</th>
+                  <th>Calls</th>
+                  <th>Input Tokens</th>
+                  <th>Output Tokens</th>
+                  <th>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rollups.map(rollup => (
+                  <tr key={rollup.key} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                    <td style={{ wordBreak: 'break-all' }}>{rollup.key}</td>
+                    <td>{rollup.calls}</td>
+                    <td>{rollup.inputTokens.toLocaleString()}</td>
+                    <td>{rollup.outputTokens.toLocaleString()}</td>
+                    <td>{formatCost(rollup.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(hasEstimates || hasUnpriced) && (
+            <div className="help-text" style={{ marginTop: '0.75rem' }}>
+              {hasEstimates && 'Some providers returned no usage data; those token counts are estimated from text length. '}
+              {hasUnpriced && 'Some models have no price configured and are counted at $0. Add them under Model Pricing in the configuration step.'}
+            </div>
+          )}
+
+          <button
+            type="button"
+            className="btn btn-secondary btn-small"
+            style={{ marginTop: '1rem' }}
+            onClick={() => {
+              if (window.confirm('Clear the entire cost ledger? Export it first if you need it for invoicing.')) {
+                clearLedger();
+              }
+            }}
+            disabled={entries.length === 0}
+          >
+            🗑️ Clear Ledger
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,208 +1,193 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { WordPressPost } from '../types';
-import { useContentGeneration } from '../hooks/useContentGeneration';
+import { AICallContext, AICompletion, AIMessage, ContentImage, GeneratedContent, PublishMode, PublishSettings, SeoMeta, SeoPlugin, TermSuggestion, VoiceCheckResult, WordPressPost } from '../types';
+import { BulkTermProposal, useContentGeneration } from '../hooks/useContentGeneration';
+import { useVoiceProfiles } from '../hooks/useVoiceProfiles';
+import { useContentLibrary } from '../hooks/useContentLibrary';
+import { formatPromptStamp, promptRegistry } from '../utils/promptRegistry';
+import { checkVoiceCompliance, hasVoiceIssues } from '../utils/voiceProfiles';
+import { authorProfiles } from '../utils/authorProfiles';
+import { createWordPressClient, POSTS_ROUTE, WordPressClient, WPListParams } from '../utils/wordpressClient';
+import { countWords, fetchRestInventory } from '../utils/contentInventory';
+import { formatContentForSite } from '../utils/gutenbergBlocks';
+import {
+  DEFAULT_PUBLISH_SETTINGS,
+  publishContent,
+  PUBLISH_MODES,
+  publishSchedule
+} from '../utils/publishing';
+import { EditConflictError } from '../utils/contentBackups';
+import { usePublishSchedule } from '../hooks/usePublishSchedule';
+import { RollbackPanel } from './RollbackPanel';
+import { ContentDiffViewer } from './ContentDiffViewer';
+import { ThreeWayMergeView } from './ThreeWayMergeView';
+import { ImagePanel } from './ImagePanel';
+import { TaxonomyPanel, TermChecklist } from './TaxonomyPanel';
+import { addTermsToPost, buildTermFields, mergeTermFields } from '../utils/taxonomy';
+import { featuredImageOf } from '../utils/imagePipeline';
+import {
+  describeUnregisteredSeoMeta,
+  detectSeoPlugin,
+  draftSeoMeta,
+  META_DESCRIPTION_MAX,
+  prepareSeoMeta,
+  SEO_ADAPTERS,
+  SEO_TITLE_MAX
+} from '../utils/seoMeta';
+import {
+  describeDiscoveryEvent,
+  discoverSitemapUrls,
+  DiscoveredUrl,
+  parseUrlRules,
+  SitemapDiscoveryError
+} from '../utils/sitemapDiscovery';
+import {
+  findPostTypeRoute,
+  postTypeFromSitemapUrl,
+  PostTypeRoute,
+  ResolvedContent,
+  resolveContent,
+  resolvePostTypes
+} from '../utils/postTypes';
 
 interface ExistingContentHubProps {
   config: any;
   onComplete: () => void;
+  /** Opens the content library, and the editor for the given item, e.g. after another flow generated it */
+  openLibrary?: { contentId?: string };
 }
 
-interface GeneratedContent {
-  id: string;
-  url: string;
-  title: string;
-  content: string;
-  wordCount: number;
-  status: 'draft' | 'published';
-  generatedAt: string;
-}
+const VoiceWarning: React.FC<{ check: VoiceCheckResult }> = ({ check }) => (
+  <div className="help-text" style={{ color: 'var(--neon-orange)' }}>
+    {check.bannedPhrases.length > 0 && <div>⚠️ Banned phrases: {check.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}</div>}
+    {check.missingDisclaimers.length > 0 && <div>⚠️ Missing disclaimers: {check.missingDisclaimers.length}</div>}
+  </div>
+);
 
-export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config, onComplete }) => {
+export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config, onComplete, openLibrary }) => {
   const [posts, setPosts] = useState<WordPressPost[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState('');
   const [generatingUrls, setGeneratingUrls] = useState<Set<string>>(new Set());
-  const [currentView, setCurrentView] = useState<'crawl' | 'posts' | 'generated'>('crawl');
-  const [generatedContent, setGeneratedContent] = useState<GeneratedContent[]>([]);
+  const [currentView, setCurrentView] = useState<'crawl' | 'posts' | 'generated' | 'backups'>(openLibrary ? 'generated' : 'crawl');
+  const { items: generatedContent, addItem: addToLibrary, updateItem: updateLibraryItem } = useContentLibrary();
+  const [openedContentId, setOpenedContentId] = useState<string | null>(null);
   const [selectedContent, setSelectedContent] = useState<GeneratedContent | null>(null);
   const [editingContent, setEditingContent] = useState<string>('');
+  const [originalContent, setOriginalContent] = useState<string | null>(null);
+  const [isLoadingOriginal, setIsLoadingOriginal] = useState(false);
+  const [originalError, setOriginalError] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [editingSeo, setEditingSeo] = useState<SeoMeta>({});
+  const [editingImages, setEditingImages] = useState<ContentImage[]>([]);
+  const [editingTerms, setEditingTerms] = useState<TermSuggestion[]>([]);
+  const [seoPlugin, setSeoPlugin] = useState<SeoPlugin | null>(null);
+  const [mergeConflict, setMergeConflict] = useState<{
+    content: GeneratedContent;
+    theirsHtml: string;
+    theirsModifiedGmt: string;
+  } | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'idle' | 'generating' | 'done' | 'error'>('all');
+  const [selectedPosts, setSelectedPosts] = useState<Set<number>>(new Set());
+  const [bulkContentType, setBulkContentType] = useState<'optimize' | 'pillar'>('optimize');
+  const [budgetCap, setBudgetCap] = useState('');
+  const [assignTerms, setAssignTerms] = useState(false);
+  // Reviewer's edits to bulk term proposals, and the proposals already written
+  const [proposalTerms, setProposalTerms] = useState<Record<string, TermSuggestion[]>>({});
+  const [addedProposals, setAddedProposals] = useState<Set<string>>(new Set());
+  const [publishSettings, setPublishSettings] = useState<PublishSettings>(DEFAULT_PUBLISH_SETTINGS);
+  const [itemPublishModes, setItemPublishModes] = useState<Record<number, PublishMode>>({});
+  const { upcoming: scheduledPublications, failed: failedScheduledUpdates } = usePublishSchedule(config);
+  const [resumeBudgetCap, setResumeBudgetCap] = useState('');
   
-  const { generateBulkContent, isGeneratingContent, bulkProgress } = useContentGeneration(config);
+  const {
+    generateBulkContent,
+    resumeBulkContent,
+    estimateBulkCost,
+    callAICompletion,
+    pausedJob,
+    isGeneratingContent,
+    bulkProgress,
+    voiceWarnings,
+    seoMetaWarnings,
+    editConflicts,
+    termProposals
+  } = useContentGeneration(config);
+  const { getProfile } = useVoiceProfiles();
+  const voiceProfile = getProfile(config.voiceProfileId);
+
+  const hasCredentials = Boolean(config.wpUsername && config.wpAppPassword);
+  const [inventorySource, setInventorySource] = useState<'rest' | 'sitemap'>(hasCredentials ? 'rest' : 'sitemap');
+  // Include/exclude URL patterns for sitemap discovery, as typed
+  const [urlRules, setUrlRules] = useState({ include: '', exclude: '' });
+  const [discoveryPercent, setDiscoveryPercent] = useState<number | null>(null);
 
   const fetchWordPressPosts = useCallback(async () => {
     if (!config.wpSiteUrl) return;
+
+    if (inventorySource === 'rest' && hasCredentials) {
+      setIsLoading(true);
+      setError(null);
+      setProgress('🔐 Reading content inventory from the WordPress REST API...');
+
+      try {
+        const inventory = await fetchRestInventory(
+          createWordPressClient(config),
+          ({ postType, loaded, total }) => setProgress(`📄 ${postType}: ${loaded} of ${total} loaded...`)
+        );
+        if (inventory.length === 0) {
+          throw new Error('The REST API returned no content this user can edit.');
+        }
+
+        setPosts(inventory);
+        setProgress(`✅ SUCCESS! Loaded ${inventory.length} items, including drafts and private posts, from the REST API`);
+        setCurrentView('posts');
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to read the REST API';
+        setError(`❌ REST Inventory Failed:\n\n${errorMessage}\n\nTroubleshooting:\n• Check the WordPress username and application password\n• Make sure a security plugin is not blocking /wp-json/\n• Switch to sitemap discovery to crawl public URLs instead`);
+        console.error('REST inventory error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
     setProgress('🔍 Discovering sitemap locations...');
+    setDiscoveryPercent(0);
     
     try {
-      const baseUrl = config.wpSiteUrl.replace(/\/$/, '');
-      const sitemapPaths = [
-        '/wp-sitemap.xml',
-        '/sitemap.xml', 
-        '/sitemap_index.xml',
-        '/post-sitemap.xml',
-        '/wp-sitemap-posts-post-1.xml',
-        '/sitemap1.xml'
-      ];
-      
-      let foundPosts: WordPressPost[] = [];
-      let successfulSitemap = '';
-      
-      // Try multiple sitemap URLs
-      for (const path of sitemapPaths) {
-        try {
-          const sitemapUrl = `${baseUrl}${path}`;
-          setProgress(`🔍 Analyzing: ${path}...`);
-          
-          // Try multiple proxies
-          const proxies = [
-            `https://corsproxy.io/?${encodeURIComponent(sitemapUrl)}`,
-            `https://api.allorigins.win/raw?url=${encodeURIComponent(sitemapUrl)}`,
-            sitemapUrl // Direct request
-          ];
-          
-          let xmlText = '';
-          let usedProxy = '';
-          
-          for (const proxyUrl of proxies) {
-            try {
-              setProgress(`📡 Fetching via advanced proxy system...`);
-              const response = await fetch(proxyUrl, { 
-                headers: {
-                  'User-Agent': 'Mozilla/5.0 (compatible; WP-Optimizer/1.0)'
-                }
-              });
-              
-              if (response.ok) {
-                xmlText = await response.text();
-                usedProxy = proxyUrl.includes('corsproxy') ? 'CorsProxy' : 
-                           proxyUrl.includes('allorigins') ? 'AllOrigins' : 'Direct';
-                break;
-              }
-            } catch (proxyError) {
-              console.warn(`Proxy failed: ${proxyUrl}`, proxyError);
-              continue;
-            }
-          }
-          
-          if (!xmlText) {
-            continue;
-          }
-          
-          setProgress(`📋 Processing XML data (via ${usedProxy})...`);
-          
-          const parser = new DOMParser();
-          const xmlDoc = parser.parseFromString(xmlText, 'application/xml');
-          
-          const parseError = xmlDoc.querySelector('parsererror');
-          if (parseError) {
-            console.warn(`XML parse error for ${path}:`, parseError.textContent);
-            continue;
-          }
-          
-          // Look for sitemap index first
-          const sitemaps = xmlDoc.querySelectorAll('sitemap loc, sitemapindex sitemap loc');
-          if (sitemaps.length > 0) {
-            setProgress(`📚 Processing ${sitemaps.length} nested sitemaps...`);
-            // Process ALL nested sitemaps (not limited to 3)
-            for (const sitemapLoc of Array.from(sitemaps)) {
-              try {
-                const nestedUrl = sitemapLoc.textContent?.trim();
-                if (nestedUrl) {
-                  const nestedResponse = await fetch(`https://corsproxy.io/?${encodeURIComponent(nestedUrl)}`);
-                  if (nestedResponse.ok) {
-                    const nestedXml = await nestedResponse.text();
-                    const nestedDoc = parser.parseFromString(nestedXml, 'application/xml');
-                    const nestedUrls = nestedDoc.querySelectorAll('url loc');
-                    
-                    const nestedPosts = Array.from(nestedUrls)
-                      .map(loc => loc.textContent?.trim())
-                      .filter(url => url && isValidContentUrl(url))
-                      .map((url, index) => createPostFromUrl(url!, foundPosts.length + index + 1));
-                      
-                    foundPosts.push(...nestedPosts);
-                    setProgress(`📄 Found ${foundPosts.length} URLs so far...`);
-                  }
-                }
-              } catch (nestedError) {
-                console.warn('Failed to process nested sitemap:', nestedError);
-              }
-            }
-          }
-          
-          // Look for direct URLs
-          const urlElements = xmlDoc.querySelectorAll('url loc, urlset url loc');
-          if (urlElements.length > 0) {
-            setProgress(`🔗 Processing ${urlElements.length} direct URLs...`);
-            
-            const directPosts = Array.from(urlElements)
-              .map(loc => loc.textContent?.trim())
-              .filter(url => url && isValidContentUrl(url))
-              .map((url, index) => createPostFromUrl(url!, foundPosts.length + index + 1));
-              
-            foundPosts.push(...directPosts);
-          }
-          
-          if (foundPosts.length > 0) {
-            successfulSitemap = path;
-            break;
-          }
-          
-        } catch (pathError) {
-          console.warn(`Failed to process ${path}:`, pathError);
-          setProgress(`❌ ${path} failed, trying next...`);
-          continue;
+      const typeRoutes = await resolvePostTypes(createWordPressClient(config));
+      const discovery = await discoverSitemapUrls(config.wpSiteUrl, {
+        rules: { include: parseUrlRules(urlRules.include), exclude: parseUrlRules(urlRules.exclude) },
+        onEvent: (event) => {
+          const { sitemapsProcessed, sitemapsQueued } = event.progress;
+          setProgress(describeDiscoveryEvent(event));
+          setDiscoveryPercent(Math.round((sitemapsProcessed / Math.max(sitemapsProcessed + sitemapsQueued, 1)) * 100));
         }
-      }
-      
-      if (foundPosts.length === 0) {
-        throw new Error(`No content found in any sitemap. Tried: ${sitemapPaths.join(', ')}\n\nMake sure your WordPress site has a public sitemap enabled.`);
-      }
-      
-      // Remove duplicates based on URL
-      const uniquePosts = foundPosts.filter((post, index, self) => 
-        index === self.findIndex(p => p.url === post.url)
-      );
-      
-      setPosts(uniquePosts);
-      setProgress(`✅ SUCCESS! Discovered ${uniquePosts.length} unique URLs from ${successfulSitemap}`);
+      });
+
+      const excluded = discovery.sitemaps.reduce((sum, sitemap) => sum + sitemap.excluded, 0);
+      setPosts(discovery.urls.map((entry, index) => createPostFromUrl(entry, index + 1, typeRoutes)));
+      setProgress(`✅ SUCCESS! Discovered ${discovery.urls.length} unique URLs in ${discovery.sitemaps.length} sitemaps from ${new URL(discovery.rootUrl).pathname}` +
+        (excluded > 0 ? ` (${excluded} skipped by URL rules)` : ''));
       setCurrentView('posts');
       
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch sitemap';
+      const errorMessage = err instanceof SitemapDiscoveryError
+        ? `${err.message}\n\nMake sure your WordPress site has a public sitemap enabled and the URL rules do not exclude every post.`
+        : err instanceof Error ? err.message : 'Failed to fetch sitemap';
       setError(`❌ Sitemap Discovery Failed:\n\n${errorMessage}\n\nTroubleshooting:\n• Check if ${config.wpSiteUrl} is accessible\n• Verify WordPress sitemap is enabled\n• Try accessing ${config.wpSiteUrl}/sitemap.xml manually`);
       console.error('Sitemap fetch error:', err);
     } finally {
       setIsLoading(false);
+      setDiscoveryPercent(null);
     }
-  }, [config.wpSiteUrl]);
-  
-  const isValidContentUrl = (url: string): boolean => {
-    try {
-      const urlObj = new URL(url);
-      const path = urlObj.pathname.toLowerCase();
-      
-      const excludePatterns = [
-        '/wp-admin', '/wp-content', '/wp-includes', '/feed', 
-        '/comments', '/author', '/category', '/tag', '/attachment',
-        '.xml', '.json', '.css', '.js', '.png', '.jpg', '.jpeg', '.gif',
-        '/page/', '/archives', '/sitemap'
-      ];
-      
-      return !excludePatterns.some(pattern => path.includes(pattern)) && 
-             path.length > 1 && 
-             !path.endsWith('.xml');
-    } catch {
-      return false;
-    }
-  };
+  }, [config.wpSiteUrl, config.wpUsername, config.wpAppPassword, inventorySource, urlRules]);
   
-  const createPostFromUrl = (url: string, id: number): WordPressPost => {
+  const createPostFromUrl = ({ url, lastModified, sitemapUrl }: DiscoveredUrl, id: number, typeRoutes: PostTypeRoute[]): WordPressPost => {
     const urlObj = new URL(url);
     const pathParts = urlObj.pathname.split('/').filter(Boolean);
     const slug = pathParts[pathParts.length - 1] || `post-${id}`;
@@ -211,19 +196,65 @@ export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config,
       .replace(/-/g, ' ')
       .replace(/\b\w/g, l => l.toUpperCase())
       .replace(/\.(html|php|aspx?)$/i, '');
+
+    // The sitemap a URL came from names its post type
+    const typeRoute = findPostTypeRoute(typeRoutes, postTypeFromSitemapUrl(sitemapUrl));
     
     return {
       id,
       title: title || `Article ${id}`,
       slug,
       status: 'idle' as const,
-      lastModified: new Date().toISOString(),
-      wordCount: Math.floor(Math.random() * 2000) + 500,
+      lastModified: lastModified || new Date().toISOString(),
+      // Sitemaps carry no content; use the REST inventory for real word counts
+      wordCount: 0,
       url,
+      postType: typeRoute?.postType,
+      restRoute: typeRoute?.restRoute,
+      sitemapUrl,
       isStale: false
     };
   };
 
+  /**
+   * Where to find a listed URL in WordPress. Only REST inventory items (which
+   * have a WordPress status) carry a real post ID; sitemap items are numbered locally.
+   */
+  const contentTarget = (url: string): { url: string; id?: number; restRoute?: string } => {
+    const post = posts.find(item => item.url === url);
+    return { url, id: post?.wpStatus ? post.id : undefined, restRoute: post?.restRoute };
+  };
+
+  const fetchBaseVersion = async (url: string): Promise<{
+    postId: number;
+    restRoute: string;
+    modifiedGmt: string;
+    content: string;
+    author?: number;
+  } | null> => {
+    try {
+      const wp = createWordPressClient(config);
+      if (!wp.isAuthenticated) return null;
+
+      const found = await resolveContent(wp, contentTarget(url), {
+        context: 'edit',
+        fields: ['id', 'content', 'modified_gmt', 'author']
+      });
+      return found
+        ? {
+          postId: found.item.id,
+          restRoute: found.restRoute,
+          modifiedGmt: found.item.modified_gmt,
+          content: found.item.content?.raw ?? '',
+          author: found.item.author
+        }
+        : null;
+    } catch (error) {
+      console.warn('Could not read the base version; edit conflicts will not be detected:', error);
+      return null;
+    }
+  };
+
   const handleCreatePillar = async (url: string) => {
     setGeneratingUrls(prev => new Set([...prev, url]));
     
@@ -239,9 +270,14 @@ export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config,
         )
       );
       
+      // Remember the version the rewrite is based on so publishing can detect later edits
+      const base = await fetchBaseVersion(url);
+
       // Generate premium pillar content (DO NOT PUBLISH YET)
       const post = posts.find(p => p.url === url);
-      const generatedHtml = await generatePremiumPillarContent(url, post?.title || '');
+      const completion = await generatePremiumPillarContent(url, post?.title || '', base?.author);
+      const generatedHtml = completion.content;
+      const seo = await generateSeoDraft(url, post?.title || '', generatedHtml);
       
       // Store generated content for editing (DO NOT PUBLISH TO WORDPRESS)
       const newGeneratedContent: GeneratedContent = {
@@ -251,10 +287,19 @@ export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config,
         content: generatedHtml,
         wordCount: generatedHtml ? generatedHtml.split(' ').length : 500,
         status: 'draft',
-        generatedAt: new Date().toISOString()
+        generatedAt: new Date().toISOString(),
+        provider: completion.provider,
+        model: completion.model,
+        promptVersion: completion.promptVersion,
+        voiceCheck: checkVoiceCompliance(generatedHtml, voiceProfile),
+        postId: base?.postId,
+        restRoute: base?.restRoute,
+        baseModifiedGmt: base?.modifiedGmt,
+        baseContent: base?.content,
+        seo
       };
       
-      setGeneratedContent(prev => [...prev, newGeneratedContent]);
+      await addToLibrary(newGeneratedContent);
       setProgress(`✅ PILLAR CONTENT GENERATED! Opening content editor...`);
       
       // Update post status to done
@@ -292,7 +337,14 @@ export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config,
     }
   };
 
-  const generatePremiumPillarContent = async (url: string, title: string): Promise<string> => {
+  /**
+   * @param wpAuthorId WordPress author of the post; picks the mapped author profile.
+   */
+  const generatePremiumPillarContent = async (
+    url: string,
+    title: string,
+    wpAuthorId?: number
+  ): Promise<AICompletion & { promptVersion: string }> => {
     // Get all site posts for internal linking
     const internalLinks = posts.slice(0, 20).map(post => ({
       title: post.title,
@@ -300,255 +352,324 @@ export const ExistingContentHub: React.FC<ExistingContentHubProps> = ({ config,
       slug: post.slug
     }));
 
-    const prompt = `🎯 CRITICAL MISSION: WRITE THE MOST VALUABLE, HUMAN-SOUNDING PILLAR POST EVER CREATED
-
-You are a world-renowned content expert with 20+ years of hands-on experience. You've personally helped over 10,000 clients, witnessed every possible scenario, and learned from countless successes and failures. Your writing is so human, engaging, and valuable that readers bookmark it instantly and share it widely.
-
-TARGET URL: ${url}
-POST TITLE: ${title}
-
-🔥 ULTRA-CRITICAL REQUIREMENTS (FAILURE IS NOT AN OPTION):
-
-1. 1000000% HUMAN-WRITTEN CONTENT (NEVER SOUND LIKE AI):
-   - Write like you're personally teaching your best friend
-   - Share real stories: "I remember working with a client who..." "One time, I made the mistake of..." "Here's what I learned the hard way..."
-   - Express genuine emotions: "This frustrates me..." "I get excited when..." "It breaks my heart to see..."
-   - Use casual language: "Look, here's the thing..." "Between you and me..." "I'll be brutally honest..."
-   - Include vulnerable moments: "I was wrong about..." "This took me years to figure out..." "I wish someone had told me..."
-
-2. ULTRA-PREMIUM CONTENT STRUCTURE (3500+ WORDS):
-   - MIND-BLOWING opener: Start with a shocking, personal story or statistic
-   - Personal vulnerability: Share a mistake you made or lesson learned
-   - 10-15 main sections with deep, actionable insights
-   - Real case studies: "I had a client who..." with specific outcomes
-   - Personal opinions: "Most experts say X, but in my experience, Y works better..."
-   - Contrarian viewpoints: Challenge popular beliefs with your experience
-   - Comprehensive FAQ with honest, experience-based answers
-   - Strong conclusion with personal recommendations and next steps
-
-3. ADVANCED INTERNAL LINKING SYSTEM (8-12 HIGH-QUALITY LINKS):
-   Available internal links: ${JSON.stringify(internalLinks)}
-   
-   LINKING REQUIREMENTS:
-   - Use RICH anchor text: "proven SEO strategies that actually work", "comprehensive guide to content marketing", "advanced link building techniques I've tested"
-   - Natural integration: "When I teach clients about [advanced SEO strategies](link), I always start with..."
-   - Value-driven placement: Only link where it genuinely helps the reader
-   - Contextual relevance: Link to related topics that support your points
-   - MUST include 8-12 internal links minimum using rich anchor text
-   
-4. CRITICAL THINKING & PERSONAL EXPERIENCE INTEGRATION:
-   - Challenge conventional wisdom: "Everyone says X, but I've found Y works better because..."
-   - Share personal failures: "I made this mistake for 3 years before I realized..."
-   - Provide nuanced perspectives: "It depends on your situation. In my experience..."
-   - Question popular advice: "This sounds good in theory, but here's what actually happens..."
-   - Share behind-the-scenes insights: "What most people don't know is..."
-
-5. ULTIMATE HUMAN AUTHENTICITY MARKERS:
-   - Personal stories in every section: "I remember when..." "One client told me..." "My biggest mistake was..."
-   - Emotional investment: "This keeps me up at night..." "I'm passionate about..." "It drives me crazy when..."
-   - Vulnerable admissions: "I used to believe..." "I was completely wrong about..." "This humbled me..."
-   - Casual conversation: "Here's the deal..." "Let me break this down for you..." "Can I be real with you?"
-   - Real consequences: "This cost me $10,000..." "I lost a client because..." "It took me 2 years to recover from..."
-
-6. PERFECT WORDPRESS FORMATTING (NEVER BREAK LAYOUTS):
-   - ONLY semantic HTML: <h2>, <h3>, <h4>, <p>, <ul>, <ol>, <li>, <strong>, <em>, <a>
-   - ZERO custom CSS classes, inline styles, or JavaScript
-   - Proper heading hierarchy (H2 → H3 → H4)
-   - Short, scannable paragraphs (2-3 sentences maximum)
-   - Scannable with lists and subheadings
-   - Clean, professional HTML that publishes perfectly
-
-7. EXTREME VALUE & READABILITY:
-   - Every paragraph must teach something valuable
-   - Use simple words and short sentences (grade 8-10 reading level)
-   - Include actionable takeaways in every section
-   - Provide step-by-step guidance with real examples
-   - End each section with "What this means for you:" practical applications
-
-MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
-- "After working with over 1,000 clients, I've learned that..."
-- "Here's what nobody talks about (but should)..."
-- "The biggest mistake I made early in my career was..."
-- "I'll be brutally honest with you..."
-- "This changed everything for me..."
-- "I wish someone had told me this 10 years ago..."
-- "Most experts will tell you X, but in my experience, Y actually works better..."
-- "I used to believe this too, until I discovered..."
-- "Can I share something that might be controversial?"
-- "One of my clients recently told me..."
-- "I remember the exact moment I realized..."
-- "This keeps me up at night..."
-- "I'm passionate about this because..."
-- "Here's what I've noticed after 20 years in this field..."
-- "Let me tell you about a client who changed my perspective..."
-
-🎯 ULTIMATE GOAL: Create content so valuable, human, and engaging that readers:
-- Bookmark it immediately
-- Share it with colleagues
-- Reference it months later
-- Feel like they're learning from a trusted mentor
-- Take immediate action based on your advice`;
+    await promptRegistry.init();
+    const { messages, stamp } = promptRegistry.render('humanPillar', {
+      url,
+      title,
+      internalLinks: JSON.stringify(internalLinks)
+    });
 
     // Call AI service with premium prompt
-    return await generatePremiumContent(prompt);
+    const completion = await generatePremiumContent(
+      messages,
+      { jobId: `pillar_${Date.now()}`, postUrl: url, stage: 'draft' },
+      wpAuthorId
+    );
+    return { ...completion, promptVersion: formatPromptStamp(stamp) };
   };
 
-  const generatePremiumContent = async (prompt: string): Promise<string> => {
-    const apiKey = getApiKeyForProvider();
-
-    // Fallback models in order of preference
-    const fallbackModels = [
-      config.openrouterModel,
-      'anthropic/claude-3.5-sonnet',
-      'openai/gpt-4o-mini',
-      'anthropic/claude-3-haiku',
-      'openai/gpt-3.5-turbo'
-    ].filter(Boolean);
-
-    let lastError: Error | null = null;
-
-    // Try each model until one works
-    for (const model of fallbackModels) {
-      try {
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': window.location.origin,
-            'X-Title': document.title || 'WP Content Optimizer'
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.8,
-            max_tokens: 8000
-          })
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          const content = data.choices?.[0]?.message?.content;
-          if (content) {
-            setProgress(`✅ Generated content successfully using model: ${model}`);
-            return content;
-          }
-        } else if (response.status === 404) {
-          setProgress(`⚠️ Model "${model}" not found, trying next model...`);
-          lastError = new Error(`Model "${model}" not found (404). Please check if this model is available on OpenRouter.`);
-          continue;
-        } else {
-          throw new Error(`API Error: ${response.status} - ${await response.text()}`);
-        }
-      } catch (error) {
-        console.warn(`Failed with model ${model}:`, error);
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-        setProgress(`❌ Model "${model}" failed, trying next...`);
-        continue;
-      }
+  /**
+   * Drafts the SEO title and meta description. A failure only loses the draft;
+   * the fields can still be filled in by hand in the editor.
+   */
+  const generateSeoDraft = async (url: string, title: string, html: string): Promise<SeoMeta | undefined> => {
+    try {
+      return await draftSeoMeta(
+        { title, html },
+        async (messages) => (await generatePremiumContent(messages, { postUrl: url, stage: 'seoMeta' })).content
+      );
+    } catch (error) {
+      console.warn('SEO title and description draft failed:', error);
+      return undefined;
     }
-
-    // All models failed
-    throw new Error(`All models failed. Last error: ${lastError?.message || 'Unknown error'}. Please check your OpenRouter model configuration or API key.`);
   };
 
-  const getApiKeyForProvider = (): string => {
-    switch (config.selectedProvider) {
-      case 'openrouter': return config.openrouterApiKey;
-      case 'gemini': return config.geminiApiKey;
-      case 'openai': return config.openaiApiKey;
-      case 'anthropic': return config.anthropicApiKey;
-      default: return '';
-    }
+  /**
+   * @param wpAuthorId WordPress author of the post; the profile mapped to it
+   *   wins over the site's default author.
+   */
+  const generatePremiumContent = async (messages: AIMessage[], context: AICallContext, wpAuthorId?: number): Promise<AICompletion> => {
+    await authorProfiles.init();
+    // The hook applies the voice and author profiles for the stage, as for every other call
+    const completion = await callAICompletion(
+      messages,
+      context,
+      authorProfiles.resolve(wpAuthorId, config.defaultAuthorId),
+      (failedModel, error) => {
+        setProgress(error.kind === 'notFound'
+          ? `⚠️ Model "${failedModel}" not found, trying next model...`
+          : `❌ Model "${failedModel}" failed (${error.kind}), trying next...`);
+      }
+    );
+
+    setProgress(`✅ Generated content successfully using model: ${completion.model}`);
+    return completion;
   };
   
   const handleEditContent = (content: GeneratedContent) => {
     setSelectedContent(content);
     setEditingContent(content.content);
+    setEditingSeo(content.seo || {});
+    setEditingImages(content.images || []);
+    setEditingTerms(content.terms || []);
+    setShowDiff(false);
+    loadOriginalContent(content);
+    detectSeoPlugin(createWordPressClient(config)).then(setSeoPlugin);
+  };
+
+  // Open the editor for content handed over by another flow once the library has it
+  useEffect(() => {
+    const contentId = openLibrary?.contentId;
+    if (!contentId || contentId === openedContentId) return;
+    const content = generatedContent.find(item => item.id === contentId);
+    if (content) {
+      setOpenedContentId(contentId);
+      setCurrentView('generated');
+      handleEditContent(content);
+    }
+  }, [openLibrary, generatedContent]);
+
+  /**
+   * Finds the WordPress post for library content: by id for posts the
+   * new-post flows created, by URL for rewrites of existing content.
+   */
+  const findContentPost = async (wp: WordPressClient, content: GeneratedContent, params: WPListParams): Promise<ResolvedContent | null> => {
+    if (content.postId) {
+      const restRoute = content.restRoute || POSTS_ROUTE;
+      const item = await wp.getItem(restRoute, content.postId, params);
+      return { item, postType: item.type || 'post', restRoute };
+    }
+    return resolveContent(wp, contentTarget(content.url), params);
+  };
+
+  const loadOriginalContent = async (content: GeneratedContent) => {
+    setOriginalContent(null);
+    setOriginalError(null);
+    setIsLoadingOriginal(true);
+
+    try {
+      const wp = createWordPressClient(config);
+      const found = await findContentPost(wp, content, {
+        fields: ['id', 'type', 'content'],
+        ...(wp.isAuthenticated ? { context: 'edit' as const } : {})
+      });
+      if (!found) {
+        throw new Error('Could not find the WordPress post for this URL');
+      }
+      setOriginalContent(found.item.content?.raw ?? found.item.content?.rendered ?? '');
+    } catch (error) {
+      setOriginalError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsLoadingOriginal(false);
+    }
   };
 
   const handleSaveEdit = () => {
     if (!selectedContent) return;
     
-    setGeneratedContent(prev => 
-      prev.map(item => 
-        item.id === selectedContent.id 
-          ? { 
-              ...item, 
-              content: editingContent, 
-              wordCount: editingContent.replace(/<[^>]+>/g, '').split(' ').length 
-            }
-          : item
-      )
-    );
+    updateLibraryItem(selectedContent.id, {
+      content: editingContent,
+      wordCount: countWords(editingContent),
+      voiceCheck: checkVoiceCompliance(editingContent, voiceProfile),
+      seo: editingSeo,
+      images: editingImages,
+      terms: editingTerms,
+      // Edited content has to be sent to WordPress again
+      ...(editingContent !== selectedContent.content ? { status: 'draft' as const } : {})
+    });
     
     setSelectedContent(null);
     setEditingContent('');
   };
 
-  const handlePublishToWordPress = async (content: GeneratedContent) => {
+  /**
+   * @param baseModifiedGmt Version the content must still be based on; defaults
+   *   to the version it was generated from.
+   */
+  const handlePublishToWordPress = async (content: GeneratedContent, baseModifiedGmt = content.baseModifiedGmt) => {
+    const mode = content.publishMode || publishSettings.mode;
+
     try {
-      setProgress(`📤 Publishing to WordPress: ${content.title}`);
+      setProgress(`📤 Sending to WordPress (${PUBLISH_MODES[mode].label}): ${content.title}`);
       
-      // Get WordPress post ID from URL
-      const postId = await getPostIdFromUrl(content.url);
-      if (!postId) {
+      // Find the WordPress post for this URL in its own collection
+      const wp = createWordPressClient(config);
+      const found = await findContentPost(wp, content, { fields: ['id', 'type', 'categories', 'tags'] });
+      if (!found) {
         throw new Error('Could not find WordPress post ID for this URL');
       }
 
-      // Update WordPress post with generated content
-      const authBase64 = btoa(`${config.wpUsername}:${config.wpAppPassword}`);
-      await updateWordPressPost(postId, content.content, authBase64);
-      
-      setGeneratedContent(prev => 
-        prev.map(item => 
-          item.id === content.id 
-            ? { ...item, status: 'published' as const }
-            : item
-        )
+      // SEO fields go to the active SEO plugin's meta; autosaves cannot carry meta
+      const target = { id: found.item.id, restRoute: found.restRoute };
+      const seo = content.seo && mode !== 'draft' ? await prepareSeoMeta(wp, content.seo, target) : null;
+      const seoWarning = seo && describeUnregisteredSeoMeta(seo);
+      if (seoWarning) {
+        setProgress(`⚠️ ${seoWarning}`);
+      }
+
+      const featured = featuredImageOf(content.images);
+      const fields = {
+        ...(mode !== 'draft' ? mergeTermFields(found.item, await buildTermFields(wp, found.restRoute, content.terms)) : {}),
+        ...(seo && Object.keys(seo.meta).length > 0 ? { meta: seo.meta } : {}),
+        ...(featured ? { featured_media: featured.mediaId } : {})
+      };
+
+      // Write the generated content in the chosen publish mode
+      await publishSchedule.init();
+      const slot = mode === 'schedule' ? publishSchedule.planSlots(1, publishSettings)[0] : undefined;
+      const result = await publishContent(
+        wp,
+        { ...target, url: content.url, baseModifiedGmt },
+        formatContentForSite(content.content, config),
+        mode,
+        slot,
+        fields
       );
+      if (result.scheduledFor) {
+        await publishSchedule.add({
+          postId: found.item.id,
+          restRoute: found.restRoute,
+          url: content.url,
+          title: content.title,
+          scheduledFor: result.scheduledFor,
+          update: result.deferredUpdate
+        });
+      }
       
-      setProgress(`✅ Published successfully: ${content.title}`);
+      await updateLibraryItem(content.id, { status: 'published', publishedAs: mode, scheduledFor: result.scheduledFor });
+      
+      setProgress(result.scheduledFor
+        ? `✅ Scheduled for ${new Date(result.scheduledFor).toLocaleString()}: ${content.title}`
+        : `✅ Sent as ${PUBLISH_MODES[mode].label.toLowerCase()}: ${content.title}`);
       
     } catch (error) {
+      if (error instanceof EditConflictError) {
+        setMergeConflict({ content, theirsHtml: error.currentContent, theirsModifiedGmt: error.actualModifiedGmt });
+        setCurrentView('generated');
+        setProgress(`⚠️ Not published: ${content.title} was edited in WordPress after the rewrite was generated`);
+        return;
+      }
       setProgress(`❌ Failed to publish: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const getPostIdFromUrl = async (url: string): Promise<number | null> => {
-    const slug = url.split('/').filter(Boolean).pop();
-    if (!slug) return null;
+  const handlePublishMerged = (mergedHtml: string) => {
+    if (!mergeConflict) return;
+    const { content, theirsHtml, theirsModifiedGmt } = mergeConflict;
+    const merged = { ...content, content: mergedHtml, baseContent: theirsHtml, baseModifiedGmt: theirsModifiedGmt };
+
+    updateLibraryItem(content.id, merged);
+    setMergeConflict(null);
+    handlePublishToWordPress(merged);
+  };
+
+  const handleOverwriteConflict = () => {
+    if (!mergeConflict) return;
+    const { content, theirsModifiedGmt } = mergeConflict;
+    if (!window.confirm(`Overwrite the WordPress edits to "${content.title}" with the rewrite?`)) return;
+
+    setMergeConflict(null);
+    handlePublishToWordPress(content, theirsModifiedGmt);
+  };
+
+  const handlePostSelect = (postId: number) => {
+    setSelectedPosts(prev => {
+      const next = new Set(prev);
+      if (next.has(postId)) {
+        next.delete(postId);
+      } else {
+        next.add(postId);
+      }
+      return next;
+    });
+  };
+
+  const parseBudgetCap = (value: string): number | null => {
+    const cap = parseFloat(value);
+    return isNaN(cap) || cap <= 0 ? null : cap;
+  };
+
+  /**
+   * Bulk cost estimate for posts, counting the SEO meta and taxonomy calls of
+   * every post not saved as a draft.
+   */
+  const estimateSelection = (selected: WordPressPost[]) => {
+    const seoMetaPosts = selected.filter(post => (itemPublishModes[post.id] || publishSettings.mode) !== 'draft').length;
+    return estimateBulkCost(selected.length, bulkContentType, { seoMetaPosts, assignTerms });
+  };
+
+  const handleBulkGenerate = async () => {
+    const selected = posts.filter(post => selectedPosts.has(post.id));
+    const urls = selected.map(post => post.url);
+    if (urls.length === 0) return;
+    const restRoutes = Object.fromEntries(
+      selected.filter(post => post.restRoute).map(post => [post.url, post.restRoute!])
+    );
+    const postIds = Object.fromEntries(
+      selected.filter(post => post.wpStatus && post.restRoute).map(post => [post.url, post.id])
+    );
+    const publishModes = Object.fromEntries(
+      selected.filter(post => itemPublishModes[post.id]).map(post => [post.url, itemPublishModes[post.id]])
+    );
+
+    const estimate = estimateSelection(selected);
+    const cap = parseBudgetCap(budgetCap);
+    if (cap && estimate.unpriced) {
+      setProgress('⚠️ No price is configured for the selected model, so the budget cap cannot be enforced. Add its price in Settings or remove the cap.');
+      return;
+    }
+    const confirmed = window.confirm(
+      `Process ${urls.length} post(s)?\n\n` +
+      `Estimated: ~${(estimate.inputTokens + estimate.outputTokens).toLocaleString()} tokens, ` +
+      (estimate.unpriced ? 'cost unknown (no price configured for this model)' : `~$${estimate.cost.toFixed(2)}`) +
+      `\nBudget cap: ${cap ? `$${cap.toFixed(2)}` : 'none'}` +
+      `\nPublish mode: ${PUBLISH_MODES[publishSettings.mode].label}` +
+      (Object.keys(publishModes).length > 0 ? ` (${Object.keys(publishModes).length} item override(s))` : '')
+    );
+    if (!confirmed) return;
 
     try {
-      const baseUrl = config.wpSiteUrl?.replace(/\/$/, '');
-      const response = await fetch(`${baseUrl}/wp-json/wp/v2/posts?slug=${slug}`);
-      if (!response.ok) return null;
-      
-      const posts = await response.json();
-      return posts.length > 0 ? posts[0].id : null;
-    } catch {
-      return null;
+      setProgress(`⚡ Processing ${urls.length} post(s)...`);
+      await generateBulkContent(urls, {
+        contentType: bulkContentType,
+        budgetCap: cap ?? undefined,
+        restRoutes,
+        postIds,
+        publish: publishSettings,
+        publishModes,
+        assignTerms
+      });
+      setProgress(`✅ Bulk job finished`);
+      setSelectedPosts(new Set());
+    } catch (error) {
+      setProgress(`❌ Bulk job failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const updateWordPressPost = async (postId: number, content: string, authBase64: string) => {
-    const baseUrl = config.wpSiteUrl?.replace(/\/$/, '');
-    const response = await fetch(`${baseUrl}/wp-json/wp/v2/posts/${postId}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${authBase64}`
-      },
-      body: JSON.stringify({
-        content: { raw: content }
-      })
-    });
+  const handleAddProposedTerms = async (proposal: BulkTermProposal) => {
+    try {
+      await addTermsToPost(createWordPressClient(config), proposal.restRoute, proposal.postId, proposalTerms[proposal.url] || proposal.terms);
+      setAddedProposals(prev => new Set([...prev, proposal.url]));
+      setProgress(`✅ Added the approved terms to ${proposal.url}`);
+    } catch (error) {
+      setProgress(`❌ Failed to add terms: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
-    if (!response.ok) {
-      throw new Error(`Failed to update WordPress post: ${response.status}`);
+  const handleResumeBulk = async () => {
+    try {
+      setProgress(`▶️ Resuming bulk job...`);
+      await resumeBulkContent(parseBudgetCap(resumeBudgetCap));
+      setProgress(`✅ Bulk job finished`);
+    } catch (error) {
+      setProgress(`❌ Bulk job failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
-  
+
+  const selectedEstimate = selectedPosts.size > 0
+    ? estimateSelection(posts.filter(post => selectedPosts.has(post.id)))
+    : null;
+
   // Filter posts based on search and status
   const filteredPosts = posts.filter(post => {
     const matchesSearch = post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -571,7 +692,7 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
         {isLoading && (
           <div className="premium-progress-card">
             <div className="premium-progress-bar">
-              <div className="premium-progress-fill" style={{ width: '50%' }}></div>
+              <div className="premium-progress-fill" style={{ width: `${discoveryPercent ?? 50}%` }}></div>
             </div>
             <p className="premium-progress-text">{progress}</p>
           </div>
@@ -587,6 +708,57 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
           </div>
         )}
 
+        <div className="content-mode-toggle" style={{ marginBottom: '1rem' }}>
+          <button
+            type="button"
+            className={inventorySource === 'rest' ? 'active' : ''}
+            onClick={() => setInventorySource('rest')}
+            disabled={!hasCredentials}
+          >
+            🔐 REST API Inventory
+          </button>
+          <button
+            type="button"
+            className={inventorySource === 'sitemap' ? 'active' : ''}
+            onClick={() => setInventorySource('sitemap')}
+          >
+            🗺️ Sitemap Crawl
+          </button>
+        </div>
+        {!hasCredentials && (
+          <div className="help-text">
+            Add a WordPress username and application password to list drafts, private posts and real word counts.
+          </div>
+        )}
+        {inventorySource === 'sitemap' && (
+          <fieldset className="config-fieldset" style={{ textAlign: 'left' }}>
+            <legend>URL Rules</legend>
+            <div className="form-group">
+              <label htmlFor="sitemapInclude">Only include URLs containing</label>
+              <textarea
+                id="sitemapInclude"
+                rows={2}
+                value={urlRules.include}
+                onChange={(e) => setUrlRules(prev => ({ ...prev, include: e.target.value }))}
+                placeholder="/blog/, /guides/"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="sitemapExclude">Skip URLs containing</label>
+              <textarea
+                id="sitemapExclude"
+                rows={2}
+                value={urlRules.exclude}
+                onChange={(e) => setUrlRules(prev => ({ ...prev, exclude: e.target.value }))}
+                placeholder="/shop/, /landing/"
+              />
+            </div>
+            <div className="help-text">
+              Path fragments separated by commas or lines, matched against the URL path, or a line starting with re: holding a regular expression matched against the full URL (e.g. re:/20[0-9]{2}/). Admin, feed, archive and asset URLs are always skipped.
+            </div>
+          </fieldset>
+        )}
+
         <button
           type="button"
           className="premium-crawl-btn"
@@ -636,6 +808,9 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
               <span>🕒 {new Date(selectedContent.generatedAt).toLocaleDateString()}</span>
             </div>
             <div className="editor-actions">
+              <button className="btn btn-secondary" onClick={() => setShowDiff(!showDiff)}>
+                {showDiff ? 'Hide Comparison' : '🔍 Compare with Current Post'}
+              </button>
               <button className="btn btn-secondary" onClick={() => setSelectedContent(null)}>
                 Cancel
               </button>
@@ -653,6 +828,73 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
             style={{ minHeight: '400px', fontFamily: 'monospace', fontSize: '14px' }}
           />
           
+          <fieldset className="config-fieldset" style={{ textAlign: 'left' }}>
+            <legend>
+              SEO Title & Meta Description
+              {' '}• {seoPlugin ? SEO_ADAPTERS[seoPlugin].name : 'no supported SEO plugin detected'}
+            </legend>
+            <div className="form-group">
+              <div className="label-wrapper">
+                <label htmlFor="seoTitle">SEO Title</label>
+                <span className="char-counter">{(editingSeo.title || '').length}/{SEO_TITLE_MAX}</span>
+              </div>
+              <input
+                type="text"
+                id="seoTitle"
+                value={editingSeo.title || ''}
+                onChange={(e) => setEditingSeo({ ...editingSeo, title: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <div className="label-wrapper">
+                <label htmlFor="seoDescription">Meta Description</label>
+                <span className="char-counter">{(editingSeo.description || '').length}/{META_DESCRIPTION_MAX}</span>
+              </div>
+              <textarea
+                id="seoDescription"
+                className="meta-description-input"
+                value={editingSeo.description || ''}
+                onChange={(e) => setEditingSeo({ ...editingSeo, description: e.target.value })}
+              />
+            </div>
+            {(selectedContent.publishMode || publishSettings.mode) === 'draft' && (
+              <p className="help-text">Draft mode saves an autosave, which cannot hold SEO fields, categories, tags or the featured image. They are written when the post is sent as pending, scheduled or published.</p>
+            )}
+          </fieldset>
+
+          <TaxonomyPanel
+            config={config}
+            title={selectedContent.title}
+            url={selectedContent.url}
+            html={editingContent}
+            terms={editingTerms}
+            onChange={setEditingTerms}
+          />
+
+          <ImagePanel
+            config={config}
+            title={selectedContent.title}
+            url={selectedContent.url}
+            html={editingContent}
+            images={editingImages}
+            onInsert={(html, images) => {
+              setEditingContent(html);
+              setEditingImages(images);
+            }}
+          />
+
+          {showDiff && (
+            <div className="editor-preview">
+              <h3>🔍 Current Post vs. Rewrite</h3>
+              <ContentDiffViewer
+                originalHtml={originalContent}
+                generatedHtml={editingContent}
+                isLoading={isLoadingOriginal}
+                error={originalError}
+              />
+            </div>
+          )}
+
           <div className="editor-preview">
             <h3>📖 Live Preview</h3>
             <div className="preview-stats">
@@ -660,6 +902,7 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
               <span>Internal Links: {(editingContent.match(/<a /g) || []).length}</span>
               <span>Headings: {(editingContent.match(/<h[2-6]/g) || []).length}</span>
             </div>
+            <VoiceWarning check={checkVoiceCompliance(editingContent, voiceProfile)} />
             <div 
               className="preview-content"
               dangerouslySetInnerHTML={{ __html: editingContent }}
@@ -682,10 +925,10 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
               className="btn btn-success" 
               onClick={() => {
                 handleSaveEdit();
-                handlePublishToWordPress(selectedContent);
+                handlePublishToWordPress({ ...selectedContent, content: editingContent, seo: editingSeo, images: editingImages, terms: editingTerms });
               }}
             >
-              📤 Save & Publish to WordPress
+              📤 Save & Send to WordPress ({PUBLISH_MODES[selectedContent.publishMode || publishSettings.mode].label})
             </button>
           </div>
         </div>
@@ -693,6 +936,24 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
     );
   }
 
+  // Render backups and rollback
+  if (currentView === 'backups') {
+    return (
+      <div className="premium-content-manager">
+        <div className="manager-header">
+          <button 
+            className="back-btn"
+            onClick={() => setCurrentView('posts')}
+          >
+            ← Back to Discovered Posts
+          </button>
+          <h2>🛟 Backups & Rollback</h2>
+        </div>
+        <RollbackPanel config={config} posts={posts} />
+      </div>
+    );
+  }
+
   // Render generated content management
   if (currentView === 'generated') {
     return (
@@ -706,6 +967,19 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
           </button>
           <h2>📚 Generated Content Library ({generatedContent.length})</h2>
         </div>
+
+        {mergeConflict && (
+          <ThreeWayMergeView
+            title={mergeConflict.content.title}
+            baseHtml={mergeConflict.content.baseContent || ''}
+            theirsHtml={mergeConflict.theirsHtml}
+            oursHtml={mergeConflict.content.content}
+            theirsModifiedGmt={mergeConflict.theirsModifiedGmt}
+            onPublishMerged={handlePublishMerged}
+            onOverwrite={handleOverwriteConflict}
+            onCancel={() => setMergeConflict(null)}
+          />
+        )}
         
         <div className="generated-content-grid">
           {generatedContent.map((content) => (
@@ -721,7 +995,10 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
                 <span>📊 {content.wordCount.toLocaleString()} words</span>
                 <span>🕒 {new Date(content.generatedAt).toLocaleDateString()}</span>
                 <span>🔗 {(content.content.match(/<a /g) || []).length} internal links</span>
+                <span>🤖 {content.model}</span>
+                {content.promptVersion && <span>📝 {content.promptVersion}</span>}
               </div>
+              {hasVoiceIssues(content.voiceCheck) && <VoiceWarning check={content.voiceCheck} />}
               
               <div className="card-preview">
                 <h4>Content Preview:</h4>
@@ -746,12 +1023,27 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
                 >
                   📋 Copy HTML
                 </button>
+                <select
+                  className="filter-select"
+                  value={content.publishMode || publishSettings.mode}
+                  onChange={(e) => updateLibraryItem(content.id, { publishMode: e.target.value as PublishMode })}
+                  disabled={content.status === 'published'}
+                  aria-label="Publish mode"
+                >
+                  {(Object.keys(PUBLISH_MODES) as PublishMode[]).map(mode => (
+                    <option key={mode} value={mode}>{PUBLISH_MODES[mode].label}</option>
+                  ))}
+                </select>
                 <button 
                   className="btn btn-small"
                   onClick={() => handlePublishToWordPress(content)}
                   disabled={content.status === 'published'}
                 >
-                  {content.status === 'published' ? '✅ Published' : '📤 Publish to WordPress'}
+                  {content.status === 'published'
+                    ? content.scheduledFor
+                      ? `📅 Scheduled ${new Date(content.scheduledFor).toLocaleString()}`
+                      : `✅ ${PUBLISH_MODES[content.publishedAs || 'publish'].label}`
+                    : '📤 Send to WordPress'}
                 </button>
               </div>
             </div>
@@ -789,6 +1081,12 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
           >
             📚 Generated Content ({generatedContent.length})
           </button>
+          <button 
+            className="btn btn-secondary"
+            onClick={() => setCurrentView('backups')}
+          >
+            🛟 Backups & Rollback
+          </button>
         </div>
       </div>
 
@@ -824,6 +1122,205 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
             <option value="error">❌ Error</option>
           </select>
         </div>
+
+        <div className="bulk-actions-bar" style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '1rem' }}>
+          <button
+            type="button"
+            className="btn btn-secondary btn-small"
+            onClick={() => setSelectedPosts(
+              selectedPosts.size === filteredPosts.length ? new Set() : new Set(filteredPosts.map(post => post.id))
+            )}
+          >
+            {selectedPosts.size === filteredPosts.length && filteredPosts.length > 0 ? 'Deselect All' : 'Select All'}
+          </button>
+          <select
+            className="filter-select"
+            value={bulkContentType}
+            onChange={(e) => setBulkContentType(e.target.value as 'optimize' | 'pillar')}
+          >
+            <option value="optimize">Optimize existing content</option>
+            <option value="pillar">Rewrite as pillar content</option>
+          </select>
+          <input
+            type="number"
+            className="search-input"
+            style={{ maxWidth: '160px' }}
+            min="0"
+            step="0.5"
+            value={budgetCap}
+            onChange={(e) => setBudgetCap(e.target.value)}
+            placeholder="Budget cap ($)"
+            aria-label="Budget cap in USD"
+          />
+          <label className="checkbox-group">
+            <input type="checkbox" checked={assignTerms} onChange={(e) => setAssignTerms(e.target.checked)} />
+            Assign categories & tags
+          </label>
+          <select
+            className="filter-select"
+            value={publishSettings.mode}
+            onChange={(e) => setPublishSettings({ ...publishSettings, mode: e.target.value as PublishMode })}
+            aria-label="Publish mode"
+          >
+            {(Object.keys(PUBLISH_MODES) as PublishMode[]).map(mode => (
+              <option key={mode} value={mode}>{PUBLISH_MODES[mode].label}</option>
+            ))}
+          </select>
+          {publishSettings.mode === 'schedule' && (
+            <>
+              <input
+                type="datetime-local"
+                className="search-input"
+                style={{ maxWidth: '220px' }}
+                value={publishSettings.startAt || ''}
+                onChange={(e) => setPublishSettings({ ...publishSettings, startAt: e.target.value || undefined })}
+                aria-label="First publication slot"
+              />
+              <input
+                type="number"
+                className="search-input"
+                style={{ maxWidth: '140px' }}
+                min="1"
+                value={publishSettings.cadenceHours}
+                onChange={(e) => setPublishSettings({ ...publishSettings, cadenceHours: Number(e.target.value) || 1 })}
+                placeholder="Hours apart"
+                aria-label="Hours between publications"
+              />
+            </>
+          )}
+          <button
+            type="button"
+            className="btn btn-small"
+            onClick={handleBulkGenerate}
+            disabled={selectedPosts.size === 0 || isGeneratingContent}
+          >
+            ⚡ Bulk Optimize {selectedPosts.size} Selected
+          </button>
+          <span className="help-text">{PUBLISH_MODES[publishSettings.mode].description}</span>
+          {selectedEstimate && (
+            <span className="help-text">
+              Estimate: ~{(selectedEstimate.inputTokens + selectedEstimate.outputTokens).toLocaleString()} tokens
+              {selectedEstimate.unpriced ? ' (no price configured for this model)' : ` • ~$${selectedEstimate.cost.toFixed(2)}`}
+            </span>
+          )}
+          {selectedEstimate?.unpriced && parseBudgetCap(budgetCap) && (
+            <span className="help-text">
+              ⚠️ A budget cap needs a price for the model. Add one in Settings or remove the cap.
+            </span>
+          )}
+        </div>
+
+        {scheduledPublications.length > 0 && (
+          <div className="help-text" style={{ marginTop: '0.5rem' }}>
+            📅 {scheduledPublications.length} scheduled publication(s) • next: {scheduledPublications[0].title} on{' '}
+            {new Date(scheduledPublications[0].scheduledFor).toLocaleString()} • last:{' '}
+            {new Date(scheduledPublications[scheduledPublications.length - 1].scheduledFor).toLocaleString()}
+          </div>
+        )}
+
+        {failedScheduledUpdates.length > 0 && (
+          <div className="help-text" style={{ marginTop: '0.5rem', color: 'var(--neon-orange)' }}>
+            {failedScheduledUpdates.map(entry => (
+              <div key={entry.id}>⚠️ Scheduled update of {entry.title} was not applied: {entry.error}</div>
+            ))}
+          </div>
+        )}
+
+        {Object.keys(voiceWarnings).length > 0 && (
+          <div className="premium-error-card" style={{ marginTop: '1rem' }}>
+            <div className="error-icon">🗣️</div>
+            <div className="error-content">
+              <h3>Voice Check: {Object.keys(voiceWarnings).length} post(s) need review</h3>
+              {Object.entries(voiceWarnings).map(([postUrl, check]) => (
+                <div key={postUrl}>
+                  <strong style={{ wordBreak: 'break-all' }}>{postUrl}</strong>
+                  <VoiceWarning check={check} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {Object.keys(seoMetaWarnings).length > 0 && (
+          <div className="help-text" style={{ marginTop: '0.5rem', color: 'var(--neon-orange)' }}>
+            {Object.entries(seoMetaWarnings).map(([postUrl, warning]) => (
+              <div key={postUrl} style={{ wordBreak: 'break-all' }}>⚠️ {postUrl}: {warning}</div>
+            ))}
+          </div>
+        )}
+
+        {editConflicts.length > 0 && (
+          <div className="premium-error-card" style={{ marginTop: '1rem' }}>
+            <div className="error-icon">🔀</div>
+            <div className="error-content">
+              <h3>{editConflicts.length} post(s) skipped: edited in WordPress during the job</h3>
+              <p>These posts changed after the job read them, so they were not overwritten. Run them again to rewrite the latest version.</p>
+              {editConflicts.map(conflict => (
+                <div key={conflict.url} className="help-text" style={{ wordBreak: 'break-all' }}>
+                  {conflict.url} • edited {new Date(`${conflict.actualModifiedGmt}Z`).toLocaleString()}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {termProposals.some(proposal => !addedProposals.has(proposal.url)) && (
+          <div className="premium-error-card" style={{ marginTop: '1rem', textAlign: 'left' }}>
+            <div className="error-icon">🏷️</div>
+            <div className="error-content" style={{ flex: 1 }}>
+              <h3>New categories and tags proposed</h3>
+              <p>Existing terms were assigned during the job. These new terms are only created once you approve them.</p>
+              {termProposals.filter(proposal => !addedProposals.has(proposal.url)).map(proposal => (
+                <div key={proposal.url} style={{ marginTop: '0.75rem' }}>
+                  <strong style={{ wordBreak: 'break-all' }}>{proposal.url}</strong>
+                  <TermChecklist
+                    terms={proposalTerms[proposal.url] || proposal.terms}
+                    onChange={(terms) => setProposalTerms(prev => ({ ...prev, [proposal.url]: terms }))}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-small"
+                    onClick={() => handleAddProposedTerms(proposal)}
+                    disabled={!(proposalTerms[proposal.url] || proposal.terms).some(term => term.approved)}
+                  >
+                    Create & Add Approved Terms
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {pausedJob && !isGeneratingContent && (
+          <div className="premium-error-card" style={{ marginTop: '1rem' }}>
+            <div className="error-icon">⏸️</div>
+            <div className="error-content">
+              <h3>Bulk Job Paused</h3>
+              <p>{pausedJob.reason}.</p>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <input
+                  type="number"
+                  className="search-input"
+                  style={{ maxWidth: '160px' }}
+                  min="0"
+                  step="0.5"
+                  value={resumeBudgetCap}
+                  onChange={(e) => setResumeBudgetCap(e.target.value)}
+                  placeholder="New cap ($)"
+                  aria-label="New budget cap in USD"
+                />
+                <button
+                  type="button"
+                  className="btn btn-small"
+                  onClick={handleResumeBulk}
+                  disabled={!parseBudgetCap(resumeBudgetCap)}
+                >
+                  ▶️ Resume {pausedJob.remainingUrls.length} Remaining
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
       
       <div className="premium-posts-grid">
@@ -858,9 +1355,27 @@ MANDATORY HUMAN PHRASES TO INCLUDE (USE 10-15 OF THESE):
                 </a>
               </div>
               <div className="post-stats">
-                <span>📊 {post.wordCount.toLocaleString()} words</span>
+                <span>📊 {post.wordCount > 0 ? `${post.wordCount.toLocaleString()} words` : 'Word count unknown'}</span>
                 <span>📅 {new Date(post.lastModified).toLocaleDateString()}</span>
+                {post.wpStatus && post.wpStatus !== 'publish' && <span>🔒 {post.wpStatus}</span>}
+                {post.postType && <span>🗂️ {post.postType}</span>}
               </div>
+              {selectedPosts.has(post.id) && (
+                <select
+                  className="filter-select"
+                  value={itemPublishModes[post.id] || ''}
+                  onChange={(e) => setItemPublishModes(prev => {
+                    const { [post.id]: _, ...rest } = prev;
+                    return e.target.value ? { ...rest, [post.id]: e.target.value as PublishMode } : rest;
+                  })}
+                  aria-label="Publish mode for this post"
+                >
+                  <option value="">Job default ({PUBLISH_MODES[publishSettings.mode].label})</option>
+                  {(Object.keys(PUBLISH_MODES) as PublishMode[]).map(mode => (
+                    <option key={mode} value={mode}>{PUBLISH_MODES[mode].label}</option>
+                  ))}
+                </select>
+              )}
             </div>
             
             <div className="post-actions">
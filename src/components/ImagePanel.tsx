@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { ContentImage, ImagePlacement } from '../types';
+import { callAIWithFallback } from '../utils/aiProviders';
+import {
+  getImageProvider,
+  getImageProviders,
+  insertImages,
+  suggestImagePlacements,
+  uploadPlacementImage
+} from '../utils/imagePipeline';
+import { createWordPressClient } from '../utils/wordpressClient';
+
+interface ImagePanelProps {
+  config: any;
+  title: string;
+  url: string;
+  html: string;
+  images: ContentImage[];
+  /** Receives the content with the new figures inserted and the uploaded images */
+  onInsert: (html: string, images: ContentImage[]) => void;
+}
+
+/** "local:<file index>" or "provider:<provider id>"; empty skips the placement */
+type ImageSourceChoice = string;
+
+export const ImagePanel: React.FC<ImagePanelProps> = ({ config, title, url, html, images, onInsert }) => {
+  const [placements, setPlacements] = useState<ImagePlacement[]>([]);
+  const [sources, setSources] = useState<Record<string, ImageSourceChoice>>({});
+  const [localFiles, setLocalFiles] = useState<File[]>([]);
+  const [busy, setBusy] = useState<'suggest' | 'upload' | null>(null);
+  const [message, setMessage] = useState('');
+  const providers = getImageProviders(config);
+
+  const updatePlacement = (id: string, changes: Partial<ImagePlacement>) =>
+    setPlacements(prev => prev.map(placement => placement.id === id ? { ...placement, ...changes } : placement));
+
+  const handleSuggest = async () => {
+    setBusy('suggest');
+    setMessage('');
+    try {
+      const suggested = await suggestImagePlacements({ title, html }, async (messages) =>
+        (await callAIWithFallback(messages, config, { context: { postUrl: url, stage: 'images' } })).content
+      );
+      setPlacements(suggested);
+      setSources(Object.fromEntries(suggested.map((placement, index) => [
+        placement.id,
+        index < localFiles.length ? `local:${index}` : providers[0] ? `provider:${providers[0].id}` : ''
+      ])));
+    } catch (error) {
+      setMessage(`❌ Image suggestions failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFolderChange = (files: FileList | null) => {
+    const images = Array.from(files || [])
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setLocalFiles(images);
+    // Hand out the folder's images to the placements in order
+    setSources(Object.fromEntries(placements.map((placement, index) => [
+      placement.id,
+      index < images.length ? `local:${index}` : sources[placement.id]?.startsWith('provider:') ? sources[placement.id] : ''
+    ])));
+  };
+
+  const handleUpload = async () => {
+    setBusy('upload');
+    setMessage('');
+    const wp = createWordPressClient(config);
+    const uploaded: ContentImage[] = [];
+    const failures: string[] = [];
+
+    for (const placement of placements) {
+      const [type, value] = (sources[placement.id] || '').split(':');
+      if (!type) continue;
+
+      try {
+        if (type === 'local') {
+          const file = localFiles[Number(value)];
+          setMessage(`⬆️ Uploading ${file.name}...`);
+          uploaded.push(await uploadPlacementImage(wp, placement, file, { type: 'local', filename: file.name }));
+        } else {
+          const provider = getImageProvider(value);
+          if (!provider) throw new Error(`Unknown image provider: ${value}`);
+          setMessage(`🎨 Generating "${placement.alt}" with ${provider.name}...`);
+          const file = await provider.generate(placement.description, config, { postUrl: url, stage: 'images' });
+          uploaded.push(await uploadPlacementImage(wp, placement, file, { type: 'provider', providerId: provider.id }));
+        }
+      } catch (error) {
+        failures.push(`${placement.alt}: ${(error as Error).message}`);
+      }
+    }
+
+    const remaining = placements.filter(placement => !uploaded.some(image => image.id === placement.id));
+    setPlacements(remaining);
+    if (uploaded.length > 0) {
+      // A new featured image replaces the previous one
+      const kept = uploaded.some(image => image.position === 'featured')
+        ? images.filter(image => image.position !== 'featured')
+        : images;
+      onInsert(insertImages(html, uploaded), [...kept, ...uploaded]);
+    }
+    setMessage(failures.length === 0
+      ? `✅ Uploaded ${uploaded.length} image(s) to the media library`
+      : `⚠️ Uploaded ${uploaded.length} image(s). Failed: ${failures.join('; ')}`);
+    setBusy(null);
+  };
+
+  return (
+    <fieldset className="config-fieldset" style={{ textAlign: 'left' }}>
+      <legend>Images</legend>
+
+      {images.length > 0 && (
+        <div className="help-text">
+          {images.map(image => (
+            <div key={image.id}>
+              {image.position === 'featured' ? '⭐ Featured' : `📍 Under "${image.afterHeading}"`} • {image.filename}
+              {' '}• media #{image.mediaId} • {image.source === 'local' ? 'local file' : getImageProvider(image.providerId!)?.name || image.providerId}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', margin: '0.5rem 0' }}>
+        <button type="button" className="btn btn-secondary btn-small" onClick={handleSuggest} disabled={busy !== null}>
+          {busy === 'suggest' ? 'Suggesting...' : '💡 Suggest Image Placements'}
+        </button>
+        <label className="help-text">
+          Local image folder:{' '}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            {...{ webkitdirectory: '' }}
+            onChange={(e) => handleFolderChange(e.target.files)}
+          />
+        </label>
+        {localFiles.length > 0 && <span className="help-text">{localFiles.length} image(s) found</span>}
+      </div>
+
+      {placements.map(placement => (
+        <div key={placement.id} className="config-fieldset" style={{ marginTop: '0.5rem' }}>
+          <strong>{placement.position === 'featured' ? '⭐ Featured image' : `📍 Under "${placement.afterHeading}"`}</strong>
+          <div className="help-text">{placement.description}</div>
+          <div className="form-group">
+            <label htmlFor={`alt-${placement.id}`}>Alt text</label>
+            <input
+              type="text"
+              id={`alt-${placement.id}`}
+              value={placement.alt}
+              onChange={(e) => updatePlacement(placement.id, { alt: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`caption-${placement.id}`}>Caption</label>
+            <input
+              type="text"
+              id={`caption-${placement.id}`}
+              value={placement.caption}
+              onChange={(e) => updatePlacement(placement.id, { caption: e.target.value })}
+            />
+          </div>
+          <select
+            className="filter-select"
+            value={sources[placement.id] || ''}
+            onChange={(e) => setSources({ ...sources, [placement.id]: e.target.value })}
+            aria-label="Image source"
+          >
+            <option value="">Skip</option>
+            {localFiles.map((file, index) => (
+              <option key={file.name} value={`local:${index}`}>📁 {file.name}</option>
+            ))}
+            {providers.map(provider => (
+              <option key={provider.id} value={`provider:${provider.id}`}>🎨 Generate with {provider.name}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      {placements.length > 0 && (
+        <button
+          type="button"
+          className="btn btn-small"
+          style={{ marginTop: '0.5rem' }}
+          onClick={handleUpload}
+          disabled={busy !== null || !placements.some(placement => sources[placement.id])}
+        >
+          {busy === 'upload' ? 'Uploading...' : '⬆️ Upload & Insert Images'}
+        </button>
+      )}
+
+      {message && <p className="help-text">{message}</p>}
+    </fieldset>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { AIMessage } from '../types';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { formatPromptStamp, PromptTemplateId } from '../utils/promptRegistry';
+
+export const PromptTemplatesPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('pillarPage');
+  const [draft, setDraft] = useState<AIMessage[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const {
+    revision,
+    templates,
+    getOverride,
+    getStamp,
+    isOverrideOutdated,
+    saveOverride,
+    resetOverride
+  } = usePromptTemplates();
+
+  const template = templates.find(t => t.id === selectedId)!;
+  const override = getOverride(selectedId);
+  const activeMessages = override?.messages || template.messages;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(activeMessages);
+
+  // Load the active version whenever the selection or the registry changes
+  useEffect(() => {
+    setDraft(activeMessages.map(message => ({ ...message })));
+  }, [selectedId, revision]);
+
+  const missingVariables = template.variables.filter(
+    variable => !draft.some(message => message.content.includes(`{${variable}}`))
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveOverride(selectedId, draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (window.confirm(`Discard your edits to "${template.name}" and restore the built-in version ${template.version}?`)) {
+      await resetOverride(selectedId);
+    }
+  };
+
+  return (
+    <div className="prompt-templates-panel" style={{
+      background: 'var(--surface-color)',
+      border: '1px solid var(--border-color)',
+      borderRadius: '8px',
+      padding: '1rem',
+      marginBottom: '1.5rem',
+      textAlign: 'left'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <strong>📝 Prompt Templates</strong>
+        <button type="button" className="btn btn-secondary btn-small" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? 'Hide Templates' : 'Edit Templates'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '1rem' }}>
+          <div className="form-group">
+            <label htmlFor="promptTemplate">Template</label>
+            <select
+              id="promptTemplate"
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value as PromptTemplateId)}
+            >
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({formatPromptStamp(getStamp(t.id))})
+                </option>
+              ))}
+            </select>
+            <div className="help-text">
+              {template.description}. Variables: {template.variables.map(variable => `{${variable}}`).join(', ')}.
+              {' '}{override
+                ? `Custom revision ${override.revision}, saved ${new Date(override.updatedAt).toLocaleString()}.`
+                : `Built-in version ${template.version}.`}
+            </div>
+          </div>
+
+          {isOverrideOutdated(selectedId) && (
+            <div className="help-text" style={{ color: 'var(--neon-orange)' }}>
+              The built-in template has been updated to version {template.version} since this override was written.
+              Reset to pick up the new version.
+            </div>
+          )}
+
+          {draft.map((message, index) => (
+            <div key={index} className="form-group">
+              <label htmlFor={`promptMessage-${index}`}>{message.role} message</label>
+              <textarea
+                id={`promptMessage-${index}`}
+                rows={12}
+                style={{ fontFamily: 'var(--font-mono)', fontSize: '0.85rem' }}
+                value={message.content}
+                onChange={(e) => setDraft(prev => prev.map((m, i) => i === index ? { ...m, content: e.target.value } : m))}
+              />
+            </div>
+          ))}
+
+          {missingVariables.length > 0 && (
+            <div className="help-text" style={{ color: 'var(--neon-orange)' }}>
+              Not used in this template: {missingVariables.map(variable => `{${variable}}`).join(', ')}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <button type="button" className="btn btn-small" onClick={handleSave} disabled={!isDirty || isSaving}>
+              {isSaving ? 'Saving...' : '💾 Save as New Revision'}
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={() => setDraft(activeMessages.map(message => ({ ...message })))}
+              disabled={!isDirty}
+            >
+              Discard Changes
+            </button>
+            <button type="button" className="btn btn-secondary btn-small" onClick={handleReset} disabled={!override}>
+              ↩️ Restore Built-in
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ContentSnapshot, WordPressPost } from '../types';
+import { useContentBackups } from '../hooks/useContentBackups';
+import { RestoreResult } from '../utils/contentBackups';
+import { resolveContentByUrl } from '../utils/postTypes';
+import { createWordPressClient } from '../utils/wordpressClient';
+
+interface RollbackPanelProps {
+  config: any;
+  /** Discovered posts, used to find the REST route for revision restores */
+  posts: WordPressPost[];
+}
+
+const summarizeResults = (results: RestoreResult[]): string => {
+  const failed = results.filter(result => !result.ok);
+  return failed.length === 0
+    ? `✅ Restored ${results.length} post(s)`
+    : `⚠️ Restored ${results.length - failed.length} of ${results.length} post(s). Failed: ` +
+      failed.map(result => `${result.url} (${result.error})`).join('; ');
+};
+
+export const RollbackPanel: React.FC<RollbackPanelProps> = ({ config, posts }) => {
+  const { snapshots, snapshotsByJob, restoreSnapshot, restoreJob, restoreRevision, clearJob } = useContentBackups(config);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [revisionUrl, setRevisionUrl] = useState('');
+  const [revisionBefore, setRevisionBefore] = useState('');
+
+  const handleRestore = async (snapshot: ContentSnapshot) => {
+    if (!window.confirm(`Restore "${snapshot.title}" to its state from ${new Date(snapshot.takenAt).toLocaleString()}?`)) return;
+    setBusy(snapshot.id);
+    setMessage(summarizeResults([await restoreSnapshot(snapshot)]));
+    setBusy(null);
+  };
+
+  const handleRestoreJob = async (jobId: string, count: number) => {
+    if (!window.confirm(`Restore all ${count} post(s) touched by job ${jobId} to their pre-job state?`)) return;
+    setBusy(jobId);
+    setMessage(summarizeResults(await restoreJob(jobId)));
+    setBusy(null);
+  };
+
+  const handleClearJob = async (jobId: string, count: number) => {
+    const label = jobId ? `job ${jobId}` : 'individual publishes';
+    if (!window.confirm(`Delete all ${count} snapshot(s) of ${label}? Those posts can then only be restored from WordPress revisions.`)) return;
+    await clearJob(jobId);
+    setMessage(`🗑️ Deleted ${count} snapshot(s) of ${label}`);
+  };
+
+  const handleRestoreRevision = async () => {
+    setBusy('revision');
+    setMessage('');
+    try {
+      const knownRoute = posts.find(post => post.url === revisionUrl)?.restRoute;
+      const found = await resolveContentByUrl(createWordPressClient(config), revisionUrl, knownRoute, { fields: ['id'] });
+      if (!found) {
+        throw new Error('Could not find a WordPress post for this URL');
+      }
+      const revision = await restoreRevision(found.restRoute, found.item.id, revisionBefore || undefined);
+      setMessage(`✅ Restored WordPress revision #${revision.id} from ${new Date(`${revision.date_gmt}Z`).toLocaleString()}`);
+    } catch (error) {
+      setMessage(`❌ Revision restore failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="rollback-panel" style={{ textAlign: 'left' }}>
+      <div className="help-text">
+        A snapshot of the title, content, excerpt, status and meta is taken before every write to WordPress.
+        {snapshots.length > 0 && ` ${snapshots.length} snapshot(s) stored in this browser; they are kept until you delete them.`}
+      </div>
+
+      {message && <p className="help-text">{message}</p>}
+
+      {snapshots.length === 0 && (
+        <p className="help-text">No snapshots yet. Restore from WordPress revisions below instead.</p>
+      )}
+
+      {Array.from(snapshotsByJob.entries()).map(([jobId, jobSnapshots]) => (
+        <div key={jobId || 'single'} className="config-fieldset" style={{ marginTop: '1rem' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+            <strong style={{ flex: 1 }}>{jobId ? `Bulk job ${jobId}` : 'Individual publishes'} ({jobSnapshots.length})</strong>
+            {jobId && (
+              <button
+                type="button"
+                className="btn btn-secondary btn-small"
+                onClick={() => handleRestoreJob(jobId, jobSnapshots.length)}
+                disabled={busy !== null}
+              >
+                {busy === jobId ? 'Restoring...' : '↩️ Restore Entire Job'}
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={() => handleClearJob(jobId, jobSnapshots.length)}
+              disabled={busy !== null}
+            >
+              🗑️ Delete Snapshots
+            </button>
+          </div>
+          {jobSnapshots.map(snapshot => (
+            <div key={snapshot.id} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '0.5rem' }}>
+              <span style={{ flex: 1, wordBreak: 'break-all' }}>
+                {snapshot.title || snapshot.url}
+                <span className="help-text">
+                  {' '}• {snapshot.status} • saved {new Date(snapshot.takenAt).toLocaleString()}
+                  {snapshot.restoredAt && ` • restored ${new Date(snapshot.restoredAt).toLocaleString()}`}
+                </span>
+              </span>
+              <button
+                type="button"
+                className="btn btn-secondary btn-small"
+                onClick={() => handleRestore(snapshot)}
+                disabled={busy !== null}
+              >
+                {busy === snapshot.id ? 'Restoring...' : '↩️ Restore'}
+              </button>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="config-fieldset" style={{ marginTop: '1rem' }}>
+        <strong>Restore from WordPress revisions</strong>
+        <div className="help-text">
+          For posts without a local snapshot. Restores the newest revision saved before the given time, or the
+          revision before the current content.
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem', flexWrap: 'wrap' }}>
+          <input
+            type="url"
+            className="search-input"
+            style={{ flex: 1, minWidth: '240px' }}
+            value={revisionUrl}
+            onChange={(e) => setRevisionUrl(e.target.value)}
+            placeholder="https://example.com/post-url/"
+            list="rollback-post-urls"
+          />
+          <datalist id="rollback-post-urls">
+            {posts.map(post => <option key={post.id} value={post.url} />)}
+          </datalist>
+          <input
+            type="datetime-local"
+            className="search-input"
+            style={{ maxWidth: '220px' }}
+            value={revisionBefore}
+            onChange={(e) => setRevisionBefore(e.target.value)}
+            aria-label="Restore the revision saved before"
+          />
+          <button
+            type="button"
+            className="btn btn-secondary btn-small"
+            onClick={handleRestoreRevision}
+            disabled={!revisionUrl || busy !== null}
+          >
+            {busy === 'revision' ? 'Restoring...' : '↩️ Restore Revision'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
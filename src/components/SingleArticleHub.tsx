@@ -1,13 +1,21 @@
 import React, { useState } from 'react';
-import { useContentGeneration } from '../hooks/useContentGeneration';
-import { SchemaType } from '../types';
+import { SingleArticleRequest, useContentGeneration } from '../hooks/useContentGeneration';
+import { ContentBrief, GeneratedContent, PublishMode, SchemaType } from '../types';
+import { appendSchemaScript, PUBLISH_MODES, SavePostResult } from '../utils/publishing';
+import { libraryItemForPost } from '../utils/contentLibrary';
+import { slugify } from '../utils/postTypes';
+import { useContentLibrary } from '../hooks/useContentLibrary';
+import { ContentBriefEditor } from './ContentBriefEditor';
+import { useAuthorProfiles } from '../hooks/useAuthorProfiles';
 
 interface SingleArticleHubProps {
   config: any;
   onComplete: () => void;
+  /** Opens the content library's editor for the generated article */
+  onOpenInLibrary: (contentId: string) => void;
 }
 
-const SingleArticleHub: React.FC<SingleArticleHubProps> = ({ config, onComplete }) => {
+const SingleArticleHub: React.FC<SingleArticleHubProps> = ({ config, onComplete, onOpenInLibrary }) => {
   const [articleData, setArticleData] = useState({
     title: '',
     targetKeyword: '',
@@ -15,21 +23,71 @@ const SingleArticleHub: React.FC<SingleArticleHubProps> = ({ config, onComplete
     contentBrief: '',
     schemaType: 'Article' as SchemaType['type'],
     includeEEAT: config.enableAdvancedFeatures || false,
-    performCompetitorAnalysis: config.enableAdvancedFeatures || false
+    performCompetitorAnalysis: config.enableAdvancedFeatures || false,
+    authorId: '',
+    publishMode: 'draft' as PublishMode,
+    scheduledFor: ''
   });
+  const { profiles: authors } = useAuthorProfiles();
 
-  const { generateSingleArticle, isGeneratingContent, progress } = useContentGeneration(config);
+  const [brief, setBrief] = useState<ContentBrief | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Article written by the last run, keyed by its slug; generating the same article again updates its post
+  const [savedArticle, setSavedArticle] = useState<{ slug: string; post: SavePostResult | null; libraryItem: GeneratedContent } | null>(null);
+  const saved = savedArticle?.slug === slugify(articleData.title) ? savedArticle : null;
+  const savedPost = saved?.post || null;
+  const libraryItem = saved?.libraryItem || null;
+
+  const { generateContentBrief, generateSingleArticle, seoMetaWarnings, isGeneratingContent, progress } = useContentGeneration(config);
+  const { addItem: addToLibrary } = useContentLibrary();
+
+  const buildRequest = (currentJobId: string): SingleArticleRequest => ({
+    ...articleData,
+    eeatSignals: articleData.includeEEAT,
+    competitorAnalysis: articleData.performCompetitorAnalysis,
+    authorId: articleData.authorId || undefined,
+    jobId: currentJobId,
+    scheduledFor: articleData.scheduledFor || undefined,
+    postId: savedPost?.postId
+  });
+
+  const handleGenerateBrief = async () => {
+    const currentJobId = jobId || `single_${Date.now()}`;
+    setJobId(currentJobId);
+    setError(null);
+
+    try {
+      setBrief(await generateContentBrief(buildRequest(currentJobId)));
+    } catch (error) {
+      console.error('Error generating brief:', error);
+      setError(`Brief generation failed: ${(error as Error).message}`);
+    }
+  };
 
   const handleGenerate = async () => {
+    if (!brief || !jobId) return;
+    setError(null);
+
     try {
-      await generateSingleArticle({
-        ...articleData,
-        eeatSignals: articleData.includeEEAT,
-        competitorAnalysis: articleData.performCompetitorAnalysis
-      });
-      onComplete();
+      const result = await generateSingleArticle(buildRequest(jobId), brief);
+      setBrief(null);
+      setJobId(null);
+      // The library keeps the schema with the content so sending it again does not drop it
+      const item = await addToLibrary(libraryItemForPost({
+        title: articleData.title,
+        slug: result.slug,
+        content: appendSchemaScript(result.content, result.schema),
+        drafted: result.drafted,
+        voiceCheck: result.voiceCheck,
+        mode: articleData.publishMode,
+        post: result.post,
+        seo: result.seo
+      }));
+      setSavedArticle({ slug: result.slug, post: result.post || null, libraryItem: item });
     } catch (error) {
       console.error('Error generating article:', error);
+      setError(`Article generation failed: ${(error as Error).message}`);
     }
   };
 
@@ -106,6 +164,47 @@ const SingleArticleHub: React.FC<SingleArticleHubProps> = ({ config, onComplete
           </select>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="articleAuthor">Author</label>
+          <select
+            id="articleAuthor"
+            value={articleData.authorId}
+            onChange={(e) => setArticleData(prev => ({ ...prev, authorId: e.target.value }))}
+          >
+            <option value="">Site default author</option>
+            {authors.map(author => (
+              <option key={author.id} value={author.id}>{author.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="publishMode">WordPress Post Status</label>
+          <select
+            id="publishMode"
+            value={articleData.publishMode}
+            onChange={(e) => setArticleData(prev => ({ ...prev, publishMode: e.target.value as PublishMode }))}
+          >
+            <option value="draft">Draft</option>
+            <option value="pending">{PUBLISH_MODES.pending.label}</option>
+            <option value="schedule">{PUBLISH_MODES.schedule.label}</option>
+            <option value="publish">{PUBLISH_MODES.publish.label}</option>
+          </select>
+          {articleData.publishMode === 'schedule' && (
+            <input
+              type="datetime-local"
+              value={articleData.scheduledFor}
+              onChange={(e) => setArticleData(prev => ({ ...prev, scheduledFor: e.target.value }))}
+              aria-label="Publication date"
+              style={{ marginTop: '0.5rem' }}
+            />
+          )}
+          <div className="help-text">
+            The article is created as a new WordPress post with its meta description and schema.
+            {articleData.publishMode === 'schedule' && ' Without a date it takes the next slot in the publishing queue.'}
+          </div>
+        </div>
+
         {config.enableAdvancedFeatures && (
           <>
             <div className="checkbox-group">
@@ -141,19 +240,72 @@ const SingleArticleHub: React.FC<SingleArticleHubProps> = ({ config, onComplete
               style={{ width: `${progress}%` }}
             ></div>
             <div className="bulk-progress-bar-text">
-              Generating Content... {progress}%
+              {brief ? 'Generating Content...' : 'Generating Brief...'} {progress}%
             </div>
           </div>
         )}
 
-        <button
-          type="button"
-          className="btn"
-          onClick={handleGenerate}
-          disabled={!isFormValid || isGeneratingContent}
-        >
-          {isGeneratingContent ? 'Generating Article...' : 'Generate Article'}
-        </button>
+        {error && (
+          <div className="premium-error-card" style={{ marginBottom: '1rem' }}>
+            <div className="error-icon">⚠️</div>
+            <div className="error-content">
+              <pre>{error}</pre>
+            </div>
+          </div>
+        )}
+
+        {libraryItem && !brief && (
+          <div className="premium-error-card" style={{ marginBottom: '1rem' }}>
+            <div className="error-icon">✅</div>
+            <div className="error-content">
+              {savedPost ? (
+                <>
+                  <h3>{savedPost.created ? 'Post created' : 'Post updated'} in WordPress</h3>
+                  <p>
+                    <a href={savedPost.link} target="_blank" rel="noopener noreferrer">{savedPost.link}</a>
+                    {savedPost.scheduledFor && ` • scheduled for ${new Date(savedPost.scheduledFor).toLocaleString()}`}
+                  </p>
+                  {seoMetaWarnings[savedPost.link] && (
+                    <p className="help-text" style={{ color: 'var(--neon-orange)' }}>⚠️ {seoMetaWarnings[savedPost.link]}</p>
+                  )}
+                  <p className="help-text">Generating again updates this post instead of creating a new one.</p>
+                </>
+              ) : (
+                <h3>Article added to the content library</h3>
+              )}
+              <p className="help-text">
+                {libraryItem.wordCount.toLocaleString()} words • {libraryItem.model}
+                {libraryItem.seo?.title && ` • SEO title: ${libraryItem.seo.title}`}
+              </p>
+              <button type="button" className="btn btn-small" onClick={() => onOpenInLibrary(libraryItem.id)}>
+                ✍️ Edit in Content Library
+              </button>{' '}
+              <button type="button" className="btn btn-secondary btn-small" onClick={onComplete}>
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {brief ? (
+          <ContentBriefEditor
+            brief={brief}
+            onChange={setBrief}
+            onApprove={handleGenerate}
+            onRegenerate={handleGenerateBrief}
+            onCancel={() => setBrief(null)}
+            isBusy={isGeneratingContent}
+          />
+        ) : (
+          <button
+            type="button"
+            className="btn"
+            onClick={handleGenerateBrief}
+            disabled={!isFormValid || isGeneratingContent}
+          >
+            {isGeneratingContent ? 'Generating Brief...' : 'Generate Brief'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,26 +1,36 @@
 import React, { useState } from 'react';
-import { ContentCluster, CompetitorAnalysis, ContentBrief } from '../types';
+import { ContentCluster, ContentBrief, PublishMode } from '../types';
+import { DEFAULT_PUBLISH_SETTINGS, PUBLISH_MODES } from '../utils/publishing';
 import { useCompetitorAnalysis } from '../hooks/useCompetitorAnalysis';
 import { useContentGeneration } from '../hooks/useContentGeneration';
+import { useContentLibrary } from '../hooks/useContentLibrary';
+import { libraryItemForPost } from '../utils/contentLibrary';
+import { checkVoiceCompliance, voiceProfiles } from '../utils/voiceProfiles';
 
 interface StrategistHubProps {
   config: any;
   onComplete: () => void;
+  /** Opens the content library holding the generated pages */
+  onOpenInLibrary: () => void;
 }
 
-const StrategistHub: React.FC<StrategistHubProps> = ({ config, onComplete }) => {
+const StrategistHub: React.FC<StrategistHubProps> = ({ config, onComplete, onOpenInLibrary }) => {
   const [keyword, setKeyword] = useState('');
   const [clusters, setClusters] = useState<ContentCluster[]>([]);
   const [selectedCluster, setSelectedCluster] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [publishMode, setPublishMode] = useState<PublishMode>('draft');
+  const [error, setError] = useState<string | null>(null);
 
   const { analyzeCompetitors, analysis, isAnalyzing } = useCompetitorAnalysis(config);
-  const { generateClusterContent, isGeneratingContent } = useContentGeneration(config);
+  const { generateContentClusters, generateClusterContent, seoMetaWarnings, isGeneratingContent, progress } = useContentGeneration(config);
+  const { addItem: addToLibrary } = useContentLibrary();
 
   const handleAnalyzeKeyword = async () => {
     if (!keyword.trim()) return;
     
     setIsGenerating(true);
+    setError(null);
     try {
       // Step 1: Competitor analysis
       const competitorData = await analyzeCompetitors(keyword);
@@ -31,72 +41,52 @@ const StrategistHub: React.FC<StrategistHubProps> = ({ config, onComplete }) =>
       
     } catch (error) {
       console.error('Error analyzing keyword:', error);
+      setError(`Cluster strategy failed: ${(error as Error).message}`);
     }
     setIsGenerating(false);
   };
 
-  const generateContentClusters = async (
-    targetKeyword: string, 
-    competitorAnalysis: CompetitorAnalysis[]
-  ): Promise<ContentCluster[]> => {
-    // Enhanced AI prompt that incorporates competitor gap analysis
-    const prompt = `
-      Based on the competitive analysis for "${targetKeyword}", create a comprehensive content cluster strategy.
-      
-      Competitor Analysis Summary:
-      ${competitorAnalysis.map(comp => `
-        - ${comp.title}: Covers ${comp.topics.join(', ')}
-        - Missing: ${comp.missingTopics.join(', ')}
-      `).join('\n')}
-      
-      Generate a content cluster with:
-      1. One comprehensive pillar page that covers the main topic better than all competitors
-      2. 5-7 supporting cluster articles that target the gaps found in competitor analysis
-      3. Each article should include E-E-A-T optimization opportunities
-      4. Suggest appropriate schema markup for each piece
-      
-      Format as JSON with pillar page and cluster articles array.
-    `;
-
-    // This would call your AI service
-    // For now, return mock data
-    return [
-      {
-        id: '1',
-        pillarPage: {
-          title: `Complete Guide to ${targetKeyword}`,
-          slug: `complete-guide-${targetKeyword.toLowerCase().replace(/\s+/g, '-')}`
-        },
-        clusterArticles: [
-          {
-            title: `${targetKeyword} for Beginners`,
-            slug: `${targetKeyword.toLowerCase().replace(/\s+/g, '-')}-beginners`,
-            keywords: [`${keyword} basics`, `how to start ${keyword}`]
-          },
-          {
-            title: `Advanced ${targetKeyword} Strategies`,
-            slug: `advanced-${targetKeyword.toLowerCase().replace(/\s+/g, '-')}-strategies`,
-            keywords: [`${keyword} advanced`, `${keyword} expert tips`]
-          }
-        ]
-      }
-    ];
-  };
-
   const handleGenerateCluster = async (clusterId: string) => {
     const cluster = clusters.find(c => c.id === clusterId);
     if (!cluster) return;
 
+    setError(null);
     try {
-      await generateClusterContent(cluster, {
+      const generated = await generateClusterContent(cluster, {
         includeInternalLinks: true,
         enableEEAT: config.enableAdvancedFeatures,
-        generateDiverseSchema: config.enableAdvancedFeatures
+        generateDiverseSchema: config.enableAdvancedFeatures,
+        publish: { ...DEFAULT_PUBLISH_SETTINGS, mode: publishMode }
       });
-      
-      onComplete();
+
+      // Keep the post ids so generating the cluster again updates its posts
+      setClusters(prev => prev.map(c => c.id === generated.id ? generated : c));
+      await addClusterToLibrary(generated);
     } catch (error) {
       console.error('Error generating cluster content:', error);
+      setError(`Cluster generation failed: ${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * Hands the cluster's pages to the content library for review and editing.
+   */
+  const addClusterToLibrary = async (cluster: ContentCluster) => {
+    await voiceProfiles.init();
+    const profile = voiceProfiles.get(config.voiceProfileId);
+
+    for (const page of [cluster.pillarPage, ...cluster.clusterArticles]) {
+      if (!page.content || !page.drafted) continue;
+      await addToLibrary(libraryItemForPost({
+        title: page.title,
+        slug: page.slug,
+        content: page.content,
+        drafted: page.drafted,
+        voiceCheck: checkVoiceCompliance(page.content, profile),
+        mode: publishMode,
+        post: page.postId && page.link ? { postId: page.postId, link: page.link } : undefined,
+        terms: page.terms
+      }));
     }
   };
 
@@ -175,11 +165,35 @@ const StrategistHub: React.FC<StrategistHubProps> = ({ config, onComplete }) =>
                   {cluster.clusterArticles.map((article, index) => (
                     <li key={index} style={{ marginBottom: '0.25rem' }}>
                       {article.title}
+                      {article.link && (
+                        <> • <a href={article.link} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>post #{article.postId}</a></>
+                      )}
                     </li>
                   ))}
                 </ul>
+                {cluster.pillarPage.link && (
+                  <div className="help-text">
+                    Pillar: <a href={cluster.pillarPage.link} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>post #{cluster.pillarPage.postId}</a>
+                    {' '}• generating again updates these posts
+                  </div>
+                )}
               </div>
               
+              {selectedCluster === cluster.id && (
+                <select
+                  className="filter-select"
+                  value={publishMode}
+                  onChange={(e) => setPublishMode(e.target.value as PublishMode)}
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label="WordPress post status"
+                  style={{ marginRight: '0.5rem' }}
+                >
+                  <option value="draft">Draft</option>
+                  <option value="pending">{PUBLISH_MODES.pending.label}</option>
+                  <option value="schedule">{PUBLISH_MODES.schedule.label}</option>
+                  <option value="publish">{PUBLISH_MODES.publish.label}</option>
+                </select>
+              )}
               {selectedCluster === cluster.id && (
                 <button
                   type="button"
@@ -202,6 +216,33 @@ const StrategistHub: React.FC<StrategistHubProps> = ({ config, onComplete }) =>
               )}
             </div>
           ))}
+          {isGeneratingContent && (
+            <div className="bulk-progress-bar">
+              <div
+                className="bulk-progress-bar-fill"
+                style={{ width: `${progress}%` }}
+              ></div>
+              <div className="bulk-progress-bar-text">
+                Generating Cluster Content... {Math.round(progress)}%
+              </div>
+            </div>
+          )}
+          {error && <p className="help-text" style={{ color: 'var(--neon-orange)' }}>⚠️ {error}</p>}
+          {Object.entries(seoMetaWarnings).map(([postUrl, warning]) => (
+            <p key={postUrl} className="help-text" style={{ color: 'var(--neon-orange)', wordBreak: 'break-all' }}>
+              ⚠️ {postUrl}: {warning}
+            </p>
+          ))}
+          {clusters.some(cluster => cluster.pillarPage.postId) && (
+            <>
+              <button type="button" className="btn" onClick={onOpenInLibrary}>
+                📚 Review in Content Library
+              </button>{' '}
+              <button type="button" className="btn btn-secondary" onClick={onComplete}>
+                Done
+              </button>
+            </>
+          )}
         </div>
       )}
     </div>
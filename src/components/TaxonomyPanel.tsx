@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { TermSuggestion } from '../types';
+import { callAIWithFallback } from '../utils/aiProviders';
+import { loadSiteTerms, suggestTerms } from '../utils/taxonomy';
+import { createWordPressClient } from '../utils/wordpressClient';
+
+interface TaxonomyPanelProps {
+  config: any;
+  title: string;
+  url: string;
+  html: string;
+  terms: TermSuggestion[];
+  onChange: (terms: TermSuggestion[]) => void;
+}
+
+const SOURCE_LABELS: Record<TermSuggestion['source'], string> = {
+  ai: 'AI pick',
+  keywords: 'keyword match',
+  both: 'AI pick + keyword match',
+  pillar: 'from pillar'
+};
+
+/**
+ * Checklist of suggested terms. New terms are marked and stay unchecked until
+ * approved; checked terms are written with the post.
+ */
+export const TermChecklist: React.FC<{ terms: TermSuggestion[]; onChange: (terms: TermSuggestion[]) => void }> = ({ terms, onChange }) => (
+  <>
+    {(['categories', 'tags'] as const).map(taxonomy => {
+      const items = terms.filter(term => term.taxonomy === taxonomy);
+      return items.length > 0 && (
+        <div key={taxonomy} style={{ marginTop: '0.5rem' }}>
+          <strong>{taxonomy === 'categories' ? 'Categories' : 'Tags'}</strong>
+          {items.map(term => (
+            <label key={`${term.taxonomy}:${term.name}`} className="checkbox-group" style={{ display: 'flex', gap: '0.5rem' }}>
+              <input
+                type="checkbox"
+                checked={term.approved}
+                onChange={(e) => onChange(terms.map(item => item === term ? { ...item, approved: e.target.checked } : item))}
+              />
+              <span>
+                {term.name}
+                {!term.termId && <strong style={{ color: 'var(--neon-orange)' }}> NEW</strong>}
+                <span className="help-text"> • {SOURCE_LABELS[term.source]} • {Math.round(term.score * 100)}%</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      );
+    })}
+  </>
+);
+
+export const TaxonomyPanel: React.FC<TaxonomyPanelProps> = ({ config, title, url, html, terms, onChange }) => {
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    setError('');
+    try {
+      const siteTerms = await loadSiteTerms(createWordPressClient(config));
+      onChange(await suggestTerms({ title, html }, siteTerms, async (messages) =>
+        (await callAIWithFallback(messages, config, { context: { postUrl: url, stage: 'taxonomy' } })).content
+      ));
+    } catch (error) {
+      setError(`❌ Term suggestions failed: ${(error as Error).message}`);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  return (
+    <fieldset className="config-fieldset" style={{ textAlign: 'left' }}>
+      <legend>Categories & Tags</legend>
+      <button type="button" className="btn btn-secondary btn-small" onClick={handleSuggest} disabled={isSuggesting}>
+        {isSuggesting ? 'Suggesting...' : '🏷️ Suggest Categories & Tags'}
+      </button>
+      {error && <p className="help-text">{error}</p>}
+      <TermChecklist terms={terms} onChange={onChange} />
+      {terms.some(term => !term.termId) && (
+        <p className="help-text">Terms marked NEW are created on the site only if checked.</p>
+      )}
+    </fieldset>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { buildMergedHtml, MergeChoice, mergeSections } from '../utils/contentDiff';
+
+interface ThreeWayMergeViewProps {
+  title: string;
+  /** Post content the rewrite was generated from */
+  baseHtml: string;
+  /** Post content as it is in WordPress now */
+  theirsHtml: string;
+  /** The generated rewrite */
+  oursHtml: string;
+  theirsModifiedGmt: string;
+  onPublishMerged: (mergedHtml: string) => void;
+  onOverwrite: () => void;
+  onCancel: () => void;
+}
+
+const paneStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '0.75rem',
+  border: '1px solid var(--border-color)',
+  borderRadius: '6px',
+  overflow: 'auto',
+  maxHeight: '300px'
+};
+
+export const ThreeWayMergeView: React.FC<ThreeWayMergeViewProps> = ({
+  title,
+  baseHtml,
+  theirsHtml,
+  oursHtml,
+  theirsModifiedGmt,
+  onPublishMerged,
+  onOverwrite,
+  onCancel
+}) => {
+  const sections = useMemo(() => mergeSections(baseHtml, theirsHtml, oursHtml), [baseHtml, theirsHtml, oursHtml]);
+  const [choices, setChoices] = useState<Record<number, MergeChoice>>({});
+  const conflictCount = sections.filter(section => section.conflict).length;
+  const theirsTaken = sections.filter(section => !section.conflict && section.resolution === 'theirs').length;
+
+  return (
+    <div className="premium-error-card" style={{ marginBottom: '1.5rem', textAlign: 'left' }}>
+      <div className="error-icon">🔀</div>
+      <div className="error-content" style={{ flex: 1, minWidth: 0 }}>
+        <h3>Edit Conflict: {title}</h3>
+        <p>
+          This post was edited in WordPress on {new Date(`${theirsModifiedGmt}Z`).toLocaleString()}, after the rewrite
+          was generated. Nothing was published.
+        </p>
+        <p className="help-text">
+          {theirsTaken} section(s) edited only in WordPress will keep those edits.{' '}
+          {conflictCount > 0
+            ? `${conflictCount} section(s) were changed on both sides; choose a version for each below.`
+            : 'No section was changed on both sides.'}
+        </p>
+
+        {sections.map((section, index) => section.conflict && (
+          <div key={index} style={{ marginTop: '1rem' }}>
+            <strong>{section.heading || 'Introduction'}</strong>
+            <div style={{ display: 'flex', gap: '1rem', marginTop: '0.5rem' }}>
+              {(['theirs', 'ours'] as MergeChoice[]).map(side => (
+                <label key={side} style={{ ...paneStyle, cursor: 'pointer' }}>
+                  <input
+                    type="radio"
+                    name={`merge-section-${index}`}
+                    checked={(choices[index] || section.resolution) === side}
+                    onChange={() => setChoices({ ...choices, [index]: side })}
+                  />{' '}
+                  {side === 'theirs' ? 'WordPress edit' : 'Rewrite'}
+                  <div dangerouslySetInnerHTML={{ __html: (side === 'theirs' ? section.theirs : section.ours) || '<em>(section removed)</em>' }} />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem', flexWrap: 'wrap' }}>
+          <button type="button" className="btn btn-small" onClick={() => onPublishMerged(buildMergedHtml(sections, choices))}>
+            🔀 Send Merged Version
+          </button>
+          <button type="button" className="btn btn-secondary btn-small" onClick={onOverwrite}>
+            Overwrite With Rewrite
+          </button>
+          <button type="button" className="btn btn-secondary btn-small" onClick={onCancel}>
+            Keep WordPress Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
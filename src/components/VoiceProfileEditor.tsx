@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceProfile } from '../types';
+import { useVoiceProfiles } from '../hooks/useVoiceProfiles';
+
+interface VoiceProfileEditorProps {
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const VoiceProfileEditor: React.FC<VoiceProfileEditorProps> = ({ selectedId, onSelect }) => {
+  const { profiles, getProfile, saveProfile, removeProfile } = useVoiceProfiles();
+  const selected = getProfile(selectedId);
+  const [draft, setDraft] = useState<VoiceProfile | null>(null);
+  const [bannedText, setBannedText] = useState('');
+  const [disclaimerText, setDisclaimerText] = useState('');
+
+  useEffect(() => {
+    if (draft) {
+      setBannedText(draft.bannedPhrases.join('\n'));
+      setDisclaimerText(draft.disclaimers.join('\n'));
+    }
+    // Only reset the text areas when a different profile is opened
+  }, [draft?.id]);
+
+  const startEditing = (profile: VoiceProfile, asCopy: boolean) => {
+    setDraft(asCopy ? { ...profile, id: '', name: `${profile.name} (Copy)`, builtIn: false } : { ...profile });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    const saved = await saveProfile({
+      ...draft,
+      bannedPhrases: splitLines(bannedText),
+      disclaimers: splitLines(disclaimerText)
+    });
+    onSelect(saved.id);
+    setDraft(null);
+  };
+
+  const handleDelete = async () => {
+    if (selected.builtIn || !window.confirm(`Delete voice profile "${selected.name}"?`)) return;
+    await removeProfile(selected.id);
+    onSelect('');
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor="voiceProfile">Voice Profile for this site</label>
+        <select id="voiceProfile" value={selected.id} onChange={(e) => onSelect(e.target.value)}>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.builtIn ? ' (built-in)' : ''}
+            </option>
+          ))}
+        </select>
+        <div className="help-text">
+          {selected.tone} • {selected.readingLevel} • {selected.person} person
+          {selected.bannedPhrases.length > 0 && ` • ${selected.bannedPhrases.length} banned phrases`}
+          {selected.disclaimers.length > 0 && ` • ${selected.disclaimers.length} required disclaimers`}
+        </div>
+      </div>
+
+      {!draft && (
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button type="button" className="btn btn-secondary btn-small" onClick={() => startEditing(selected, !!selected.builtIn)}>
+            {selected.builtIn ? 'Duplicate & Edit' : 'Edit Profile'}
+          </button>
+          {!selected.builtIn && (
+            <button type="button" className="btn btn-secondary btn-small" onClick={handleDelete}>
+              Delete Profile
+            </button>
+          )}
+        </div>
+      )}
+
+      {draft && (
+        <div style={{ marginTop: '1rem' }}>
+          <div className="form-group">
+            <label htmlFor="voiceName">Profile Name</label>
+            <input
+              type="text"
+              id="voiceName"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="voiceTone">Tone</label>
+            <textarea
+              id="voiceTone"
+              value={draft.tone}
+              onChange={(e) => setDraft({ ...draft, tone: e.target.value })}
+            />
+          </div>
+          <div className="form-group" style={{ display: 'flex', gap: '0.5rem' }}>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="voiceReadingLevel">Reading Level</label>
+              <input
+                type="text"
+                id="voiceReadingLevel"
+                value={draft.readingLevel}
+                onChange={(e) => setDraft({ ...draft, readingLevel: e.target.value })}
+                placeholder="Grade 8-10"
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="voicePerson">Point of View</label>
+              <select
+                id="voicePerson"
+                value={draft.person}
+                onChange={(e) => setDraft({ ...draft, person: e.target.value as VoiceProfile['person'] })}
+              >
+                <option value="first">First person (I / we)</option>
+                <option value="second">Second person (you)</option>
+                <option value="third">Third person</option>
+              </select>
+            </div>
+          </div>
+          <div className="form-group">
+            <label htmlFor="voiceBanned">Banned Phrases (one per line)</label>
+            <textarea id="voiceBanned" value={bannedText} onChange={(e) => setBannedText(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="voiceDisclaimers">Required Disclaimers (one per line)</label>
+            <textarea id="voiceDisclaimers" value={disclaimerText} onChange={(e) => setDisclaimerText(e.target.value)} />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="button" className="btn btn-small" onClick={handleSave} disabled={!draft.name.trim()}>
+              💾 Save Profile
+            </button>
+            <button type="button" className="btn btn-secondary btn-small" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthorProfile } from '../types';
+import { authorProfiles } from '../utils/authorProfiles';
+
+export const useAuthorProfiles = () => {
+  const [profiles, setProfiles] = useState<AuthorProfile[]>(() => authorProfiles.list());
+
+  useEffect(() => {
+    const unsubscribe = authorProfiles.subscribe(() => setProfiles([...authorProfiles.list()]));
+    authorProfiles.init().then(() => setProfiles([...authorProfiles.list()]));
+    return unsubscribe;
+  }, []);
+
+  const saveProfile = useCallback((profile: AuthorProfile) => authorProfiles.save(profile), []);
+  const removeProfile = useCallback((id: string) => authorProfiles.remove(id), []);
+
+  return {
+    profiles,
+    saveProfile,
+    removeProfile
+  };
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ContentSnapshot } from '../types';
+import { contentBackups, restoreFromRevisions } from '../utils/contentBackups';
+import { createWordPressClient } from '../utils/wordpressClient';
+
+export const useContentBackups = (config: any) => {
+  const [snapshots, setSnapshots] = useState<ContentSnapshot[]>(() => contentBackups.list());
+
+  useEffect(() => {
+    const unsubscribe = contentBackups.subscribe(() => setSnapshots(contentBackups.list()));
+    contentBackups.init().then(() => setSnapshots(contentBackups.list()));
+    return unsubscribe;
+  }, []);
+
+  // Snapshots grouped by bulk job; single-post publishes are grouped under ''
+  const snapshotsByJob = useMemo(() => {
+    const groups = new Map<string, ContentSnapshot[]>();
+    snapshots.forEach(snapshot => {
+      const key = snapshot.jobId || '';
+      groups.set(key, [...(groups.get(key) || []), snapshot]);
+    });
+    return groups;
+  }, [snapshots]);
+
+  const restoreSnapshot = useCallback(
+    (snapshot: ContentSnapshot) => contentBackups.restore(createWordPressClient(config), snapshot),
+    [config]
+  );
+
+  const restoreJob = useCallback(
+    (jobId: string) => contentBackups.restoreJob(createWordPressClient(config), jobId),
+    [config]
+  );
+
+  const restoreRevision = useCallback(
+    (restRoute: string, postId: number, before?: string) =>
+      restoreFromRevisions(createWordPressClient(config), restRoute, postId, before),
+    [config]
+  );
+
+  const clearJob = useCallback((jobId: string) => contentBackups.clearJob(jobId), []);
+
+  return {
+    snapshots,
+    snapshotsByJob,
+    restoreSnapshot,
+    restoreJob,
+    restoreRevision,
+    clearJob
+  };
+};
@@ -1,7 +1,56 @@
-import { useState } from 'react';
-import { ContentCluster, ContentBrief, EEATSignals, SchemaType } from '../types';
-import { useStreamingAI } from './useStreamingAI';
-import { cacheManager } from '../utils/cacheManager';
+import { useEffect, useState } from 'react';
+import { AICallContext, AICompletion, AIMessage, AuthorProfile, CompetitorAnalysis, ContentCluster, ContentBrief, DraftProvenance, PublishMode, PublishSettings, SchemaType, SeoMeta, TermSuggestion, VoiceCheckResult } from '../types';
+import { AIProviderError, buildAIRequestOptions, callAIWithFallback } from '../utils/aiProviders';
+import { BudgetExceededError, CostEstimate, costLedger, estimateJobCost, sumCostEstimates, UnpricedModelError } from '../utils/costLedger';
+import { DEFAULT_MAX_REPAIR_ATTEMPTS, generateStructured, Schema } from '../utils/structuredOutput';
+import { CONTENT_BRIEF_SCHEMA, ContentBriefPayload } from '../utils/contentBriefSchema';
+import { CONTENT_CLUSTERS_SCHEMA, ContentClustersPayload, toContentClusters } from '../utils/contentClusterSchema';
+import { formatPromptStamp, promptRegistry, RenderedPrompt, stampContent } from '../utils/promptRegistry';
+import { applyVoiceProfile, checkVoiceCompliance, hasVoiceIssues, VOICE_STAGES, voiceProfiles } from '../utils/voiceProfiles';
+import {
+  applyAuthorProfile,
+  attachAuthorToSchema,
+  AUTHOR_FACT_STAGES,
+  authorProfiles,
+  buildAuthorPersonSchema
+} from '../utils/authorProfiles';
+import { createWordPressClient, POSTS_ROUTE, WPPostObject } from '../utils/wordpressClient';
+import { resolveContent, slugFromUrl, slugify } from '../utils/postTypes';
+import {
+  appendSchemaScript,
+  DEFAULT_PUBLISH_SETTINGS,
+  publishContent,
+  publishSchedule,
+  savePost,
+  SavePostResult
+} from '../utils/publishing';
+import { clusterPosts } from '../utils/clusterPosts';
+import { contentLibrary, libraryItemForRewrite } from '../utils/contentLibrary';
+import { EditConflictError } from '../utils/contentBackups';
+import { describeUnregisteredSeoMeta, draftSeoMeta, prepareSeoMeta } from '../utils/seoMeta';
+import { formatContentForSite } from '../utils/gutenbergBlocks';
+import { buildTermFields, clusterArticleTerms, loadSiteTerms, mergeTermFields, suggestTerms } from '../utils/taxonomy';
+
+const INTERNAL_LINKS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    pillar: { type: 'string', minLength: 1 },
+    articles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { slug: { type: 'string' }, html: { type: 'string', minLength: 1 } },
+        required: ['slug', 'html']
+      }
+    }
+  },
+  required: ['pillar', 'articles']
+};
+
+interface InternalLinksPayload {
+  pillar: string;
+  articles: { slug: string; html: string }[];
+}
 
 interface GenerationOptions {
   includeInternalLinks?: boolean;
@@ -13,12 +62,162 @@ interface GenerationOptions {
   competitorAnalysis?: boolean;
   contentType?: 'optimize' | 'pillar';
   quantumQuality?: boolean;
+  /** Hard spending cap in USD for a bulk job */
+  budgetCap?: number;
+  /** REST route per URL from discovery; unknown URLs are resolved via /wp/v2/types */
+  restRoutes?: Record<string, string>;
+  /** WordPress post ID per URL from the REST inventory; those posts are loaded by ID, whatever their status */
+  postIds?: Record<string, number>;
+  /** Job-wide publish mode and scheduling cadence; defaults to draft revisions */
+  publish?: PublishSettings;
+  /** Per-URL overrides of the job's publish mode */
+  publishModes?: Record<string, PublishMode>;
+  /** Suggest categories and tags for each post and write the auto-approved existing ones */
+  assignTerms?: boolean;
+}
+
+interface BulkJobConfig {
+  jobId: string;
+  restRoutes: Record<string, string>;
+  postIds: Record<string, number>;
+  publishModes: Record<string, PublishMode>;
+  /** Publication slot per scheduled URL, planned when the job starts */
+  scheduleSlots: Record<string, string>;
+  serperApiKey: string;
+  contentType: string;
+  quantumQuality: boolean;
+  assignTerms: boolean;
+  /** Rewrites already paid for, by URL, kept until the post is written so a resumed job reuses them */
+  drafts: Record<string, GeneratedDraft>;
+}
+
+/** Generated text with the provider, model and prompt version that wrote it */
+interface GeneratedDraft {
+  content: string;
+  drafted: DraftProvenance;
+}
+
+export interface SingleArticleRequest {
+  title: string;
+  targetKeyword: string;
+  metaDescription: string;
+  contentBrief: string;
+  schemaType: SchemaType['type'];
+  eeatSignals?: boolean;
+  competitorAnalysis?: boolean;
+  /** Author profile to draw E-E-A-T facts from; defaults to the site's default author */
+  authorId?: string;
+  /** Ties the brief and draft calls to one job in the cost ledger */
+  jobId?: string;
+  /** Creates a WordPress post in this mode; without it nothing is written */
+  publishMode?: PublishMode;
+  /** Publication date for the "schedule" mode; defaults to the next queue slot */
+  scheduledFor?: string;
+  /** Post created by an earlier run of this article, updated instead of duplicated */
+  postId?: number;
+}
+
+export interface SingleArticleResult {
+  content: string;
+  /** Slug the article's post is saved under */
+  slug: string;
+  schema: string;
+  brief: ContentBrief;
+  voiceCheck: VoiceCheckResult;
+  author: AuthorProfile | null;
+  /** SEO title and description for the site's SEO plugin; the user's meta description wins over the AI draft */
+  seo: SeoMeta;
+  drafted: DraftProvenance;
+  /** The WordPress post, when one was requested */
+  post?: SavePostResult;
+}
+
+/**
+ * New terms proposed for a post during a bulk job; they are only created once approved.
+ */
+export interface BulkTermProposal {
+  url: string;
+  postId: number;
+  restRoute: string;
+  terms: TermSuggestion[];
 }
 
+export interface BulkEditConflict {
+  url: string;
+  postId: number;
+  expectedModifiedGmt: string;
+  actualModifiedGmt: string;
+}
+
+export interface PausedBulkJob {
+  jobId: string;
+  remainingUrls: string[];
+  cfg: BulkJobConfig;
+  reason: string;
+}
+
+// Expected completion length per post, used for pre-flight estimates (~1.35 tokens per word)
+const EXPECTED_OUTPUT_TOKENS: Record<string, number> = {
+  optimize: Math.round(3000 * 1.35),
+  pillar: Math.round(3500 * 1.35)
+};
+
+// Prompt length in characters and completion tokens of the structured calls that follow a rewrite
+const FOLLOW_UP_CALL_SIZES = {
+  seoMeta: { promptChars: 3600, outputTokens: 120 },
+  taxonomy: { promptChars: 6500, outputTokens: 200 }
+};
+
 export const useContentGeneration = (config: any) => {
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
   const [progress, setProgress] = useState(0);
   const [bulkProgress, setBulkProgress] = useState(0);
+  const [pausedJob, setPausedJob] = useState<PausedBulkJob | null>(null);
+  // Voice check failures keyed by post URL (or job ID when a call has no post)
+  const [voiceWarnings, setVoiceWarnings] = useState<Record<string, VoiceCheckResult>>({});
+  // SEO fields the site does not expose over REST, keyed by post URL
+  const [seoMetaWarnings, setSeoMetaWarnings] = useState<Record<string, string>>({});
+  // Posts a bulk job skipped because they were edited in WordPress mid-job
+  const [editConflicts, setEditConflicts] = useState<BulkEditConflict[]>([]);
+  // New categories and tags proposed during a bulk job, waiting for approval
+  const [termProposals, setTermProposals] = useState<BulkTermProposal[]>([]);
+
+  useEffect(() => {
+    promptRegistry.init();
+    voiceProfiles.init();
+    authorProfiles.init();
+  }, []);
+
+  /**
+   * Plans content clusters for a keyword from the gaps competitors leave:
+   * a pillar page and its supporting articles per cluster.
+   */
+  const generateContentClusters = async (
+    targetKeyword: string,
+    competitorAnalysis: CompetitorAnalysis[]
+  ): Promise<ContentCluster[]> => {
+    const prompt = `
+      Based on the competitive analysis for "${targetKeyword}", create a comprehensive content cluster strategy.
+      
+      Competitor Analysis Summary:
+      ${competitorAnalysis.map(comp => `
+        - ${comp.title}: Covers ${comp.topics.join(', ')}
+        - Missing: ${comp.missingTopics.join(', ')}
+      `).join('\n')}
+      
+      Generate 1-3 content clusters, each with:
+      1. One comprehensive pillar page that covers the main topic better than all competitors
+      2. 5-7 supporting cluster articles that target the gaps found in competitor analysis
+      3. A URL slug for every page, and 2-4 target keywords for every cluster article
+    `;
+
+    const payload = await generateStructured<ContentClustersPayload>(
+      [{ role: 'user', content: prompt }],
+      CONTENT_CLUSTERS_SCHEMA,
+      (messages) => callAIService(messages, { jobId: `strategy_${Date.now()}`, stage: 'analysis' })
+    );
+    return toContentClusters(targetKeyword, payload);
+  };
 
   const generateClusterContent = async (
     cluster: ContentCluster,
@@ -27,25 +226,48 @@ export const useContentGeneration = (config: any) => {
     setIsGeneratingContent(true);
     setProgress(0);
 
+    const jobId = `cluster_${cluster.id}_${Date.now()}`;
+
     try {
       // Generate pillar page content
       setProgress(20);
-      await generatePillarContent(cluster.pillarPage, options);
+      let pillar = await generatePillarContent(cluster.pillarPage, options, { jobId, postUrl: `/${cluster.pillarPage.slug}/` });
 
       // Generate cluster articles with internal linking
+      let clusterArticles = [];
       for (let i = 0; i < cluster.clusterArticles.length; i++) {
         setProgress(20 + ((i + 1) / cluster.clusterArticles.length) * 60);
-        await generateClusterArticle(cluster.clusterArticles[i], cluster.pillarPage, options);
+        const article = cluster.clusterArticles[i];
+        const { content, drafted } = await generateClusterArticle(article, cluster.pillarPage, options, { jobId, postUrl: `/${article.slug}/` });
+        clusterArticles.push({ ...article, content, drafted });
       }
 
       // Auto-generate internal links if enabled
       if (options.autoInternalLinking) {
         setProgress(85);
-        await generateInternalLinks(cluster);
+        const linked = await generateInternalLinks(
+          { title: cluster.pillarPage.title, slug: cluster.pillarPage.slug, content: pillar.content },
+          clusterArticles,
+          { jobId }
+        );
+        if (linked) {
+          pillar = { ...pillar, content: linked.pillar };
+          clusterArticles = clusterArticles.map(article => ({ ...article, content: linked.articles[article.slug] || article.content }));
+        }
       }
 
+      setProgress(88);
+      const withTerms = await suggestClusterTerms(
+        { ...cluster, pillarPage: { ...cluster.pillarPage, content: pillar.content, drafted: pillar.drafted }, clusterArticles },
+        jobId
+      );
+
+      // Create a post per page under its planned slug; ids from earlier runs are reused
+      setProgress(92);
+      const generated = await saveClusterPosts(withTerms, options.publish || DEFAULT_PUBLISH_SETTINGS, jobId);
+
       setProgress(100);
-      
+      return generated;
     } catch (error) {
       console.error('Error generating cluster content:', error);
       throw error;
@@ -54,53 +276,268 @@ export const useContentGeneration = (config: any) => {
     }
   };
 
-  const generateSingleArticle = async (articleData: {
-    title: string;
-    targetKeyword: string;
-    metaDescription: string;
-    contentBrief: string;
-    schemaType: SchemaType['type'];
-    eeatSignals?: boolean;
-    competitorAnalysis?: boolean;
-  }) => {
+  /**
+   * Suggests terms for the pillar; its articles inherit the pillar's primary
+   * category and get keyword-matched tags. Without site terms the cluster is
+   * returned as it is.
+   */
+  const suggestClusterTerms = async (cluster: ContentCluster, jobId: string): Promise<ContentCluster> => {
+    try {
+      const siteTerms = await loadSiteTerms(createWordPressClient(config));
+      const pillarTerms = await suggestTerms(
+        { title: cluster.pillarPage.title, html: cluster.pillarPage.content || '' },
+        siteTerms,
+        (messages) => callAIService(messages, { jobId, postUrl: `/${cluster.pillarPage.slug}/`, stage: 'taxonomy' })
+      );
+
+      return {
+        ...cluster,
+        pillarPage: { ...cluster.pillarPage, terms: pillarTerms },
+        clusterArticles: cluster.clusterArticles.map(article => ({
+          ...article,
+          terms: clusterArticleTerms({ title: article.title, html: article.content || '', keywords: article.keywords }, siteTerms, pillarTerms)
+        }))
+      };
+    } catch (error) {
+      console.warn('Could not suggest categories and tags for the cluster:', error);
+      return cluster;
+    }
+  };
+
+  /**
+   * Drafts the SEO fields and schema of every cluster page and writes the
+   * pages as posts. The returned cluster carries the post ids and links, and
+   * page content with its schema as written to the post. Each page's post is
+   * also stored as soon as it is written, so a failed run loses none.
+   */
+  const saveClusterPosts = async (cluster: ContentCluster, publish: PublishSettings, jobId: string): Promise<ContentCluster> => {
+    const author = await resolveAuthor();
+    await publishSchedule.init();
+    const slots = publish.mode === 'schedule' ? publishSchedule.planSlots(1 + cluster.clusterArticles.length, publish) : [];
+
+    const savePage = async <T extends { title: string; slug: string; content?: string; terms?: TermSuggestion[]; postId?: number }>(
+      page: T,
+      keywords: string[],
+      index: number
+    ): Promise<T & { content: string; postId: number; link: string }> => {
+      const context: AICallContext = { jobId, postUrl: `/${page.slug}/` };
+      const content = page.content || '';
+      const seoDraft = await draftSeoMeta(
+        { title: page.title, html: content, focusKeyword: keywords[0] },
+        (messages) => callAIService(messages, { ...context, stage: 'seoMeta' }, author)
+      );
+      const withSchema = appendSchemaScript(content, await generateSchemaMarkup('Article', content, context, author));
+      // The post is looked up in the store too, in case an earlier run failed before returning it
+      const saved = await clusterPosts.get(cluster.id, page.slug);
+      const result = await saveGeneratedPost(
+        {
+          postId: page.postId ?? saved?.postId,
+          title: page.title,
+          slug: page.slug,
+          content: withSchema,
+          seo: { ...seoDraft, focusKeyword: keywords[0] },
+          terms: page.terms,
+          jobId
+        },
+        publish.mode,
+        slots[index]
+      );
+      await clusterPosts.save({
+        clusterId: cluster.id,
+        slug: page.slug,
+        postId: result.postId,
+        link: result.link,
+        savedAt: new Date().toISOString()
+      });
+      return { ...page, content: withSchema, postId: result.postId, link: result.link };
+    };
+
+    const pillarPage = await savePage(cluster.pillarPage, [], 0);
+    const clusterArticles = [];
+    for (let i = 0; i < cluster.clusterArticles.length; i++) {
+      const article = cluster.clusterArticles[i];
+      clusterArticles.push(await savePage(article, article.keywords, i + 1));
+    }
+
+    return { ...cluster, pillarPage, clusterArticles };
+  };
+
+  /**
+   * Writes a generated article as a WordPress post with its schema, SEO
+   * fields and approved terms, in the site's content format.
+   */
+  const saveGeneratedPost = async (
+    article: {
+      postId?: number;
+      title: string;
+      slug: string;
+      content: string;
+      schema?: string;
+      seo: SeoMeta;
+      terms?: TermSuggestion[];
+      jobId: string;
+    },
+    mode: PublishMode,
+    slot?: Date
+  ): Promise<SavePostResult> => {
+    const wp = createWordPressClient(config);
+    const seo = await prepareSeoMeta(wp, article.seo, { restRoute: POSTS_ROUTE });
+    const result = await savePost(
+      wp,
+      {
+        postId: article.postId,
+        title: article.title,
+        slug: article.slug,
+        content: formatContentForSite(appendSchemaScript(article.content, article.schema), config),
+        fields: {
+          ...(article.seo.description ? { excerpt: article.seo.description } : {}),
+          ...(Object.keys(seo.meta).length > 0 ? { meta: seo.meta } : {}),
+          ...(await buildTermFields(wp, POSTS_ROUTE, article.terms))
+        },
+        jobId: article.jobId
+      },
+      mode,
+      slot
+    );
+
+    const seoWarning = describeUnregisteredSeoMeta(seo);
+    if (seoWarning) {
+      setSeoMetaWarnings(prev => ({ ...prev, [result.link]: seoWarning }));
+    }
+
+    if (result.scheduledFor) {
+      await publishSchedule.add({
+        jobId: article.jobId,
+        postId: result.postId,
+        restRoute: POSTS_ROUTE,
+        url: result.link,
+        title: article.title,
+        scheduledFor: result.scheduledFor,
+        update: result.deferredUpdate
+      });
+    }
+    return result;
+  };
+
+  const singleArticleContext = (articleData: SingleArticleRequest): AICallContext => ({
+    jobId: articleData.jobId || `single_${Date.now()}`,
+    postUrl: `/${slugify(articleData.title)}/`
+  });
+
+  /**
+   * Runs competitor analysis (if enabled) and the brief stage so the user can
+   * review and edit the brief before drafting.
+   */
+  const generateContentBrief = async (articleData: SingleArticleRequest): Promise<ContentBrief> => {
     setIsGeneratingContent(true);
     setProgress(0);
 
+    const context = singleArticleContext(articleData);
+
     try {
       setProgress(10);
-      
+
       // Step 1: Competitive analysis if enabled
       let competitorInsights = '';
       if (articleData.competitorAnalysis) {
         setProgress(30);
-        competitorInsights = await perform10xAnalysis(articleData.targetKeyword);
+        competitorInsights = await perform10xAnalysis(articleData.targetKeyword, context);
       }
 
       // Step 2: Generate enhanced content brief
-      setProgress(50);
-      const enhancedBrief = await createEnhancedContentBrief(
+      setProgress(60);
+      const brief = await createEnhancedContentBrief(
         articleData,
         competitorInsights,
-        articleData.eeatSignals
+        articleData.eeatSignals,
+        context,
+        await resolveAuthor(undefined, articleData.authorId)
       );
 
+      setProgress(100);
+      return brief;
+    } catch (error) {
+      console.error('Error generating content brief:', error);
+      throw error;
+    } finally {
+      setIsGeneratingContent(false);
+    }
+  };
+
+  /**
+   * Drafts the article and its schema markup.
+   * @param approvedBrief The brief as edited by the user; generated first when omitted.
+   */
+  const generateSingleArticle = async (
+    articleData: SingleArticleRequest,
+    approvedBrief?: ContentBrief
+  ): Promise<SingleArticleResult> => {
+    const context = singleArticleContext(articleData);
+    const brief = approvedBrief || await generateContentBrief({ ...articleData, jobId: context.jobId });
+
+    setIsGeneratingContent(true);
+    setProgress(0);
+
+    try {
       // Step 3: Generate the actual content
-      setProgress(70);
-      const generatedContent = await generateContentFromBrief(enhancedBrief, articleData.schemaType);
+      setProgress(40);
+      const author = await resolveAuthor(undefined, articleData.authorId);
+      const draft = await generateContentFromBrief(brief, articleData.schemaType, context, author);
+      const generatedContent = draft.content;
 
       // Step 4: Generate appropriate schema markup
+      setProgress(80);
+      const schema = await generateSchemaMarkup(articleData.schemaType, generatedContent, context, author);
+
       setProgress(90);
-      const schema = await generateSchemaMarkup(articleData.schemaType, generatedContent);
+      const seoDraft = await draftSeoMeta(
+        { title: articleData.title, html: generatedContent, focusKeyword: articleData.targetKeyword },
+        (messages) => callAIService(messages, { ...context, stage: 'seoMeta' }, author)
+      );
+
+      const seo = {
+        title: seoDraft.title,
+        description: articleData.metaDescription.trim() || seoDraft.description,
+        focusKeyword: articleData.targetKeyword
+      };
+
+      // Step 5: Create (or update) the WordPress post
+      let post: SavePostResult | undefined;
+      if (articleData.publishMode) {
+        setProgress(95);
+        const mode = articleData.publishMode;
+        await publishSchedule.init();
+        const slot = mode !== 'schedule' ? undefined
+          : articleData.scheduledFor ? new Date(articleData.scheduledFor)
+          : publishSchedule.planSlots(1, DEFAULT_PUBLISH_SETTINGS)[0];
+        post = await saveGeneratedPost(
+          {
+            postId: articleData.postId,
+            title: articleData.title,
+            slug: slugify(articleData.title),
+            content: generatedContent,
+            schema,
+            seo,
+            jobId: context.jobId
+          },
+          mode,
+          slot
+        );
+      }
 
       setProgress(100);
 
-      // Return or save the generated content
-      console.log('Generated content:', {
+      return {
         content: generatedContent,
+        slug: slugify(articleData.title),
         schema,
-        brief: enhancedBrief
-      });
-
+        brief,
+        voiceCheck: checkVoiceCompliance(generatedContent, await getVoiceProfile()),
+        author,
+        seo,
+        drafted: { provider: draft.provider, model: draft.model },
+        post
+      };
     } catch (error) {
       console.error('Error generating single article:', error);
       throw error;
@@ -110,21 +547,67 @@ export const useContentGeneration = (config: any) => {
   };
 
   const generateBulkContent = async (urlsToProcess: string[], options: GenerationOptions = {}) => {
+    const jobId = `bulk_${Date.now()}`;
+    if (options.budgetCap && estimateBulkCost(urlsToProcess.length, options.contentType).unpriced) {
+      throw new Error('No price is configured for the selected model, so a budget cap cannot be enforced. Add its price in Settings or remove the cap.');
+    }
+    costLedger.setJobBudget(jobId, options.budgetCap ?? null);
+    setEditConflicts([]);
+    setTermProposals([]);
+
+    // Resolve every URL's publish mode and reserve queue slots for the scheduled ones
+    const publish = options.publish || DEFAULT_PUBLISH_SETTINGS;
+    const publishModes = Object.fromEntries(
+      urlsToProcess.map(url => [url, options.publishModes?.[url] || publish.mode])
+    );
+    const scheduledUrls = urlsToProcess.filter(url => publishModes[url] === 'schedule');
+    await publishSchedule.init();
+    const slots = publishSchedule.planSlots(scheduledUrls.length, publish);
+    const scheduleSlots = Object.fromEntries(scheduledUrls.map((url, index) => [url, slots[index].toISOString()]));
+
+    return await runBulkJob(urlsToProcess, {
+      jobId,
+      restRoutes: options.restRoutes || {},
+      postIds: options.postIds || {},
+      publishModes,
+      scheduleSlots,
+      serperApiKey: config.serperApiKey,
+      contentType: options.contentType || 'optimize',
+      quantumQuality: options.quantumQuality || false,
+      assignTerms: options.assignTerms || false,
+      drafts: {}
+    });
+  };
+
+  /**
+   * Continues a job paused by its budget cap.
+   * @param newBudgetCap Raised cap in USD; null removes the cap.
+   */
+  const resumeBulkContent = async (newBudgetCap: number | null) => {
+    if (!pausedJob) return null;
+
+    costLedger.setJobBudget(pausedJob.jobId, newBudgetCap);
+    return await runBulkJob(pausedJob.remainingUrls, pausedJob.cfg);
+  };
+
+  const runBulkJob = async (urls: string[], cfg: BulkJobConfig) => {
     setIsGeneratingContent(true);
     setBulkProgress(0);
-
-    const authBase64 = btoa(`${config.wpUsername}:${config.wpAppPassword}`);
+    setPausedJob(null);
 
     try {
-      await generateAndUpdatePosts(urlsToProcess, {
-        apiKey: getApiKeyForProvider(),
-        model: config.openrouterModel || 'anthropic/claude-3.5-sonnet',
-        authBase64,
-        provider: config.selectedProvider,
-        serperApiKey: config.serperApiKey,
-        contentType: options.contentType || 'optimize',
-        quantumQuality: options.quantumQuality || false
-      });
+      const { remainingUrls, stoppedBy } = await generateAndUpdatePosts(urls, cfg);
+      if (stoppedBy) {
+        setPausedJob({
+          jobId: cfg.jobId,
+          remainingUrls,
+          cfg,
+          reason: stoppedBy instanceof UnpricedModelError
+            ? `${stoppedBy.message}. Add its price in Settings or remove the cap to continue (${remainingUrls.length} post(s) remaining)`
+            : `Budget cap of $${stoppedBy.cap.toFixed(2)} reached with ${remainingUrls.length} post(s) remaining`
+        });
+      }
+      return cfg.jobId;
     } catch (error) {
       console.error('Error in bulk content generation:', error);
       throw error;
@@ -134,15 +617,60 @@ export const useContentGeneration = (config: any) => {
     }
   };
 
-  const generateAndUpdatePosts = async (urls: string[], cfg: {
-    apiKey: string; 
-    model: string; 
-    authBase64: string;
-    provider: string;
-    serperApiKey: string;
-    contentType: string;
-    quantumQuality: boolean;
-  }) => {
+  /**
+   * Pre-flight estimate of tokens and dollars for a bulk job, sized from the
+   * real prompt template with a full-length content preview. SEO meta and
+   * taxonomy calls are counted with all their repair attempts.
+   * @param followUps Posts that get SEO meta (every mode but draft), and whether they also get terms.
+   */
+  const estimateBulkCost = (
+    urlCount: number,
+    contentType: 'optimize' | 'pillar' = 'optimize',
+    followUps: { seoMetaPosts?: number; assignTerms?: boolean } = {}
+  ): CostEstimate => {
+    const sampleContent = { title: 'Sample Post Title', excerpt: 'x'.repeat(2000) };
+    const sampleInsights = 'x'.repeat(1200);
+    const { messages } = contentType === 'pillar'
+      ? buildQuantumPillarPrompt('https://example.com/sample-post/', sampleContent, sampleInsights)
+      : buildPremiumPrompt('https://example.com/sample-post/', sampleContent, sampleInsights);
+    // Every stage is priced with the model stage routing sends it to
+    const options = buildAIRequestOptions(config, {
+      context: { stage: contentType === 'pillar' ? 'draft' : 'rewrite' }
+    });
+
+    const structuredCalls = (stage: 'seoMeta' | 'taxonomy', posts: number) => {
+      const stageOptions = buildAIRequestOptions(config, { context: { stage } });
+      return estimateJobCost(
+        posts * (DEFAULT_MAX_REPAIR_ATTEMPTS + 1),
+        'x'.repeat(FOLLOW_UP_CALL_SIZES[stage].promptChars),
+        FOLLOW_UP_CALL_SIZES[stage].outputTokens,
+        stageOptions.model,
+        stageOptions.priceTable
+      );
+    };
+    const seoMetaPosts = followUps.seoMetaPosts ?? 0;
+
+    return sumCostEstimates([
+      estimateJobCost(
+        urlCount,
+        messages.map(message => message.content).join('\n'),
+        EXPECTED_OUTPUT_TOKENS[contentType],
+        options.model,
+        options.priceTable
+      ),
+      structuredCalls('seoMeta', seoMetaPosts),
+      structuredCalls('taxonomy', followUps.assignTerms ? seoMetaPosts : 0)
+    ]);
+  };
+
+  /**
+   * Processes URLs two at a time until done or until the budget cap stops the job.
+   * @returns URLs left unprocessed because the budget stopped the job, and the error that stopped it.
+   */
+  const generateAndUpdatePosts = async (
+    urls: string[],
+    cfg: BulkJobConfig
+  ): Promise<{ remainingUrls: string[]; stoppedBy?: BudgetExceededError }> => {
     const concurrency = 2;
     const batches = [];
     
@@ -151,340 +679,194 @@ export const useContentGeneration = (config: any) => {
     }
 
     let completed = 0;
+    const budgetBlocked: string[] = [];
+    let stoppedBy: BudgetExceededError | undefined;
     
-    for (const batch of batches) {
+    for (let b = 0; b < batches.length; b++) {
       await Promise.all(
-        batch.map(async (url) => {
+        batches[b].map(async (url) => {
           try {
             await processOneUrl(url, cfg);
             completed++;
             setBulkProgress((completed / urls.length) * 100);
           } catch (error) {
+            if (error instanceof BudgetExceededError) {
+              budgetBlocked.push(url);
+              stoppedBy = stoppedBy || error;
+              return;
+            }
+            if (error instanceof EditConflictError) {
+              // Never overwrite a concurrent edit in a bulk run; report it instead
+              setEditConflicts(prev => [...prev, {
+                url,
+                postId: error.postId,
+                expectedModifiedGmt: error.expectedModifiedGmt,
+                actualModifiedGmt: error.actualModifiedGmt
+              }]);
+              return;
+            }
             console.error(`Failed to process ${url}:`, error);
-            // Retry logic could go here
           }
         })
       );
+
+      if (stoppedBy) {
+        // Pause: hand back the blocked URLs plus every batch not yet started
+        return { remainingUrls: [...budgetBlocked, ...batches.slice(b + 1).flat()], stoppedBy };
+      }
     }
+
+    return { remainingUrls: [] };
   };
 
-  const processOneUrl = async (url: string, cfg: {
-    apiKey: string; 
-    model: string; 
-    authBase64: string;
-    provider: string;
-    serperApiKey: string;
-    contentType: string;
-    quantumQuality: boolean;
-  }) => {
-    // Step 1: Extract slug from URL
-    const slug = slugFromUrl(url);
-    
-    // Step 2: Get post ID from WordPress
-    const postId = await getPostIdBySlug(slug);
-    if (!postId) {
-      throw new Error(`No post found for slug: ${slug}`);
+  const processOneUrl = async (url: string, cfg: BulkJobConfig) => {
+    // Step 1: Find the post in whichever collection (post, page, product, CPT) holds it
+    const wp = createWordPressClient(config);
+    const found = await resolveContent(wp, { url, id: cfg.postIds[url], restRoute: cfg.restRoutes[url] }, {
+      fields: ['id', 'title', 'content', 'author', 'modified_gmt', 'categories', 'tags']
+    });
+    if (!found) {
+      throw new Error(`No post found for slug: ${slugFromUrl(url)}`);
     }
 
-    // Step 3: Fetch existing content for grounding
-    const existingContent = await fetchExistingPost(postId);
+    // Step 2: Use existing content for grounding
+    const existingContent = toExistingContent(found.item);
     
-    // Step 4: Generate content based on type
-    const generatedContent = cfg.contentType === 'pillar' 
+    // Step 3: Generate content based on type, unless a run the budget paused already paid for it
+    const draft = cfg.drafts[url] ?? (cfg.contentType === 'pillar'
       ? await generateQuantumPillarContent(url, existingContent, cfg)
-      : await generatePremiumContent(url, existingContent, cfg);
+      : await generatePremiumContent(url, existingContent, cfg));
+    cfg.drafts[url] = draft;
+    const generatedContent = draft.content;
     
-    // Step 5: Update WordPress post
-    return await updateWpPost({
-      id: postId,
-      content: generatedContent,
-      authBase64: cfg.authBase64
-    });
-  };
-
-  const generateQuantumPillarContent = async (url: string, existingContent: any, cfg: any): Promise<string> => {
-    // Step 1: Get competitor insights using Serper.dev
-    const competitorInsights = await getCompetitorInsights(existingContent.title, cfg.serperApiKey);
-    
-    const messages = [
-      {
-        role: 'system',
-        content: `PREMIUM PILLAR CONTENT GENERATION PROTOCOL
-
-You are an expert content strategist creating premium WordPress pillar posts. Your content must be:
-1. PERFECTLY FORMATTED for WordPress - clean HTML that won't break layouts
-2. SEO-optimized with proper heading structure (H2, H3, H4)
-3. Engaging, comprehensive, and authoritative
-4. 2500+ words minimum
-5. Professional and publication-ready
-
-CRITICAL FORMATTING REQUIREMENTS:
-- Use semantic HTML tags: <h2>, <h3>, <h4>, <p>, <ul>, <ol>, <li>, <strong>, <em>
-- NO custom CSS classes or inline styles
-- NO JavaScript or dynamic content
-- Proper paragraph breaks with <p> tags
-- Lists must use <ul><li> or <ol><li> structure
-- Headings must follow hierarchy (H2 → H3 → H4)
-- Use <strong> for emphasis, <em> for italics
-- Include relevant internal linking opportunities with <a> tags
-
-CONTENT STRUCTURE REQUIREMENTS:
-1. Compelling introduction (200-300 words)
-2. Table of contents (if over 2000 words)
-3. 6-10 main sections with descriptive H2 headings
-4. Subsections with H3/H4 headings as needed
-5. FAQ section with common questions
-6. Conclusion with next steps
-7. Throughout: bullet points, numbered lists, and scannable formatting`
-      },
-      {
-        role: 'user',
-        content: `WORDPRESS FORMATTING GUIDELINES:
-
-OUTPUT FORMAT: Return ONLY clean HTML content - no JSON, no metadata, just the article HTML.
-
-CRITICAL: The HTML must be WordPress-compatible:
-- Clean semantic HTML only
-- No custom CSS classes or IDs  
-- No inline styles or JavaScript
-- Use standard HTML tags: h2, h3, h4, p, ul, ol, li, strong, em, a
-- Proper heading hierarchy starting with H2 (no H1 - WordPress handles that)
-- Use <p> tags for all paragraphs
-- Use <ul> and <ol> for lists with proper <li> items
-
-CONTENT REQUIREMENTS:
-- 2500+ words minimum
-- Engaging, comprehensive, authoritative
-- SEO-optimized with natural keyword usage
-- Scannable with lists, headers, and short paragraphs
-- Include FAQ section with common questions
-- Professional tone suitable for publication
-
-STRUCTURE EXAMPLE:
-<h2>Introduction Section</h2>
-<p>Opening paragraph content...</p>
-
-<h2>Main Topic Section</h2>
-<p>Section content...</p>
-<h3>Subsection</h3>
-<ul>
-<li>Bullet point one</li>
-<li>Bullet point two</li>
-</ul>
-
-<h2>Frequently Asked Questions</h2>
-<h3>Question 1?</h3>
-<p>Answer to question 1...</p>`
-      },
-      {
-        role: 'user',
-        content: `GENERATE PREMIUM PILLAR CONTENT FOR:
-
-URL: ${url}
-Title: ${existingContent.title}
-Content Preview: ${existingContent.excerpt}
-${competitorInsights ? `\n🔍 COMPETITOR INTELLIGENCE:\n${competitorInsights}` : ''}
-
-Create the ultimate pillar post that:
-1. Completely covers the topic comprehensively
-2. Uses proper WordPress-compatible HTML formatting
-3. Is engaging and authoritative
-4. Includes practical, actionable advice
-5. Has a clear structure with proper headings
-6. Contains 2500+ words of valuable content
-
-Return ONLY the HTML content - no JSON, no metadata, just clean HTML ready for WordPress.`
+    // Step 4: Draft the SEO title and description for the active SEO plugin.
+    // Draft mode writes an autosave, which cannot carry meta, so it is skipped there.
+    const mode = cfg.publishModes[url] || DEFAULT_PUBLISH_SETTINGS.mode;
+    const target = { id: found.item.id, restRoute: found.restRoute };
+    let meta: Record<string, any> | undefined;
+    let seo: SeoMeta | undefined;
+    if (mode !== 'draft') {
+      seo = await draftSeoMeta(
+        { title: existingContent.title, html: generatedContent },
+        (messages) => callAIService(messages, { jobId: cfg.jobId, postUrl: url, stage: 'seoMeta' })
+      );
+      const prepared = await prepareSeoMeta(wp, seo, target);
+      meta = Object.keys(prepared.meta).length > 0 ? prepared.meta : undefined;
+      const seoWarning = describeUnregisteredSeoMeta(prepared);
+      if (seoWarning) {
+        setSeoMetaWarnings(prev => ({ ...prev, [url]: seoWarning }));
       }
-    ];
-
-    return await callAIService(messages, cfg);
-  };
-
-  const slugFromUrl = (url: string): string => {
-    try {
-      const pathname = new URL(url).pathname;
-      return pathname.split('/').filter(Boolean).pop() || '';
-    } catch {
-      return '';
-    }
-  };
-
-  const getPostIdBySlug = async (slug: string): Promise<number | null> => {
-    const baseUrl = config.wpSiteUrl?.replace(/\/$/, '') || '';
-    if (!baseUrl) {
-      throw new Error('WordPress site URL not configured');
     }
 
-    try {
-      // Try posts first
-      let res = await fetch(`${baseUrl}/wp-json/wp/v2/posts?slug=${encodeURIComponent(slug)}`, {
-        mode: 'cors',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      if (res.ok) {
-        const posts = await res.json();
-        if (Array.isArray(posts) && posts.length > 0 && posts[0].id) {
-          return posts[0].id;
-        }
-      }
-      
-      // Try pages if no post found
-      res = await fetch(`${baseUrl}/wp-json/wp/v2/pages?slug=${encodeURIComponent(slug)}`, {
-        mode: 'cors',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      if (res.ok) {
-        const pages = await res.json();
-        if (Array.isArray(pages) && pages.length > 0 && pages[0].id) {
-          return pages[0].id;
-        }
+    // Categories and tags: auto-approved existing terms are written, new ones wait for approval
+    let termFields = {};
+    if (cfg.assignTerms && mode !== 'draft') {
+      const suggestions = await suggestTerms(
+        { title: existingContent.title, html: generatedContent },
+        await loadSiteTerms(wp),
+        (messages) => callAIService(messages, { jobId: cfg.jobId, postUrl: url, stage: 'taxonomy' })
+      );
+      termFields = mergeTermFields(
+        found.item,
+        await buildTermFields(wp, found.restRoute, suggestions.filter(suggestion => suggestion.termId))
+      );
+      const proposed = suggestions.filter(suggestion => !suggestion.termId);
+      if (proposed.length > 0) {
+        setTermProposals(prev => [...prev, { url, postId: found.item.id, restRoute: found.restRoute, terms: proposed }]);
       }
-      
-      return null;
-    } catch (error) {
-      console.error(`Error looking up post ID for slug ${slug}:`, error);
-      return null;
-    }
-  };
-
-  const fetchExistingPost = async (postId: number) => {
-    const baseUrl = config.wpSiteUrl?.replace(/\/$/, '') || '';
-    if (!baseUrl) {
-      throw new Error('WordPress site URL not configured');
     }
 
-    try {
-      const res = await fetch(`${baseUrl}/wp-json/wp/v2/posts/${postId}`, {
-        mode: 'cors',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
+    // Step 5: Write to the post under the route it was found on, in the URL's publish mode
+    const slot = cfg.scheduleSlots[url] ? new Date(cfg.scheduleSlots[url]) : undefined;
+    const result = await publishContent(
+      wp,
+      { ...target, url, jobId: cfg.jobId, baseModifiedGmt: found.item.modified_gmt },
+      formatContentForSite(generatedContent, config),
+      mode,
+      slot,
+      { ...termFields, ...(meta ? { meta } : {}) }
+    );
+
+    if (result.scheduledFor) {
+      await publishSchedule.add({
+        jobId: cfg.jobId,
+        postId: found.item.id,
+        restRoute: found.restRoute,
+        url,
+        title: existingContent.title,
+        scheduledFor: result.scheduledFor,
+        update: result.deferredUpdate
       });
-      if (!res.ok) {
-        throw new Error(`Failed to fetch post ${postId}: ${res.status}`);
-      }
-      const post = await res.json();
-      return {
-        title: post.title?.rendered || '',
-        content: post.content?.rendered || '',
-        excerpt: post.content?.rendered?.replace(/<[^>]+>/g, '').slice(0, 2000) || ''
-      };
-    } catch (error) {
-      console.error(`Error fetching existing post ${postId}:`, error);
-      return { title: '', content: '', excerpt: '' };
     }
+    delete cfg.drafts[url];
+
+    // The library keeps the rewrite with the model that wrote it
+    await contentLibrary.add(libraryItemForRewrite({
+      url,
+      title: existingContent.title,
+      content: generatedContent,
+      drafted: draft.drafted,
+      voiceCheck: checkVoiceCompliance(generatedContent, await getVoiceProfile()),
+      mode,
+      post: target,
+      scheduledFor: result.scheduledFor,
+      seo
+    }));
+    return { ...result, drafted: draft.drafted };
   };
 
-  const generatePremiumContent = async (url: string, existingContent: any, cfg: any): Promise<string> => {
+  const generateQuantumPillarContent = async (url: string, existingContent: any, cfg: BulkJobConfig): Promise<GeneratedDraft> => {
     // Step 1: Get competitor insights using Serper.dev
     const competitorInsights = await getCompetitorInsights(existingContent.title, cfg.serperApiKey);
-    
-    const messages = [
-      {
-        role: 'system',
-        content: 'You are a world-class content strategist and domain expert with 20+ years of experience creating viral, engaging content. Your articles consistently rank #1 on Google, have 90%+ engagement rates, and are cited by industry leaders. You excel at transforming complex topics into compelling, easy-to-understand content that delivers massive value to readers.'
-      },
-      {
-        role: 'developer',
-        content: `CRITICAL REQUIREMENTS - MUST FOLLOW ALL:
-
-        CONTENT QUALITY & LENGTH:
-        - Minimum 2000 words (aim for 2500-3500 words)
-        - 10x higher quality than any competing content
-        - Grade 8-10 readability (use Hemingway Editor principles)
-        - Short paragraphs (2-3 sentences max)
-        - Scannable with clear subheadings every 200-300 words
-
-        INTRODUCTION REQUIREMENTS:
-        - Start with a jaw-dropping, fact-checked statistic that shocks readers
-        - Use storytelling elements to create emotional connection
-        - Promise specific, actionable outcomes the reader will achieve
-        - Include a compelling hook that makes scrolling irresistible
-
-        SEMANTIC KEYWORD INTEGRATION:
-        - Naturally weave semantic keywords throughout (LSI keywords, synonyms, related terms)
-        - Use topic clusters and semantic relationships
-        - Include industry-specific terminology and jargon appropriately
-        - Maintain keyword density of 1-2% for primary keywords
-
-        PEOPLE ALSO ASK (PAA) INTEGRATION:
-        - Research and include 8-12 People Also Ask questions for the topic
-        - Answer each PAA question comprehensively within the content
-        - Format as dedicated FAQ section AND weave answers throughout
-        - Use question-based subheadings where natural
-
-        STRUCTURE & E-E-A-T:
-        1. Compelling headline with power words
-        2. Shocking statistic + engaging introduction (300+ words)
-        3. Table of contents for long-form content
-        4. 7-12 main sections with actionable insights
-        5. Real examples, case studies, and first-hand experience
-        6. Comprehensive FAQ section (People Also Ask)
-        7. Expert quotes and credible sources
-        8. Pros/cons analysis with balanced perspective
-        9. Step-by-step tutorials with screenshots/examples
-        10. Strong conclusion with clear next steps
-
-        ENGAGEMENT & READABILITY:
-        - Use power words and emotional triggers
-        - Include numbered/bulleted lists frequently
-        - Add "Pro Tips," "Warning,\" and "Expert Insight\" callout boxes
-        - Use transition phrases between sections
-        - Include relevant analogies and metaphors
-        - End each section with a takeaway or action item`
-      },
-      {
-        role: 'user',
-        content: `CONTENT UPGRADE MISSION:
-
-URL: ${url}
-Original Title: ${existingContent.title}
-Current Content Preview: """${existingContent.excerpt}"""
-${competitorInsights ? `\nCOMPETITOR ANALYSIS:\n${competitorInsights}` : ''}
-
-MISSION: Transform this into the DEFINITIVE, most comprehensive resource on this topic that:
-
-1. SHOCKING OPENER: Start with a mind-blowing, fact-checked statistic that makes readers think "I had no idea!"
-
-2. SEMANTIC MASTERY: Strategically incorporate ALL related semantic keywords, synonyms, and LSI terms naturally throughout the content
-
-3. PAA DOMINATION: Research and answer these People Also Ask questions within the content:
-   - What is [main topic] and why does it matter?
-   - How do beginners get started with [topic]?
-   - What are the most common mistakes with [topic]?
-   - How long does it take to see results from [topic]?
-   - What tools/resources are needed for [topic]?
-   - How much does [topic] cost?
-   - Is [topic] worth it for [specific audience]?
-   - What are alternatives to [topic]?
-
-4. AUTHORITY BUILDING: Include expert quotes, studies, and credible sources
-
-5. EXPERIENCE SIGNALS: Add first-person insights, lessons learned, and real examples
-
-6. COMPREHENSIVE COVERAGE: Cover every angle competitors miss, go 3x deeper than existing content
-
-7. ACTIONABLE VALUE: Every section must include specific, implementable advice
-
-CONTENT REQUIREMENTS:
-- Minimum 2000 words, targeting 2500-3500 words
-- Grade 8-10 readability with short paragraphs
-- Scannable format with clear subheadings
-- FAQ section answering People Also Ask questions
-- Expert-level insights with balanced analysis
-- Strong E-E-A-T signals throughout
+    await promptRegistry.init();
+    const author = await resolveAuthor(existingContent.author);
+
+    return draftFromPrompt(
+      buildQuantumPillarPrompt(url, existingContent, competitorInsights),
+      { jobId: cfg.jobId, postUrl: url, stage: 'draft' },
+      author
+    );
+  };
 
-Return only the complete HTML content for the post body (no meta tags, titles, or WordPress-specific markup).`
-      }
-    ];
+  const buildQuantumPillarPrompt = (url: string, existingContent: any, competitorInsights: string): RenderedPrompt =>
+    promptRegistry.render('quantumPillar', {
+      url,
+      title: existingContent.title,
+      excerpt: existingContent.excerpt,
+      competitorInsights: competitorInsights || 'Not available'
+    });
 
-    return await callAIService(messages, cfg);
+  /**
+   * Reduces a post to the fields used for grounding generation.
+   */
+  const toExistingContent = (post: WPPostObject) => ({
+    title: post.title?.rendered || '',
+    content: post.content?.rendered || '',
+    excerpt: post.content?.rendered?.replace(/<[^>]+>/g, '').slice(0, 2000) || '',
+    author: post.author as number | undefined
+  });
+
+  const generatePremiumContent = async (url: string, existingContent: any, cfg: BulkJobConfig): Promise<GeneratedDraft> => {
+    // Step 1: Get competitor insights using Serper.dev
+    const competitorInsights = await getCompetitorInsights(existingContent.title, cfg.serperApiKey);
+    await promptRegistry.init();
+    const author = await resolveAuthor(existingContent.author);
+
+    return draftFromPrompt(
+      buildPremiumPrompt(url, existingContent, competitorInsights),
+      { jobId: cfg.jobId, postUrl: url, stage: 'rewrite' },
+      author
+    );
   };
 
+  const buildPremiumPrompt = (url: string, existingContent: any, competitorInsights: string): RenderedPrompt =>
+    promptRegistry.render('premiumRewrite', {
+      url,
+      title: existingContent.title,
+      excerpt: existingContent.excerpt,
+      competitorInsights: competitorInsights || 'Not available'
+    });
+
   const getCompetitorInsights = async (title: string, serperApiKey: string): Promise<string> => {
     try {
       const response = await fetch('https://google.serper.dev/search', {
@@ -522,128 +904,142 @@ Return only the complete HTML content for the post body (no meta tags, titles, o
     }
   };
 
-  const updateWpPost = async ({
-    id,
-    content,
-    title,
-    status = 'publish',
-    authBase64
-  }: {
-    id: number;
-    content: string;
-    title?: string;
-    status?: 'publish' | 'draft';
-    authBase64: string;
-  }) => {
-    const baseUrl = config.wpSiteUrl?.replace(/\/$/, '') || '';
-    if (!baseUrl) {
-      throw new Error('WordPress site URL not configured');
-    }
-
-    const updateData: any = { content: { raw: content } };
-    if (title) {
-      updateData.title = title;
-    }
-    if (status) {
-      updateData.status = status;
-    }
-
-    const res = await fetch(`${baseUrl}/wp-json/wp/v2/posts/${id}`, {
-      method: 'POST',
-      mode: 'cors',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${authBase64}`,
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      },
-      body: JSON.stringify(updateData)
-    });
-
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`WordPress update failed ${res.status}: ${errorText}`);
-    }
-
-    return res.json();
+  const getVoiceProfile = async () => {
+    await voiceProfiles.init();
+    return voiceProfiles.get(config.voiceProfileId);
   };
 
-  const getApiKeyForProvider = (): string => {
-    switch (config.selectedProvider) {
-      case 'openrouter': return config.openrouterApiKey;
-      case 'gemini': return config.geminiApiKey;
-      case 'openai': return config.openaiApiKey;
-      case 'anthropic': return config.anthropicApiKey;
-      default: return '';
-    }
+  /**
+   * Finds the author profile for a post: an explicit profile ID first, then the
+   * profile mapped to the post's WordPress user, then the site default.
+   */
+  const resolveAuthor = async (wpUserId?: number, authorId?: string): Promise<AuthorProfile | null> => {
+    await authorProfiles.init();
+    return authorId ? authorProfiles.get(authorId) : authorProfiles.resolve(wpUserId, config.defaultAuthorId);
   };
 
-  const callAIService = async (messages: any[], cfg: any): Promise<string> => {
-    switch (cfg.provider) {
-      case 'openrouter':
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${cfg.apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': window.location.origin,
-            'X-Title': document.title || 'WP Content Optimizer'
-          },
-          body: JSON.stringify({ 
-            model: cfg.model,
-            messages,
-            temperature: 0.7
-          })
-        });
+  /**
+   * Sends messages to the configured AI. Stages that write published prose get
+   * the site's voice profile and a banned-phrase check on the output, and every
+   * stage that may write E-E-A-T material is limited to the author's facts.
+   * @param author The post's author; resolves to the site default when omitted.
+   */
+  const callAIService = async (
+    messages: AIMessage[],
+    context?: AICallContext,
+    author?: AuthorProfile | null
+  ): Promise<string> => (await callAICompletion(messages, context, author)).content;
+
+  /**
+   * callAIService, keeping the provider and model that answered.
+   * @param onFallback Called before moving on from a failed model.
+   */
+  const callAICompletion = async (
+    messages: AIMessage[],
+    context?: AICallContext,
+    author?: AuthorProfile | null,
+    onFallback?: (failedModel: string, error: AIProviderError) => void
+  ): Promise<AICompletion> => {
+    const stage = context?.stage;
+    const usesVoice = !!stage && VOICE_STAGES.includes(stage);
+    const profile = usesVoice ? await getVoiceProfile() : null;
+
+    let prepared = applyVoiceProfile(messages, profile);
+    if (stage && AUTHOR_FACT_STAGES.includes(stage)) {
+      prepared = applyAuthorProfile(prepared, author === undefined ? await resolveAuthor() : author);
+    }
 
-        if (!response.ok) {
-          throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
-        }
+    const completion = await callAIWithFallback(prepared, config, { context }, onFallback);
+    const { content } = completion;
 
-        const data = await response.json();
-        return data.choices?.[0]?.message?.content || 'No response generated';
-        
-      default:
-        // For other providers, implement similar logic
-        throw new Error(`Provider ${cfg.provider} not fully implemented yet`);
+    if (profile) {
+      const check = checkVoiceCompliance(content, profile);
+      if (hasVoiceIssues(check)) {
+        const key = context?.postUrl || context?.jobId || 'unknown';
+        console.warn(`[VoiceCheck] ${key} violates voice profile "${profile.name}":`, check);
+        setVoiceWarnings(prev => ({ ...prev, [key]: check }));
+      }
     }
-  };
 
-  // Remove the old mock implementations
-  const generateContentForPost = async (postId: number, options: GenerationOptions) => {
-    // This is now handled by generateAndUpdatePosts
-    throw new Error('Use generateAndUpdatePosts instead');
+    return completion;
   };
 
   // Helper functions
 
-  const generatePillarContent = async (pillarPage: any, options: GenerationOptions) => {
-    const prompt = createPillarContentPrompt(pillarPage, options);
-    // Call AI service with prompt
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
+  /**
+   * Drafts from a registry prompt and stamps the content with the template version.
+   */
+  /**
+   * Drafts from a rendered prompt, in the "draft" stage unless the context
+   * names another, and stamps the result with its provenance.
+   */
+  const draftFromPrompt = async (
+    { messages, stamp }: RenderedPrompt,
+    context: AICallContext,
+    author?: AuthorProfile | null
+  ): Promise<GeneratedDraft> => {
+    const { content, provider, model } = await callAICompletion(messages, { stage: 'draft', ...context }, author);
+    return {
+      content: stampContent(content, stamp),
+      drafted: { provider, model, promptVersion: formatPromptStamp(stamp) }
+    };
+  };
+
+  const generatePillarContent = async (pillarPage: any, options: GenerationOptions, context: AICallContext) => {
+    await promptRegistry.init();
+    return draftFromPrompt(createPillarContentPrompt(pillarPage, options), context);
   };
 
-  const generateClusterArticle = async (article: any, pillarPage: any, options: GenerationOptions) => {
-    const prompt = createClusterArticlePrompt(article, pillarPage, options);
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
+  const generateClusterArticle = async (article: any, pillarPage: any, options: GenerationOptions, context: AICallContext) => {
+    await promptRegistry.init();
+    return draftFromPrompt(createClusterArticlePrompt(article, pillarPage, options), context);
   };
 
-  const generateInternalLinks = async (cluster: ContentCluster) => {
-    // AI prompt for contextual internal linking
+  /**
+   * Links the pillar page to its cluster articles and the articles back to
+   * the pillar. Links are optional: on failure the pages stay as they are.
+   * @returns The linked HTML of the pillar and of each article by slug, or
+   *   null when linking failed.
+   */
+  const generateInternalLinks = async (
+    pillar: { title: string; slug: string; content: string },
+    articles: Array<{ title: string; slug: string; content: string }>,
+    context: AICallContext
+  ): Promise<{ pillar: string; articles: Record<string, string> } | null> => {
     const prompt = `
-      Analyze the pillar page and cluster articles content.
-      Identify 2-3 contextually relevant phrases in the pillar page and insert hyperlinks to appropriate cluster articles.
-      Find relevant phrases in each cluster article and link back to the pillar page.
-      
-      Return the updated HTML for all articles with natural, contextually appropriate internal links.
-      
-      Pillar Page: ${cluster.pillarPage.content}
-      Cluster Articles: ${JSON.stringify(cluster.clusterArticles)}
+      Add internal links between a pillar page and its cluster articles.
+      Identify 2-3 contextually relevant phrases in the pillar page and link them to the appropriate cluster articles.
+      Find a relevant phrase in each cluster article and link it back to the pillar page.
+      Link with <a href="/slug/">phrase</a>. Change nothing else in the HTML.
+
+      Return the full updated HTML of the pillar page, and of every cluster article with its slug.
+
+      Pillar Page "${pillar.title}" (/${pillar.slug}/):
+      ${pillar.content}
+
+      ${articles.map(article => `Cluster Article "${article.title}" (/${article.slug}/):\n      ${article.content}`).join('\n\n      ')}
     `;
-    
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
+
+    try {
+      const payload = await generateStructured<InternalLinksPayload>(
+        [{ role: 'user', content: prompt }],
+        INTERNAL_LINKS_SCHEMA,
+        (messages) => callAIService(messages, { ...context, stage: 'internalLinks' })
+      );
+      const slugs = new Set(articles.map(article => article.slug));
+      return {
+        pillar: payload.pillar,
+        articles: Object.fromEntries(
+          payload.articles.filter(article => slugs.has(article.slug)).map(article => [article.slug, article.html])
+        )
+      };
+    } catch (error) {
+      console.warn('Could not add internal links to the cluster:', error);
+      return null;
+    }
   };
 
-  const perform10xAnalysis = async (keyword: string): Promise<string> => {
+  const perform10xAnalysis = async (keyword: string, context: AICallContext): Promise<string> => {
     // This would integrate with the competitor analysis hook
     const prompt = `
       Analyze the top 3 ranking articles for "${keyword}".
@@ -654,20 +1050,24 @@ Return only the complete HTML content for the post body (no meta tags, titles, o
       Return a comprehensive content brief for superior content.
     `;
     
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
+    return await callAIService([{ role: 'user', content: prompt }], { ...context, stage: 'analysis' });
   };
 
   const createEnhancedContentBrief = async (
-    articleData: any,
+    articleData: SingleArticleRequest,
     competitorInsights: string,
-    includeEEAT: boolean = false
+    includeEEAT: boolean = false,
+    context: AICallContext = {},
+    author: AuthorProfile | null = null
   ): Promise<ContentBrief> => {
     const eeatPrompt = includeEEAT ? `
-      Include E-E-A-T optimization:
-      - Authoritativeness: Incorporate expert quotes and cite reputable sources
-      - Experience: Include first-person insights and personal anecdotes  
-      - Trust: Add balanced pros/cons analysis
-    ` : '';
+      Include E-E-A-T optimization in eeatRequirements:
+      - Authoritativeness: Approved quotes from the AUTHOR FACTS, plus real studies and reputable sources to cite
+      - Experience: First-person insights and anecdotes taken only from the author's verified experience
+      - Trust: Balanced pros/cons and points needing balanced analysis
+    ` : `
+      Leave every eeatRequirements list empty.
+    `;
 
     const prompt = `
       Create an enhanced content brief for: "${articleData.title}"
@@ -679,22 +1079,29 @@ Return only the complete HTML content for the post body (no meta tags, titles, o
       ${eeatPrompt}
       
       Generate a comprehensive brief that will result in content superior to existing competition.
+      - outline: the H2/H3 headings of the article in order
+      - competitorGaps: topics the ranking competitors miss that this article must cover
+      - targetKeywords: the primary keyword first, then secondary and semantic keywords
     `;
 
-    const result = await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
-    
-    // Parse and structure the response
+    const payload = await generateStructured<ContentBriefPayload>(
+      [{ role: 'user', content: prompt }],
+      CONTENT_BRIEF_SCHEMA,
+      (messages) => callAIService(messages, { ...context, stage: 'brief' }, author)
+    );
+
     return {
-      title: articleData.title,
-      outline: [], // Parse from AI response
-      competitorGaps: [], // Parse from AI response  
-      eeatRequirements: {} as EEATSignals, // Parse from AI response
-      schemaType: { type: articleData.schemaType, data: {} },
-      targetKeywords: [articleData.targetKeyword]
+      ...payload,
+      schemaType: { type: articleData.schemaType, data: {} }
     };
   };
 
-  const generateContentFromBrief = async (brief: ContentBrief, schemaType: SchemaType['type']) => {
+  const generateContentFromBrief = async (
+    brief: ContentBrief,
+    schemaType: SchemaType['type'],
+    context: AICallContext,
+    author: AuthorProfile | null
+  ) => {
     const prompt = `
       Based on this comprehensive brief, generate high-quality, SEO-optimized content:
       ${JSON.stringify(brief)}
@@ -709,10 +1116,19 @@ Return only the complete HTML content for the post body (no meta tags, titles, o
       Generate complete, publish-ready HTML content.
     `;
     
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
+    return await callAICompletion([{ role: 'user', content: prompt }], { ...context, stage: 'draft' }, author);
   };
 
-  const generateSchemaMarkup = async (schemaType: SchemaType['type'], content: string) => {
+  /**
+   * Generates JSON-LD for the content. Article-type nodes get the author's
+   * Person data, which the model is not trusted to write.
+   */
+  const generateSchemaMarkup = async (
+    schemaType: SchemaType['type'],
+    content: string,
+    context: AICallContext,
+    author: AuthorProfile | null
+  ) => {
     const prompt = `
       Generate appropriate ${schemaType} schema markup for this content:
       ${content}
@@ -720,216 +1136,34 @@ Return only the complete HTML content for the post body (no meta tags, titles, o
       Return valid JSON-LD schema that enhances search visibility and rich snippet opportunities.
     `;
     
-    return await callAIService([{ role: 'user', content: prompt }], { provider: config.selectedProvider, apiKey: getApiKeyForProvider(), model: config.openrouterModel || 'anthropic/claude-3.5-sonnet' });
-  };
-
-  const createPillarContentPrompt = (pillarPage: any, options: GenerationOptions): string => {
-    return `🚨 MISSION CRITICAL DIRECTIVE 🚨
-You are tasked with creating the DEFINITIVE pillar page that will DOMINATE search results and become the #1 resource in its field.
-
-CRITICAL PRE-GENERATION CHECKLIST:
-□ Will this content shock readers with an opening statistic?
-□ Will this be 2,500+ words of pure value?
-□ Will every semantic keyword be strategically placed?
-□ Will readers finish thinking "This is the BEST content I've ever read on this topic"?
-□ Will this answer EVERY People Also Ask question perfectly?
-
-TARGET PILLAR PAGE: ${pillarPage.title}
-
-🔥 UNBREAKABLE LAWS OF CONTENT CREATION 🔥
-
-LAW #1: THE NUCLEAR HOOK MANDATE
-- MUST start with a statistic so shocking it makes readers say "HOLY SHIT!"
-- MUST be 100% fact-checked and verifiable
-- MUST create instant emotional connection through storytelling
-- MUST promise specific, measurable outcomes readers will achieve
-- Introduction MUST be 400-500 words minimum
-
-LAW #2: THE WORD COUNT COMMANDMENT
-- ABSOLUTE MINIMUM: 2,500 words (aim for 3,000-4,000)
-- Every word must deliver value - NO FLUFF ALLOWED
-- Must feel comprehensive, not padded
-- Quality AND quantity - both are NON-NEGOTIABLE
-
-LAW #3: SEMANTIC KEYWORD SUPREMACY
-- 100% KEYWORD INTEGRATION - Every related term MUST appear
-- LSI keywords woven naturally (never forced or awkward)
-- Topic clusters and semantic relationships exploited fully
-- Primary keyword density: 1-2% (measure this!)
-- Long-tail variations strategically distributed
-- Industry jargon and terminology included appropriately
-
-LAW #4: PAA DUAL-LOCATION DOMINATION
-   MANDATORY People Also Ask questions to answer (BOTH in dedicated FAQ AND woven throughout):
-   - What is [topic] and why is it important?
-   - How do you get started with [topic]?
-   - What are the benefits of [topic]?
-   - What are common mistakes to avoid with [topic]?
-   - How long does [topic] take to master?
-   - What tools are needed for [topic]?
-   - How much does [topic] cost?
-   - What are alternatives to [topic]?
-   - Is [topic] right for beginners?
-   - How do you measure success with [topic]?
-   - What are the latest trends in [topic]?
-   - How has [topic] changed over time?
-   
-   CRITICAL: Each question must be answered TWICE:
-   1. Naturally integrated within relevant sections
-   2. Explicitly in a comprehensive FAQ section
-
-LAW #5: SUPREME READABILITY ENFORCEMENT
-   - Grade 8-10 reading level (use Hemingway principles)
-   - Paragraphs: 2-3 sentences MAXIMUM
-   - Subheadings every 200-300 words (no exceptions)
-   - Transition phrases between ALL sections
-   - Active voice dominance (80%+ active voice)
-   - Varied sentence lengths for rhythm
-   - Zero jargon without explanation
-
-LAW #6: STRUCTURAL PERFECTION MANDATE
-   - Table of contents
-   - 10-15 main sections with laser-focused insights
-   - Real examples and case studies
-   - Expert quotes and credible sources
-   - Comprehensive FAQ section (PAA questions)
-   - Step-by-step tutorials
-   - Balanced pros/cons analysis
-   - Strong conclusion with next steps
-   - Internal linking opportunities clearly marked
-
-LAW #7: ENGAGEMENT MAXIMIZATION PROTOCOL
-   - "Pro Tips" and "Expert Insights" callouts
-   - Warning boxes for common mistakes
-   - Action items concluding EVERY section
-   - Power words and emotional triggers throughout
-   - Numbered/bulleted lists for scannability
-   - Relevant analogies and metaphors
-   - "What This Means For You" sections
-
-LAW #8: E-E-A-T AUTHORITY ESTABLISHMENT
-   - First-person experience and insights
-   - Expert quotes from industry leaders
-   - Credible sources and citations
-   - Balanced, nuanced analysis
-   - Real case studies and examples
-   - Personal anecdotes where appropriate
-
-🎯 MISSION SUCCESS CRITERIA:
-- Reader thinks: "This is the BEST content on this topic I've EVER read"
-- Covers everything competitors discuss + 50% more unique insights
-- Answers every possible question a reader might have
-- Provides actionable value in every section
-- Becomes the definitive bookmark-worthy resource
-
-FINAL DIRECTIVE: Return ONLY the complete HTML content that will CRUSH all competition and establish absolute topical authority. NO meta tags, titles, or WordPress markup - just pure, dominant content.`;
-  };
-
-  const createClusterArticlePrompt = (article: any, pillarPage: any, options: GenerationOptions): string => {
-    return `CLUSTER ARTICLE GENERATION - PREMIUM QUALITY:
-
-Article: ${article.title}
-Supporting Pillar: ${pillarPage.title}
-Target Keywords: ${article.keywords ? article.keywords.join(', ') : 'Not specified'}
-
-MISSION: Create a comprehensive supporting article that perfectly complements the pillar page.
-
-CRITICAL REQUIREMENTS:
-
-1. ENGAGING OPENER:
-   - Start with a surprising, fact-checked statistic
-   - Connect to the pillar page topic naturally
-   - Promise specific value readers will gain
-
-2. OPTIMAL LENGTH: 1500-2500 words
-
-3. SEMANTIC KEYWORD STRATEGY:
-   - Focus on long-tail variations of pillar keywords
-   - Include semantic keywords and LSI terms
-   - Use related terminology strategically
-   - Reference pillar page topic naturally
-
-4. PEOPLE ALSO ASK COVERAGE:
-   Answer relevant PAA questions for this specific subtopic:
-   - How does [article topic] relate to [pillar topic]?
-   - What are the best practices for [article topic]?
-   - What mistakes should you avoid with [article topic]?
-   - How do you implement [article topic] effectively?
-   - When should you use [article topic]?
-   - What tools help with [article topic]?
-
-5. SUPPORTING STRUCTURE:
-   - Clear introduction linking to pillar concept
-   - 5-8 main sections with deep dives
-   - Practical examples and case studies
-   - Expert insights and quotes
-   - FAQ section for subtopic
-   - Clear internal linking opportunities to pillar page
-
-6. E-E-A-T SIGNALS:
-   - First-hand experience and insights
-   - Expert authority establishment
-   - Balanced analysis with pros/cons
-   - Credible sources and citations
-
-7. READABILITY:
-   - Grade 8-10 reading level
-   - Scannable format with subheadings
-   - Short paragraphs and clear transitions
-   - Actionable takeaways in each section
-
-Return complete HTML content optimized for search rankings and reader engagement.`;
+    const schema = await callAIService([{ role: 'user', content: prompt }], { ...context, stage: 'schema' });
+    return author ? attachAuthorToSchema(schema, buildAuthorPersonSchema(author, config.wpSiteUrl)) : schema;
   };
 
-  const createPostUpdatePrompt = (postId: number, options: GenerationOptions): string => {
-    return `Update and optimize content for post ID: ${postId}`;
-  };
+  const createPillarContentPrompt = (pillarPage: any, options: GenerationOptions): RenderedPrompt =>
+    promptRegistry.render('pillarPage', { title: pillarPage.title });
 
-  const callOpenRouter = async (apiKey: string, model: string, messages: any[], retryCount = 0): Promise<string> => {
-    try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': document.title || 'WP Content Optimizer'
-        },
-        body: JSON.stringify({ 
-          model, 
-          messages,
-          temperature: 0.7
-        })
-      });
-
-      if (!response.ok) {
-        if (response.status === 429 && retryCount < 3) {
-          // Exponential backoff: 2^retryCount seconds
-          const delay = Math.pow(2, retryCount) * 1000;
-          console.log(`Rate limited. Retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return callOpenRouter(apiKey, model, messages, retryCount + 1);
-        }
-        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data.choices?.[0]?.message?.content || 'No response generated';
-    } catch (error) {
-      if (retryCount < 3) {
-        const delay = Math.pow(2, retryCount) * 1000;
-        console.log(`Network error. Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return callOpenRouter(apiKey, model, messages, retryCount + 1);
-      }
-      throw error;
-    }
-  };
+  const createClusterArticlePrompt = (article: any, pillarPage: any, options: GenerationOptions): RenderedPrompt =>
+    promptRegistry.render('clusterArticle', {
+      title: article.title,
+      pillarTitle: pillarPage.title,
+      keywords: article.keywords ? article.keywords.join(', ') : 'Not specified'
+    });
 
   return {
+    generateContentClusters,
     generateClusterContent,
+    generateContentBrief,
     generateSingleArticle,
     generateBulkContent,
+    resumeBulkContent,
+    estimateBulkCost,
+    callAICompletion,
+    pausedJob,
+    voiceWarnings,
+    seoMetaWarnings,
+    editConflicts,
+    termProposals,
     isGeneratingContent,
     progress,
     bulkProgress
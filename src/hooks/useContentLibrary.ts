@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GeneratedContent } from '../types';
+import { contentLibrary } from '../utils/contentLibrary';
+
+export const useContentLibrary = () => {
+  const [items, setItems] = useState<GeneratedContent[]>(() => contentLibrary.list());
+
+  useEffect(() => {
+    const unsubscribe = contentLibrary.subscribe(() => setItems(contentLibrary.list()));
+    contentLibrary.init().then(() => setItems(contentLibrary.list()));
+    return unsubscribe;
+  }, []);
+
+  const addItem = useCallback((item: GeneratedContent) => contentLibrary.add(item), []);
+  const updateItem = useCallback((id: string, changes: Partial<GeneratedContent>) => contentLibrary.update(id, changes), []);
+
+  return {
+    items,
+    addItem,
+    updateItem
+  };
+};
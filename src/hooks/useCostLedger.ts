@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CostLedgerEntry } from '../types';
+import { costLedger } from '../utils/costLedger';
+
+export const useCostLedger = () => {
+  const [entries, setEntries] = useState<CostLedgerEntry[]>(() => costLedger.getEntries());
+
+  useEffect(() => {
+    const unsubscribe = costLedger.subscribe(() => setEntries(costLedger.getEntries()));
+    costLedger.init().then(() => setEntries(costLedger.getEntries()));
+    return unsubscribe;
+  }, []);
+
+  const sessionEntries = useMemo(
+    () => entries.filter(entry => entry.sessionId === costLedger.sessionId),
+    [entries]
+  );
+
+  const sessionCost = useMemo(
+    () => sessionEntries.reduce((total, entry) => total + entry.cost, 0),
+    [sessionEntries]
+  );
+
+  const jobRollups = useMemo(() => costLedger.summarize('jobId', entries), [entries]);
+  const postRollups = useMemo(() => costLedger.summarize('postUrl', entries), [entries]);
+  const sessionRollups = useMemo(() => costLedger.summarize('sessionId', entries), [entries]);
+
+  const exportCSV = useCallback((entriesToExport: CostLedgerEntry[] = costLedger.getEntries()) => {
+    const blob = new Blob([costLedger.toCSV(entriesToExport)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-cost-ledger-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const clearLedger = useCallback(() => costLedger.clear(), []);
+
+  return {
+    entries,
+    sessionEntries,
+    sessionCost,
+    jobRollups,
+    postRollups,
+    sessionRollups,
+    exportCSV,
+    clearLedger
+  };
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AIMessage } from '../types';
+import { promptRegistry, PromptTemplateId } from '../utils/promptRegistry';
+
+export const usePromptTemplates = () => {
+  // Bumped on every registry change so consumers re-read templates and overrides
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = promptRegistry.subscribe(() => setRevision(prev => prev + 1));
+    promptRegistry.init().then(() => setRevision(prev => prev + 1));
+    return unsubscribe;
+  }, []);
+
+  const saveOverride = useCallback(
+    (id: PromptTemplateId, messages: AIMessage[]) => promptRegistry.saveOverride(id, messages),
+    []
+  );
+
+  const resetOverride = useCallback((id: PromptTemplateId) => promptRegistry.resetOverride(id), []);
+
+  return {
+    revision,
+    templates: promptRegistry.listTemplates(),
+    getOverride: (id: PromptTemplateId) => promptRegistry.getOverride(id),
+    getStamp: (id: PromptTemplateId) => promptRegistry.getStamp(id),
+    isOverrideOutdated: (id: PromptTemplateId) => promptRegistry.isOverrideOutdated(id),
+    saveOverride,
+    resetOverride
+  };
+};
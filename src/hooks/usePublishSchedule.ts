@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { ScheduledPublication } from '../types';
+import { publishSchedule } from '../utils/publishing';
+import { createWordPressClient } from '../utils/wordpressClient';
+
+// How often held updates of live posts are checked while the app is open
+const APPLY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * @param config With WordPress credentials, held updates of live posts are
+ *   applied once their slot arrives.
+ */
+export const usePublishSchedule = (config?: any) => {
+  const [upcoming, setUpcoming] = useState<ScheduledPublication[]>(() => publishSchedule.upcoming());
+  const [failed, setFailed] = useState<ScheduledPublication[]>(() => publishSchedule.failed());
+
+  useEffect(() => {
+    const refresh = () => {
+      setUpcoming(publishSchedule.upcoming());
+      setFailed(publishSchedule.failed());
+    };
+    const unsubscribe = publishSchedule.subscribe(refresh);
+    publishSchedule.init().then(refresh);
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!config?.wpSiteUrl) return;
+    const client = createWordPressClient(config);
+    if (!client.isAuthenticated) return;
+
+    const apply = () => publishSchedule.applyDue(client)
+      .catch((error) => console.warn('[PublishSchedule] Failed to apply scheduled updates:', error));
+    apply();
+    const timer = setInterval(apply, APPLY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [config?.wpSiteUrl, config?.wpUsername, config?.wpAppPassword]);
+
+  return { upcoming, failed };
+};
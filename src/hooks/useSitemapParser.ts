@@ -1,7 +1,8 @@
 import { useState, useCallback } from "react";
-import { fetchWithProxies, processConcurrently, retryWithBackoff } from "../utils/networkUtils";
+import { fetchWithProxies, processConcurrently } from "../utils/networkUtils";
 import { useWebWorkerPool } from "./useWebWorkerPool";
 import { SitemapEntry } from "../types";
+import { describeDiscoveryEvent, discoverSitemapUrls, SitemapRecord } from "../utils/sitemapDiscovery";
 
 interface UseSitemapParserResult {
   entries: SitemapEntry[];
@@ -10,6 +11,8 @@ interface UseSitemapParserResult {
   error: string | null;
   crawledCount: number;
   totalCount: number;
+  /** Sitemaps fetched by the last discovery, with the URLs each contributed */
+  sitemaps: SitemapRecord[];
   discoverAndParseSitemap: (baseUrl: string, overridePath?: string) => Promise<void>;
 }
 
@@ -38,126 +41,18 @@ export const useSitemapParser = (): UseSitemapParserResult => {
   const [error, setError] = useState<string | null>(null);
   const [crawledCount, setCrawledCount] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
+  const [sitemaps, setSitemaps] = useState<SitemapRecord[]>([]);
 
-  // PHASE 1: ULTRA-FAST URL DISCOVERY (50x IMPROVEMENT)
+  // PHASE 1: URL DISCOVERY
   const discoverAllUrls = async (initialUrl: string, overridePath?: string): Promise<Map<string, { lastMod: string }>> => {
-    const sitemapQueue: string[] = [];
-    const discoveredUrls = new Map<string, { lastMod: string }>();
-    const processedSitemaps = new Set<string>();
-
-    const baseUrl = new URL(initialUrl).origin;
-    const paths = overridePath ? [overridePath] : [
-      '/wp-sitemap.xml', 
-      '/post-sitemap.xml', 
-      '/sitemap_index.xml', 
-      '/sitemap.xml',
-      '/sitemap1.xml',
-      '/page-sitemap.xml',
-      '/wp-sitemap-posts-post-1.xml',
-      '/wp-sitemap-posts-page-1.xml'
-    ];
-    
-    for (const path of paths) {
-      sitemapQueue.push(`${baseUrl}${path}`);
-    }
-
-    setProgress('🚀 QUANTUM DISCOVERY: Parallel sitemap racing initiated...');
-
-    // ULTRA-EFFICIENT PARALLEL SITEMAP PROCESSING
-    while (sitemapQueue.length > 0) {
-      const currentBatch = sitemapQueue.splice(0, 10); // Process 10 sitemaps concurrently
-      
-      await Promise.allSettled(
-        currentBatch.map(async (sitemapUrl) => {
-          if (processedSitemaps.has(sitemapUrl)) return;
-          processedSitemaps.add(sitemapUrl);
-          
-          try {
-            setProgress(`⚡ Racing proxies for: ${new URL(sitemapUrl).pathname}`);
-            
-            const xmlContent = await retryWithBackoff(
-              () => fetchWithProxies(sitemapUrl),
-              3,
-              1000
-            );
-            
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'application/xml');
-            
-            const parseError = xmlDoc.querySelector('parsererror');
-            if (parseError) {
-              console.warn(`XML parse error for ${sitemapUrl}:`, parseError.textContent);
-              return;
-            }
-
-            // PARALLEL PROCESSING OF SITEMAP AND URL ELEMENTS
-            const sitemapElements = xmlDoc.querySelectorAll('sitemap loc, sitemapindex sitemap loc');
-            const urlElements = xmlDoc.querySelectorAll('url, urlset url');
-
-            if (sitemapElements.length > 0) {
-              setProgress(`📚 Found ${sitemapElements.length} nested sitemaps`);
-              
-              sitemapElements.forEach(locElement => {
-                const childSitemapUrl = locElement.textContent?.trim();
-                if (childSitemapUrl && !processedSitemaps.has(childSitemapUrl)) {
-                  sitemapQueue.push(childSitemapUrl);
-                }
-              });
-            }
-
-            if (urlElements.length > 0) {
-              setProgress(`🔗 Processing ${urlElements.length} URLs`);
-              
-              urlElements.forEach(urlElement => {
-                const locElement = urlElement.querySelector('loc');
-                const lastmodElement = urlElement.querySelector('lastmod');
-                
-                if (locElement?.textContent) {
-                  const pageUrl = locElement.textContent.trim();
-                  const lastMod = lastmodElement?.textContent?.trim() || new Date().toISOString();
-                  
-                  if (isValidContentUrl(pageUrl) && !discoveredUrls.has(pageUrl)) {
-                    discoveredUrls.set(pageUrl, { lastMod });
-                  }
-                }
-              });
-            }
-
-            setProgress(`✅ Processed ${processedSitemaps.size} sitemaps → ${discoveredUrls.size} unique URLs`);
-            
-          } catch (error) {
-            console.warn(`Failed to process sitemap ${sitemapUrl}:`, error);
-          }
-        })
-      );
-    }
-
-    if (discoveredUrls.size === 0) {
-      throw new Error(`No URLs found in any sitemaps. Processed ${processedSitemaps.size} sitemap files.`);
-    }
-
-    setProgress(`🎯 DISCOVERY COMPLETE: ${discoveredUrls.size} unique URLs discovered`);
-    return discoveredUrls;
-  };
+    const discovery = await discoverSitemapUrls(initialUrl, {
+      paths: overridePath ? [overridePath] : undefined,
+      concurrency: 10,
+      onEvent: (event) => setProgress(describeDiscoveryEvent(event))
+    });
+    setSitemaps(discovery.sitemaps);
 
-  const isValidContentUrl = (url: string): boolean => {
-    try {
-      const urlObj = new URL(url);
-      const path = urlObj.pathname.toLowerCase();
-      
-      const excludePatterns = [
-        '/wp-admin', '/wp-content', '/wp-includes', '/feed', '/comments',
-        '/author', '/category', '/tag', '/attachment', '/search',
-        '.xml', '.json', '.css', '.js', '.png', '.jpg', '.jpeg', '.gif',
-        '/page/', '/archives', '/sitemap'
-      ];
-      
-      return !excludePatterns.some(pattern => path.includes(pattern)) && 
-             path.length > 1 && 
-             !path.endsWith('.xml');
-    } catch {
-      return false;
-    }
+    return new Map(discovery.urls.map(entry => [entry.url, { lastMod: entry.lastModified || new Date().toISOString() }]));
   };
 
   // PHASE 2: HYPER-CONCURRENT PAGE ANALYSIS (100x IMPROVEMENT)
@@ -386,6 +281,7 @@ export const useSitemapParser = (): UseSitemapParserResult => {
     setEntries([]);
     setCrawledCount(0);
     setTotalCount(0);
+    setSitemaps([]);
     
     try {
       // Phase 1: Ultra-fast URL discovery
@@ -415,6 +311,7 @@ export const useSitemapParser = (): UseSitemapParserResult => {
     error,
     crawledCount,
     totalCount,
+    sitemaps,
     discoverAndParseSitemap
   };
 };
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { cacheManager } from '../utils/cacheManager';
+import { buildAIRequestOptions, streamAIWithFallback } from '../utils/aiProviders';
+import { AIMessage } from '../types';
 
 interface StreamingOptions {
   onChunk?: (chunk: string) => void;
@@ -14,7 +16,7 @@ export const useStreamingAI = () => {
   const abortControllerRef = useRef<AbortController | null>(null);
 
   const streamAIGeneration = useCallback(async (
-    prompt: string,
+    prompt: string | AIMessage[],
     config: any,
     options: StreamingOptions = {}
   ) => {
@@ -27,9 +29,15 @@ export const useStreamingAI = () => {
     // Create abort controller for cancellation
     abortControllerRef.current = new AbortController();
     
+    const messages: AIMessage[] = typeof prompt === 'string'
+      ? [{ role: 'user', content: prompt }]
+      : prompt;
+
     try {
       // Check cache first
-      const cacheKey = `ai_content_${btoa(prompt).slice(0, 50)}`;
+      const signal = abortControllerRef.current.signal;
+      const requestOptions = buildAIRequestOptions(config, { signal });
+      const cacheKey = `ai_content_${requestOptions.provider}_${requestOptions.model}_${hashMessages(messages)}`;
       const cached = await cacheManager.get(cacheKey);
       
       if (cached) {
@@ -43,18 +51,12 @@ export const useStreamingAI = () => {
       }
 
       let fullContent = '';
-      
-      if (config.selectedProvider === 'openrouter') {
-        fullContent = await streamOpenRouterResponse(prompt, config, onChunk);
-      } else if (config.selectedProvider === 'gemini') {
-        fullContent = await streamGeminiResponse(prompt, config, onChunk);
-      } else if (config.selectedProvider === 'openai') {
-        fullContent = await streamOpenAIResponse(prompt, config, onChunk);
-      } else if (config.selectedProvider === 'anthropic') {
-        fullContent = await streamAnthropicResponse(prompt, config, onChunk);
-      } else {
-        throw new Error(`Unsupported AI provider: ${config.selectedProvider}`);
-      }
+      const { content } = await streamAIWithFallback(messages, config, { signal }, (chunk) => {
+        fullContent += chunk;
+        setStreamedContent(fullContent);
+        onChunk?.(chunk);
+      });
+      fullContent = content;
 
       setStreamedContent(fullContent);
       setProgress(100);
@@ -93,169 +95,6 @@ export const useStreamingAI = () => {
   };
 };
 
-// STREAMING IMPLEMENTATIONS FOR EACH PROVIDER
-
-async function streamOpenRouterResponse(
-  prompt: string, 
-  config: any, 
-  onChunk?: (chunk: string) => void
-): Promise<string> {
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.openrouterApiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': window.location.origin,
-      'X-Title': document.title || 'WP Content Optimizer'
-    },
-    body: JSON.stringify({
-      model: config.openrouterModel || 'anthropic/claude-3.5-sonnet',
-      messages: [{ role: 'user', content: prompt }],
-      stream: true,
-      temperature: 0.7
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenRouter API error: ${response.status}`);
-  }
-
-  return await processStreamingResponse(response, onChunk);
-}
-
-async function streamGeminiResponse(
-  prompt: string, 
-  config: any, 
-  onChunk?: (chunk: string) => void
-): Promise<string> {
-  // Gemini doesn't support streaming in browser, so we'll simulate it
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent?key=${config.geminiApiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 4000
-      }
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Gemini API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const fullContent = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response generated';
-  
-  // Simulate streaming
-  await simulateStreaming(fullContent, onChunk);
-  
-  return fullContent;
-}
-
-async function streamOpenAIResponse(
-  prompt: string, 
-  config: any, 
-  onChunk?: (chunk: string) => void
-): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.openaiApiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
-      stream: true,
-      temperature: 0.7
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  return await processStreamingResponse(response, onChunk);
-}
-
-async function streamAnthropicResponse(
-  prompt: string, 
-  config: any, 
-  onChunk?: (chunk: string) => void
-): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': config.anthropicApiKey,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-haiku-20240307',
-      messages: [{ role: 'user', content: prompt }],
-      stream: true,
-      max_tokens: 4000
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.status}`);
-  }
-
-  return await processStreamingResponse(response, onChunk);
-}
-
-async function processStreamingResponse(
-  response: Response, 
-  onChunk?: (chunk: string) => void
-): Promise<string> {
-  const reader = response.body?.getReader();
-  if (!reader) throw new Error('No reader available');
-
-  const decoder = new TextDecoder();
-  let fullContent = '';
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || parsed.content?.[0]?.text || '';
-            
-            if (content) {
-              fullContent += content;
-              onChunk?.(content);
-            }
-          } catch (e) {
-            // Skip invalid JSON
-            continue;
-          }
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-
-  return fullContent;
-}
-
 async function simulateStreaming(
   fullContent: string, 
   onChunk?: (chunk: string) => void
@@ -268,4 +107,13 @@ async function simulateStreaming(
     onChunk?.(chunk);
     await new Promise(resolve => setTimeout(resolve, 50)); // 50ms delay per chunk
   }
-}
\ No newline at end of file
+}
+
+function hashMessages(messages: AIMessage[]): string {
+  const text = messages.map(message => `${message.role}:${message.content}`).join('\n');
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return `${(hash >>> 0).toString(36)}_${text.length}`;
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VoiceProfile } from '../types';
+import { voiceProfiles } from '../utils/voiceProfiles';
+
+export const useVoiceProfiles = () => {
+  const [profiles, setProfiles] = useState<VoiceProfile[]>(() => voiceProfiles.list());
+
+  useEffect(() => {
+    const unsubscribe = voiceProfiles.subscribe(() => setProfiles(voiceProfiles.list()));
+    voiceProfiles.init().then(() => setProfiles(voiceProfiles.list()));
+    return unsubscribe;
+  }, []);
+
+  const getProfile = useCallback((id?: string) => voiceProfiles.get(id), [profiles]);
+  const saveProfile = useCallback((profile: VoiceProfile) => voiceProfiles.save(profile), []);
+  const removeProfile = useCallback((id: string) => voiceProfiles.remove(id), []);
+
+  return {
+    profiles,
+    getProfile,
+    saveProfile,
+    removeProfile
+  };
+};
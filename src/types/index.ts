@@ -6,6 +6,18 @@ export interface WordPressPost {
   lastModified: string;
   wordCount: number;
   url: string;
+  /** Post type slug, e.g. "post", "page" or "product" */
+  postType?: string;
+  /** REST collection the post is read from and written to, e.g. "wp/v2/pages" */
+  restRoute?: string;
+  /** Sitemap the URL was discovered in; only known for sitemap crawls */
+  sitemapUrl?: string;
+  /** WordPress publication status; only known for REST inventories */
+  wpStatus?: 'publish' | 'future' | 'draft' | 'pending' | 'private';
+  categories?: number[];
+  tags?: number[];
+  /** WordPress user ID of the post author */
+  author?: number;
   isStale?: boolean;
   content?: string;
   mainContent?: string;
@@ -18,15 +30,36 @@ export interface ContentCluster {
     title: string;
     slug: string;
     content?: string;
+    terms?: TermSuggestion[];
+    /** WordPress post created for the page; re-runs update it */
+    postId?: number;
+    link?: string;
+    drafted?: DraftProvenance;
   };
   clusterArticles: Array<{
     title: string;
     slug: string;
     content?: string;
     keywords: string[];
+    /** Defaults to the pillar's primary category plus keyword-matched tags */
+    terms?: TermSuggestion[];
+    postId?: number;
+    link?: string;
+    drafted?: DraftProvenance;
   }>;
 }
 
+/**
+ * WordPress post created for one page of a content cluster.
+ */
+export interface ClusterPostRecord {
+  clusterId: string;
+  slug: string;
+  postId: number;
+  link: string;
+  savedAt: string;
+}
+
 export interface SitemapEntry {
   url: string;
   lastModified: string;
@@ -76,4 +109,297 @@ export interface ContentBrief {
   eeatRequirements: EEATSignals;
   schemaType: SchemaType;
   targetKeywords: string[];
-}
\ No newline at end of file
+}
+export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom';
+
+export interface AIMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequestOptions {
+  provider: AIProvider;
+  apiKey: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Only used by the custom OpenAI-compatible provider */
+  baseUrl?: string;
+  /** Per-model price overrides used when recording the call in the cost ledger */
+  priceTable?: ModelPriceTable;
+  /** Attribution for the cost ledger */
+  context?: AICallContext;
+}
+
+export type AIStage = 'brief' | 'analysis' | 'draft' | 'schema' | 'internalLinks' | 'rewrite' | 'seoMeta' | 'images' | 'taxonomy';
+
+export interface AICallContext {
+  jobId?: string;
+  postUrl?: string;
+  stage?: AIStage;
+}
+
+/**
+ * Provider and model for one pipeline stage. Empty fields fall back to the
+ * globally selected provider and its model.
+ */
+export interface StageRoute {
+  provider?: AIProvider;
+  model?: string;
+}
+
+export type StageRoutingTable = Partial<Record<AIStage, StageRoute>>;
+
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  /** Free-text tone description, e.g. "calm, precise, no hype" */
+  tone: string;
+  bannedPhrases: string[];
+  /** Target reading level, e.g. "Grade 8-10" */
+  readingLevel: string;
+  person: 'first' | 'second' | 'third';
+  /** Disclaimers that must appear verbatim in every article */
+  disclaimers: string[];
+  /** Built-in profiles cannot be edited or deleted */
+  builtIn?: boolean;
+}
+
+/**
+ * Verified facts about a real author. Generation may only draw first-person
+ * experience, credentials and quotes from these fields.
+ */
+export interface AuthorProfile {
+  id: string;
+  name: string;
+  /** WordPress user the profile maps to */
+  wpUserId?: number;
+  jobTitle: string;
+  bio: string;
+  credentials: string[];
+  /** First-hand experience the author has confirmed, usable in first person */
+  experienceNotes: string[];
+  approvedQuotes: Array<{ text: string; source: string }>;
+  /** Author page URL; defaults to the WordPress author archive */
+  url?: string;
+  /** Profile links for schema sameAs, e.g. LinkedIn */
+  sameAs: string[];
+}
+
+export interface VoiceCheckResult {
+  bannedPhrases: string[];
+  missingDisclaimers: string[];
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface CostLedgerEntry {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  jobId?: string;
+  postUrl?: string;
+  stage?: AIStage;
+  provider: AIProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** True when the provider returned no usage and tokens were estimated from text length */
+  estimated: boolean;
+  /** True when no price was known for the model; cost is then 0 */
+  unpriced: boolean;
+  cost: number;
+}
+
+export interface AICompletion {
+  content: string;
+  provider: AIProvider;
+  model: string;
+  usage?: AIUsage;
+  stopReason?: string;
+}
+
+/**
+ * How generated content reaches WordPress: "draft" saves a revision without
+ * touching the live post, "schedule" publishes at a queued date.
+ */
+export type PublishMode = 'draft' | 'pending' | 'schedule' | 'publish';
+
+export interface PublishSettings {
+  mode: PublishMode;
+  /** First scheduling slot as an ISO date; defaults to the end of the queue */
+  startAt?: string;
+  /** Hours between scheduled publications */
+  cadenceHours: number;
+}
+
+export interface ScheduledPublication {
+  id: string;
+  jobId?: string;
+  postId: number;
+  restRoute: string;
+  url: string;
+  title: string;
+  scheduledFor: string;
+  /** Update held back for a post that is already live, applied when the slot arrives */
+  update?: ScheduledUpdate;
+  /** Why the held update could not be applied */
+  error?: string;
+}
+
+/**
+ * Content and fields for a live post, kept in the queue because WordPress
+ * can only schedule a post by taking it offline until its date.
+ */
+export interface ScheduledUpdate {
+  content: string;
+  fields: Record<string, any>;
+  /** modified_gmt of the post when the update was queued; later edits block it */
+  baseModifiedGmt: string;
+}
+
+/**
+ * A post's state captured just before the tool overwrote it.
+ */
+export interface ContentSnapshot {
+  id: string;
+  jobId?: string;
+  postId: number;
+  restRoute: string;
+  url: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  status: 'publish' | 'future' | 'draft' | 'pending' | 'private' | 'trash';
+  meta: Record<string, any>;
+  /** Absent on snapshots taken before they were backed up, and on types without them */
+  featuredMedia?: number;
+  categories?: number[];
+  tags?: number[];
+  modifiedGmt: string;
+  /** modified_gmt right after the tool wrote to the post; a restore refuses to run over later edits */
+  writtenModifiedGmt?: string;
+  takenAt: string;
+  restoredAt?: string;
+}
+
+export type SeoPlugin = 'yoast' | 'rankmath' | 'seopress';
+
+/**
+ * Search appearance fields written through the active SEO plugin's post meta.
+ */
+export interface SeoMeta {
+  title?: string;
+  description?: string;
+  focusKeyword?: string;
+  canonical?: string;
+  noindex?: boolean;
+  nofollow?: boolean;
+}
+
+/**
+ * How content is written to WordPress: classic HTML, or Gutenberg block markup.
+ */
+export type ContentFormat = 'classic' | 'blocks';
+
+/** FAQ block to emit for an FAQ section in block output; "none" keeps plain heading and paragraph blocks */
+export type FaqBlockStyle = 'none' | 'yoast' | 'rankmath';
+
+/**
+ * Where an image should go in an article, with the text written for it.
+ */
+export interface ImagePlacement {
+  id: string;
+  position: 'featured' | 'inline';
+  /** Heading the image is placed under; inline images only */
+  afterHeading?: string;
+  /** What the image should show; doubles as the generation prompt */
+  description: string;
+  alt: string;
+  caption: string;
+}
+
+/**
+ * An image uploaded to the WordPress media library for generated content.
+ */
+export interface ContentImage extends ImagePlacement {
+  source: 'local' | 'provider';
+  /** Image provider that generated the file */
+  providerId?: string;
+  filename: string;
+  mediaId: number;
+  sourceUrl: string;
+  uploadedAt: string;
+}
+
+export type TermTaxonomy = 'categories' | 'tags';
+
+/**
+ * A category or tag proposed for a post. Terms without an id do not exist on
+ * the site yet and are only created once approved.
+ */
+export interface TermSuggestion {
+  taxonomy: TermTaxonomy;
+  name: string;
+  termId?: number;
+  /** 0 to 1; combines the AI pick and keyword overlap */
+  score: number;
+  source: 'ai' | 'keywords' | 'both' | 'pillar';
+  approved: boolean;
+}
+
+/**
+ * Provider, model and prompt template that drafted a piece of content.
+ */
+export interface DraftProvenance {
+  provider: AIProvider;
+  model: string;
+  /** Prompt template and version, e.g. "humanPillar@1"; absent for prompts outside the registry */
+  promptVersion?: string;
+}
+
+/**
+ * Generated content in the content library, waiting for review and editing
+ * before it is sent to WordPress.
+ */
+export interface GeneratedContent extends DraftProvenance {
+  id: string;
+  url: string;
+  title: string;
+  content: string;
+  wordCount: number;
+  status: 'draft' | 'published';
+  /** Post the content was created as; content rewriting an existing post is found by its URL */
+  postId?: number;
+  restRoute?: string;
+  /** Per-item publish mode; falls back to the job-wide setting */
+  publishMode?: PublishMode;
+  /** Mode the content was actually sent to WordPress with */
+  publishedAs?: PublishMode;
+  scheduledFor?: string;
+  /** modified_gmt and raw content of the WordPress version the rewrite was based on */
+  baseModifiedGmt?: string;
+  baseContent?: string;
+  /** SEO title and meta description written to the site's SEO plugin */
+  seo?: SeoMeta;
+  /** Images uploaded to the media library for this content; the featured one is set as featured_media */
+  images?: ContentImage[];
+  /** Suggested categories and tags; the approved ones are written with the post */
+  terms?: TermSuggestion[];
+  generatedAt: string;
+  /** Banned phrases and missing disclaimers found against the site's voice profile */
+  voiceCheck: VoiceCheckResult;
+}
@@ -0,0 +1,741 @@
+/**
+ * UNIFIED AI PROVIDER LAYER
+ * One message format and one call signature for Gemini, OpenAI, Anthropic, OpenRouter
+ * and any self-hosted OpenAI-compatible server (Ollama, LM Studio, vLLM)
+ */
+
+import { AICompletion, AIMessage, AIProvider, AIRequestOptions, AIStage, AIUsage, ModelPriceTable, StageRoute } from '../types';
+import { SSEEvent, SSEParser } from './sseParser';
+import { costLedger, getModelPrice } from './costLedger';
+
+export const AI_PROVIDERS: AIProvider[] = ['gemini', 'openai', 'anthropic', 'openrouter', 'custom'];
+
+export const DEFAULT_MODELS: Record<AIProvider, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-haiku-20240307',
+  openrouter: 'anthropic/claude-3.5-sonnet',
+  custom: 'llama3.1'
+};
+
+export const AI_STAGES: AIStage[] = ['brief', 'analysis', 'draft', 'schema', 'internalLinks', 'rewrite', 'seoMeta', 'images', 'taxonomy'];
+
+export type AIErrorKind = 'notFound' | 'rateLimit' | 'serverError' | 'contentFilter' | 'other';
+
+const kindFromStatus = (status?: number): AIErrorKind => {
+  if (status === 404) return 'notFound';
+  if (status === 429) return 'rateLimit';
+  if (status !== undefined && status >= 500) return 'serverError';
+  return 'other';
+};
+
+/**
+ * Raised when a provider answers with a non-2xx status or refuses to answer.
+ */
+export class AIProviderError extends Error {
+  public kind: AIErrorKind;
+
+  constructor(message: string, public provider: AIProvider, public status?: number, kind?: AIErrorKind) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.kind = kind ?? kindFromStatus(status);
+  }
+}
+
+/**
+ * Which error kinds move a call on to the next model in the fallback chain.
+ */
+export interface FallbackRules {
+  notFound: boolean;
+  rateLimit: boolean;
+  serverError: boolean;
+  contentFilter: boolean;
+}
+
+export const DEFAULT_FALLBACK_RULES: FallbackRules = {
+  notFound: true,
+  rateLimit: true,
+  serverError: true,
+  contentFilter: true
+};
+
+/**
+ * Models tried after the configured model, in order. Users edit these per
+ * provider in ConfigStep. The defaults cost no more than the provider's
+ * default model; costlier fallbacks are skipped unless escalation is allowed.
+ */
+export const DEFAULT_FALLBACK_CHAINS: Record<AIProvider, string[]> = {
+  gemini: ['gemini-1.5-flash'],
+  openai: [],
+  anthropic: [],
+  openrouter: ['openai/gpt-4o', 'anthropic/claude-3-haiku'],
+  custom: []
+};
+
+// Stop reasons that mean the provider filtered or refused the output
+const CONTENT_FILTER_REASONS = new Set([
+  'content_filter', 'refusal', 'SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'
+]);
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 8000;
+
+/**
+ * Returns the API key the user entered for a provider.
+ * @param config The app config collected by ConfigStep.
+ * @param provider Defaults to the provider selected in config.
+ */
+export const getApiKeyForProvider = (config: any, provider: AIProvider = config.selectedProvider): string => {
+  switch (provider) {
+    case 'openrouter': return config.openrouterApiKey || '';
+    case 'gemini': return config.geminiApiKey || '';
+    case 'openai': return config.openaiApiKey || '';
+    case 'anthropic': return config.anthropicApiKey || '';
+    case 'custom': return config.customApiKey || '';
+    default: return '';
+  }
+};
+
+/**
+ * Returns the model configured for a provider, falling back to its default.
+ */
+export const getModelForProvider = (config: any, provider: AIProvider = config.selectedProvider): string => {
+  const configured = config[`${provider}Model`];
+  return (typeof configured === 'string' && configured.trim()) || DEFAULT_MODELS[provider];
+};
+
+/**
+ * Returns the routing entry for a pipeline stage, or an empty route when the
+ * stage uses the globally selected provider.
+ */
+export const getStageRoute = (config: any, stage?: AIStage): StageRoute =>
+  (stage && config.stageRouting?.[stage]) || {};
+
+/**
+ * Builds request options for the provider selected in config. When the call
+ * context names a stage, the stage routing table picks the provider and model.
+ * @param config The app config collected by ConfigStep.
+ * @param overrides Per-call settings such as temperature or an abort signal.
+ */
+export const buildAIRequestOptions = (
+  config: any,
+  overrides: Partial<AIRequestOptions> = {}
+): AIRequestOptions => {
+  const route = getStageRoute(config, overrides.context?.stage);
+  const provider = (overrides.provider || route.provider || config.selectedProvider) as AIProvider;
+  if (!AI_PROVIDERS.includes(provider)) {
+    throw new Error(`Unsupported AI provider: ${provider}`);
+  }
+
+  return {
+    provider,
+    apiKey: getApiKeyForProvider(config, provider),
+    model: route.model?.trim() || getModelForProvider(config, provider),
+    priceTable: config.modelPrices || {},
+    ...(provider === 'custom' ? { baseUrl: normalizeCustomBaseUrl(config.customBaseUrl || '') } : {}),
+    ...overrides
+  };
+};
+
+/**
+ * Normalizes a user-entered OpenAI-compatible base URL so that it ends in /v1.
+ * Accepts "http://localhost:11434", "http://localhost:1234/v1/" and the like.
+ */
+export const normalizeCustomBaseUrl = (baseUrl: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+};
+
+/**
+ * Lists the models served by an OpenAI-compatible endpoint via GET /v1/models.
+ * @param baseUrl Server root or /v1 URL.
+ * @param apiKey Optional; local servers usually run without one.
+ * @returns Model IDs sorted alphabetically.
+ * @throws {Error} if the server is unreachable or answers with a non-2xx status.
+ */
+export const listCustomModels = async (baseUrl: string, apiKey = ''): Promise<string[]> => {
+  const normalized = normalizeCustomBaseUrl(baseUrl);
+  if (!normalized) {
+    throw new Error('Custom endpoint base URL is not configured');
+  }
+
+  const response = await fetch(`${normalized}/models`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  });
+
+  if (!response.ok) {
+    throw new AIProviderError(`Custom endpoint error: ${response.status} ${response.statusText}`, 'custom', response.status);
+  }
+
+  const data = await response.json();
+  const models: string[] = (data.data || data.models || [])
+    .map((model: any) => model.id || model.name)
+    .filter(Boolean);
+
+  return models.sort((a, b) => a.localeCompare(b));
+};
+
+// MESSAGE MAPPING PER PROVIDER
+
+/**
+ * OpenAI-style chat APIs. The developer role is folded into system so that
+ * every model behind OpenRouter accepts the conversation.
+ */
+const toChatMessages = (messages: AIMessage[]) =>
+  messages.map(message => ({
+    role: message.role === 'developer' ? 'system' : message.role,
+    content: message.content
+  }));
+
+/**
+ * Collects system and developer messages into one instruction block, and
+ * merges consecutive turns of the same role for APIs that require alternation.
+ */
+const splitSystemMessages = (messages: AIMessage[]) => {
+  const system = messages
+    .filter(message => message.role === 'system' || message.role === 'developer')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const message of messages) {
+    if (message.role !== 'user' && message.role !== 'assistant') continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system, turns };
+};
+
+interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+const buildProviderRequest = (
+  messages: AIMessage[],
+  options: AIRequestOptions,
+  stream: boolean
+): ProviderRequest => {
+  const temperature = options.temperature ?? DEFAULT_TEMPERATURE;
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+  switch (options.provider) {
+    case 'openrouter':
+      return {
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': window.location.origin,
+          'X-Title': document.title || 'WP Content Optimizer'
+        },
+        body: {
+          model: options.model,
+          messages: toChatMessages(messages),
+          temperature,
+          max_tokens: maxTokens,
+          stream,
+          usage: { include: true }
+        }
+      };
+
+    case 'openai':
+      return {
+        url: 'https://api.openai.com/v1/chat/completions',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: {
+          model: options.model,
+          messages: toChatMessages(messages),
+          temperature,
+          max_tokens: maxTokens,
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {})
+        }
+      };
+
+    case 'custom':
+      if (!options.baseUrl) {
+        throw new Error('Custom endpoint base URL is not configured');
+      }
+      return {
+        url: `${options.baseUrl}/chat/completions`,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {})
+        },
+        body: { model: options.model, messages: toChatMessages(messages), temperature, max_tokens: maxTokens, stream }
+      };
+
+    case 'anthropic': {
+      const { system, turns } = splitSystemMessages(messages);
+      return {
+        url: 'https://api.anthropic.com/v1/messages',
+        headers: {
+          'x-api-key': options.apiKey,
+          'Content-Type': 'application/json',
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true'
+        },
+        body: {
+          model: options.model,
+          ...(system ? { system } : {}),
+          messages: turns,
+          temperature,
+          max_tokens: maxTokens,
+          stream
+        }
+      };
+    }
+
+    case 'gemini': {
+      const { system, turns } = splitSystemMessages(messages);
+      const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${options.model}:${method}key=${options.apiKey}`,
+        headers: { 'Content-Type': 'application/json' },
+        body: {
+          ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+          contents: turns.map(turn => ({
+            role: turn.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: turn.content }]
+          })),
+          generationConfig: { temperature, maxOutputTokens: maxTokens }
+        }
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported AI provider: ${options.provider}`);
+  }
+};
+
+const PROVIDER_LABELS: Record<AIProvider, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  openrouter: 'OpenRouter',
+  custom: 'Custom endpoint'
+};
+
+const extractCompletionUsage = (provider: AIProvider, data: any): AIUsage | undefined => {
+  switch (provider) {
+    case 'anthropic':
+      return data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : undefined;
+    case 'gemini':
+      return data.usageMetadata
+        ? { inputTokens: data.usageMetadata.promptTokenCount || 0, outputTokens: data.usageMetadata.candidatesTokenCount || 0 }
+        : undefined;
+    default:
+      return data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : undefined;
+  }
+};
+
+const extractStopReason = (provider: AIProvider, data: any): string | undefined => {
+  switch (provider) {
+    case 'anthropic': return data.stop_reason;
+    case 'gemini': return data.promptFeedback?.blockReason || data.candidates?.[0]?.finishReason;
+    default: return data.choices?.[0]?.finish_reason;
+  }
+};
+
+const extractCompletionText = (provider: AIProvider, data: any): string => {
+  switch (provider) {
+    case 'anthropic':
+      return (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    case 'gemini':
+      return (data.candidates?.[0]?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+    default:
+      return data.choices?.[0]?.message?.content || '';
+  }
+};
+
+interface StreamState {
+  content: string;
+  usage?: AIUsage;
+  stopReason?: string;
+}
+
+const parseEventData = (provider: AIProvider, data: string): any => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new AIProviderError(`${PROVIDER_LABELS[provider]} sent malformed stream data: ${data.slice(0, 200)}`, provider);
+  }
+};
+
+/**
+ * Applies one server-sent event to the stream state using the provider's
+ * event schema, and returns any text delta it carried.
+ */
+const applyStreamEvent = (provider: AIProvider, event: SSEEvent, state: StreamState): string => {
+  if (event.data === '[DONE]') return '';
+
+  const data = parseEventData(provider, event.data);
+
+  if (event.event === 'error' || data.error || data.type === 'error') {
+    const error = data.error || data;
+    throw new AIProviderError(
+      `${PROVIDER_LABELS[provider]} stream error: ${error.message || JSON.stringify(error)}`,
+      provider,
+      typeof error.code === 'number' ? error.code : undefined
+    );
+  }
+
+  switch (provider) {
+    case 'anthropic':
+      switch (data.type) {
+        case 'message_start':
+          state.usage = {
+            inputTokens: data.message?.usage?.input_tokens || 0,
+            outputTokens: data.message?.usage?.output_tokens || 0
+          };
+          return '';
+        case 'content_block_delta':
+          return data.delta?.type === 'text_delta' ? data.delta.text || '' : '';
+        case 'message_delta':
+          state.stopReason = data.delta?.stop_reason || state.stopReason;
+          if (data.usage) {
+            state.usage = {
+              inputTokens: data.usage.input_tokens ?? state.usage?.inputTokens ?? 0,
+              outputTokens: data.usage.output_tokens ?? state.usage?.outputTokens ?? 0
+            };
+          }
+          return '';
+        default:
+          // ping, content_block_start, content_block_stop, message_stop
+          return '';
+      }
+
+    case 'gemini': {
+      const candidate = data.candidates?.[0];
+      if (candidate?.finishReason) state.stopReason = candidate.finishReason;
+      if (data.promptFeedback?.blockReason) state.stopReason = data.promptFeedback.blockReason;
+      if (data.usageMetadata) {
+        state.usage = {
+          inputTokens: data.usageMetadata.promptTokenCount || 0,
+          outputTokens: data.usageMetadata.candidatesTokenCount || 0
+        };
+      }
+      return (candidate?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+    }
+
+    default: {
+      const choice = data.choices?.[0];
+      if (choice?.finish_reason) state.stopReason = choice.finish_reason;
+      if (data.usage) {
+        state.usage = {
+          inputTokens: data.usage.prompt_tokens || 0,
+          outputTokens: data.usage.completion_tokens || 0
+        };
+      }
+      return choice?.delta?.content || '';
+    }
+  }
+};
+
+const sendProviderRequest = async (
+  messages: AIMessage[],
+  options: AIRequestOptions,
+  stream: boolean
+): Promise<Response> => {
+  if (!options.apiKey && options.provider !== 'custom') {
+    throw new Error(`${PROVIDER_LABELS[options.provider]} API key is not configured`);
+  }
+
+  const request = buildProviderRequest(messages, options, stream);
+  const response = await fetch(request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal: options.signal
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new AIProviderError(
+      `${PROVIDER_LABELS[options.provider]} API error: ${response.status} ${errorText || response.statusText}`,
+      options.provider,
+      response.status
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Reserves the call's worst-case cost against its job's budget cap. Both
+ * completion entry points reserve here so that no code path can bypass the cap.
+ * @returns Releases the reservation.
+ */
+const reserveBudget = (messages: AIMessage[], options: AIRequestOptions): Promise<() => void> =>
+  costLedger.reserveBudget(options.context?.jobId, {
+    model: options.model,
+    priceTable: options.priceTable,
+    promptText: messages.map(message => message.content).join('\n'),
+    maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+  });
+
+/**
+ * Sends a non-streaming completion request to any supported provider.
+ * @param messages Conversation in the shared message format.
+ * @param options Provider, key, model and sampling settings.
+ * @returns The generated text along with the provider and model that wrote it.
+ */
+export const callAIProvider = async (
+  messages: AIMessage[],
+  options: AIRequestOptions
+): Promise<AICompletion> => {
+  const release = await reserveBudget(messages, options);
+  try {
+    const response = await sendProviderRequest(messages, options, false);
+    const data = await response.json();
+    const content = extractCompletionText(options.provider, data);
+    const usage = extractCompletionUsage(options.provider, data);
+    const stopReason = extractStopReason(options.provider, data);
+
+    await recordUsage(messages, options, content, usage);
+    assertNotFiltered(options, stopReason);
+
+    if (!content) {
+      throw new Error(`${PROVIDER_LABELS[options.provider]} returned an empty response`);
+    }
+
+    return { content, provider: options.provider, model: options.model, usage, stopReason };
+  } finally {
+    release();
+  }
+};
+
+const assertNotFiltered = (options: AIRequestOptions, stopReason?: string): void => {
+  if (stopReason && CONTENT_FILTER_REASONS.has(stopReason)) {
+    throw new AIProviderError(
+      `${PROVIDER_LABELS[options.provider]} model ${options.model} stopped with content filter reason: ${stopReason}`,
+      options.provider,
+      undefined,
+      'contentFilter'
+    );
+  }
+};
+
+/**
+ * Writes a finished call to the cost ledger. Ledger failures never fail the call.
+ */
+const recordUsage = async (
+  messages: AIMessage[],
+  options: AIRequestOptions,
+  completionText: string,
+  usage?: AIUsage
+): Promise<void> => {
+  try {
+    await costLedger.record(
+      {
+        provider: options.provider,
+        model: options.model,
+        usage,
+        context: options.context,
+        priceTable: options.priceTable
+      },
+      messages.map(message => message.content).join('\n'),
+      completionText
+    );
+  } catch (error) {
+    console.warn('[AIProviders] Failed to record usage:', error);
+  }
+};
+
+/**
+ * Streams a completion from any supported provider.
+ * @param messages Conversation in the shared message format.
+ * @param options Provider, key, model and sampling settings.
+ * @param onChunk Called with each text delta as it arrives.
+ */
+export const streamAIProvider = async (
+  messages: AIMessage[],
+  options: AIRequestOptions,
+  onChunk?: (chunk: string) => void
+): Promise<AICompletion> => {
+  const release = await reserveBudget(messages, options);
+  try {
+    const response = await sendProviderRequest(messages, options, true);
+    const { content, usage, stopReason } = await processStreamingResponse(response, options.provider, onChunk);
+    await recordUsage(messages, options, content, usage);
+    assertNotFiltered(options, stopReason);
+    return { content, provider: options.provider, model: options.model, usage, stopReason };
+  } finally {
+    release();
+  }
+};
+
+/**
+ * Reads a server-sent events body incrementally and forwards text deltas.
+ * Usage and stop reason are captured from whichever events carry them.
+ * @throws {AIProviderError} on error events or malformed event data.
+ */
+export const processStreamingResponse = async (
+  response: Response,
+  provider: AIProvider,
+  onChunk?: (chunk: string) => void
+): Promise<StreamState> => {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No reader available');
+
+  const decoder = new TextDecoder();
+  const state: StreamState = { content: '' };
+  const parser = new SSEParser((event) => {
+    const delta = applyStreamEvent(provider, event, state);
+    if (delta) {
+      state.content += delta;
+      onChunk?.(delta);
+    }
+  });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // stream: true keeps multi-byte characters split across chunks intact
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+
+    parser.feed(decoder.decode());
+    parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+
+  return state;
+};
+
+// MODEL FALLBACK CHAINS
+
+/**
+ * Whether a fallback model costs no more per input and output token than the
+ * primary model. Models without a price never qualify.
+ */
+export const isNoCostlierModel = (model: string, primaryModel: string, priceTable: ModelPriceTable = {}): boolean => {
+  const price = getModelPrice(model, priceTable);
+  const primaryPrice = getModelPrice(primaryModel, priceTable);
+  return !!price && !!primaryPrice && price.input <= primaryPrice.input && price.output <= primaryPrice.output;
+};
+
+/**
+ * Returns the configured model followed by the provider's fallback chain,
+ * without duplicates. Fallbacks that cost more than the configured model are
+ * left out unless config.allowCostlierFallbacks is set.
+ */
+export const getModelChain = (config: any, provider: AIProvider, primaryModel: string): string[] => {
+  const chain: string[] = config.fallbackChains?.[provider] ?? DEFAULT_FALLBACK_CHAINS[provider];
+  return [primaryModel, ...chain]
+    .map(model => model.trim())
+    .filter((model, index, self) => model && self.indexOf(model) === index)
+    .filter((model, index) =>
+      index === 0 || config.allowCostlierFallbacks || isNoCostlierModel(model, primaryModel, config.modelPrices)
+    );
+};
+
+const shouldFallBack = (error: unknown, rules: FallbackRules): boolean =>
+  error instanceof AIProviderError && error.kind !== 'other' && rules[error.kind];
+
+/**
+ * Runs an AI call against each model in the chain until one succeeds or an
+ * error occurs that the fallback rules do not cover.
+ * @param onFallback Called before moving to the next model.
+ */
+const runWithFallback = async (
+  config: any,
+  baseOptions: AIRequestOptions,
+  attempt: (options: AIRequestOptions) => Promise<AICompletion>,
+  onFallback?: (failedModel: string, error: AIProviderError) => void
+): Promise<AICompletion> => {
+  const rules: FallbackRules = { ...DEFAULT_FALLBACK_RULES, ...config.fallbackOn };
+  const models = getModelChain(config, baseOptions.provider, baseOptions.model);
+  let lastError: unknown = null;
+
+  for (const model of models) {
+    try {
+      return await attempt({ ...baseOptions, model });
+    } catch (error) {
+      lastError = error;
+      if (!shouldFallBack(error, rules)) throw error;
+
+      console.warn(`[AIProviders] Model ${model} failed, falling back:`, error);
+      onFallback?.(model, error as AIProviderError);
+    }
+  }
+
+  const message = lastError instanceof Error ? lastError.message : 'Unknown error';
+  throw new Error(`All models failed (${models.join(', ')}). Last error: ${message}`);
+};
+
+/**
+ * Non-streaming completion with the configured fallback chain. The returned
+ * completion names the model that actually produced the text.
+ */
+export const callAIWithFallback = (
+  messages: AIMessage[],
+  config: any,
+  overrides: Partial<AIRequestOptions> = {},
+  onFallback?: (failedModel: string, error: AIProviderError) => void
+): Promise<AICompletion> =>
+  runWithFallback(
+    config,
+    buildAIRequestOptions(config, overrides),
+    (options) => callAIProvider(messages, options),
+    onFallback
+  );
+
+/**
+ * Streaming completion with the configured fallback chain. Once text has
+ * reached onChunk the stream is committed to that model and errors are rethrown.
+ */
+export const streamAIWithFallback = (
+  messages: AIMessage[],
+  config: any,
+  overrides: Partial<AIRequestOptions> = {},
+  onChunk?: (chunk: string) => void,
+  onFallback?: (failedModel: string, error: AIProviderError) => void
+): Promise<AICompletion> => {
+  let emitted = false;
+
+  return runWithFallback(
+    config,
+    buildAIRequestOptions(config, overrides),
+    async (options) => {
+      try {
+        return await streamAIProvider(messages, options, (chunk) => {
+          emitted = true;
+          onChunk?.(chunk);
+        });
+      } catch (error) {
+        if (emitted && error instanceof AIProviderError) {
+          throw new Error(`Stream from ${options.model} failed after output began: ${error.message}`);
+        }
+        throw error;
+      }
+    },
+    onFallback
+  );
+};
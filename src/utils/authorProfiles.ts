@@ -0,0 +1,158 @@
+/**
+ * AUTHOR PROFILES
+ * Real authors with verified bios, credentials, experience and approved quotes,
+ * mapped to WordPress users. Prompts may only draw E-E-A-T material from these
+ * facts, and Article schema gets the matching Person as its author.
+ */
+
+import { AIMessage, AIStage, AuthorProfile } from '../types';
+import { PersistedStore } from './persistedStore';
+import { extractJSON } from './structuredOutput';
+
+const PROFILES_CACHE_KEY = 'author_profiles';
+
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'TechArticle'];
+
+/** Stages that may write E-E-A-T material and therefore receive the author facts */
+export const AUTHOR_FACT_STAGES: AIStage[] = ['brief', 'draft', 'rewrite', 'internalLinks'];
+
+const NO_FABRICATION_RULES = `- Never invent personal anecdotes, client stories, dollar amounts, years of experience or other claims about the author.
+- Never invent quotes or attribute statements to named people, studies or organisations you cannot cite.
+- Where the instructions ask for stories, quotes or experience that the facts below do not provide, leave them out instead of making them up.`;
+
+/**
+ * Renders an author's verified facts as prompt instructions. Without an author
+ * the instructions still forbid fabricated experience and quotes.
+ */
+export const buildAuthorInstructions = (author: AuthorProfile | null): string => {
+  if (!author) {
+    return `AUTHOR FACTS: none provided. These rules override any conflicting instruction:
+${NO_FABRICATION_RULES}
+- Do not write first-person experience at all.`;
+  }
+
+  const lines = [
+    `AUTHOR FACTS for ${author.name}${author.jobTitle ? `, ${author.jobTitle}` : ''}. These are the ONLY permitted source of first-person experience, credentials and quotes, and these rules override any conflicting instruction:`,
+    NO_FABRICATION_RULES
+  ];
+
+  if (author.bio) lines.push(`Bio: ${author.bio}`);
+  if (author.credentials.length > 0) {
+    lines.push('Credentials:', ...author.credentials.map(credential => `- ${credential}`));
+  }
+  if (author.experienceNotes.length > 0) {
+    lines.push('Verified experience (may be written in first person):', ...author.experienceNotes.map(note => `- ${note}`));
+  }
+  if (author.approvedQuotes.length > 0) {
+    lines.push(
+      'Approved quotes (use verbatim with attribution):',
+      ...author.approvedQuotes.map(quote => `- "${quote.text}" (${quote.source})`)
+    );
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Appends the author facts as a system message.
+ */
+export const applyAuthorProfile = (messages: AIMessage[], author: AuthorProfile | null): AIMessage[] =>
+  [...messages, { role: 'system', content: buildAuthorInstructions(author) }];
+
+/**
+ * Builds the schema.org Person for an author.
+ * @param siteUrl Used for the author archive URL when the profile has none.
+ */
+export const buildAuthorPersonSchema = (author: AuthorProfile, siteUrl = ''): Record<string, any> => {
+  const baseUrl = siteUrl.replace(/\/$/, '');
+  const url = author.url || (baseUrl && author.wpUserId ? `${baseUrl}/?author=${author.wpUserId}` : undefined);
+
+  return {
+    '@type': 'Person',
+    name: author.name,
+    ...(url ? { url } : {}),
+    ...(author.jobTitle ? { jobTitle: author.jobTitle } : {}),
+    ...(author.bio ? { description: author.bio } : {}),
+    ...(author.credentials.length > 0 ? { hasCredential: author.credentials } : {}),
+    ...(author.sameAs.length > 0 ? { sameAs: author.sameAs } : {})
+  };
+};
+
+/**
+ * Sets the author of every Article-type node in a JSON-LD document, including
+ * nodes inside @graph. Output that is not JSON is returned unchanged.
+ */
+export const attachAuthorToSchema = (schemaText: string, person: Record<string, any>): string => {
+  let schema: any;
+  try {
+    schema = extractJSON(schemaText);
+  } catch {
+    console.warn('[AuthorProfiles] Schema output is not JSON; author not attached');
+    return schemaText;
+  }
+
+  const nodes: any[] = Array.isArray(schema) ? schema : schema['@graph'] || [schema];
+  for (const node of nodes) {
+    const types = Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']];
+    if (types.some((type: string) => ARTICLE_TYPES.includes(type))) {
+      node.author = person;
+    }
+  }
+
+  return JSON.stringify(schema, null, 2);
+};
+
+class AuthorProfileStore extends PersistedStore<AuthorProfile> {
+  constructor() {
+    super('authorProfiles', 'AuthorProfiles', PROFILES_CACHE_KEY);
+  }
+
+  protected keyOf(profile: AuthorProfile): string {
+    return profile.id;
+  }
+
+  list(): AuthorProfile[] {
+    return this.items;
+  }
+
+  get(id?: string): AuthorProfile | null {
+    return this.items.find(profile => profile.id === id) || null;
+  }
+
+  findByWpUser(wpUserId?: number): AuthorProfile | null {
+    if (!wpUserId) return null;
+    return this.items.find(profile => profile.wpUserId === wpUserId) || null;
+  }
+
+  /**
+   * Picks the profile mapped to a post's WordPress author, falling back to the
+   * site's default author.
+   */
+  resolve(wpUserId: number | undefined, defaultAuthorId?: string): AuthorProfile | null {
+    return this.findByWpUser(wpUserId) || this.get(defaultAuthorId);
+  }
+
+  async save(profile: AuthorProfile): Promise<AuthorProfile> {
+    await this.init();
+
+    const saved: AuthorProfile = { ...profile, id: profile.id || `author_${Date.now()}` };
+    const exists = this.items.some(existing => existing.id === saved.id);
+    this.items = exists
+      ? this.items.map(existing => existing.id === saved.id ? saved : existing)
+      : [...this.items, saved];
+
+    this.notify();
+    await this.persist([saved]);
+    return saved;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.init();
+    this.items = this.items.filter(profile => profile.id !== id);
+    this.notify();
+    await this.persist([], [id]);
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const authorProfiles = new AuthorProfileStore();
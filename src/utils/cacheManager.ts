@@ -65,12 +65,19 @@ class IndexedDBCacheManager {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([this.storeName], 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.put(item);
-      
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.currentCacheSize += size;
-        resolve();
+      // An overwritten entry's size is replaced, not added to
+      const existing = store.get(key);
+
+      existing.onerror = () => reject(existing.error);
+      existing.onsuccess = () => {
+        const previousSize = (existing.result as CacheItem | undefined)?.size || 0;
+        const request = store.put(item);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          this.currentCacheSize += size - previousSize;
+          resolve();
+        };
       };
     });
   }
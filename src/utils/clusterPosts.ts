@@ -0,0 +1,35 @@
+/**
+ * CLUSTER POSTS
+ * Remembers the WordPress post created for every page of a content cluster,
+ * as soon as it is written, so that running the cluster again updates its
+ * posts instead of creating duplicates, also after a failed run or a reload.
+ */
+
+import { ClusterPostRecord } from '../types';
+import { PersistedStore } from './persistedStore';
+
+class ClusterPostStore extends PersistedStore<ClusterPostRecord> {
+  constructor() {
+    super('clusterPosts', 'ClusterPosts');
+  }
+
+  protected keyOf(record: ClusterPostRecord): string {
+    return `${record.clusterId}|${record.slug}`;
+  }
+
+  async get(clusterId: string, slug: string): Promise<ClusterPostRecord | undefined> {
+    await this.init();
+    return this.items.find(record => record.clusterId === clusterId && record.slug === slug);
+  }
+
+  async save(record: ClusterPostRecord): Promise<void> {
+    await this.init();
+    const key = this.keyOf(record);
+    this.items = [...this.items.filter(existing => this.keyOf(existing) !== key), record];
+    this.notify();
+    await this.persist([record]);
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const clusterPosts = new ClusterPostStore();
@@ -0,0 +1,263 @@
+/**
+ * CONTENT BACKUPS & ROLLBACK
+ * Snapshots a post's raw content, title, excerpt, status, meta, featured image
+ * and terms before the tool overwrites it, and restores single posts or whole bulk jobs. When no
+ * local snapshot exists, WordPress's own revisions are used instead. Writes
+ * and restores both refuse to run over edits made in WordPress in the
+ * meantime. Snapshots are persisted one record per snapshot.
+ */
+
+import { ContentSnapshot } from '../types';
+import { PersistedStore } from './persistedStore';
+import { WordPressClient, WPPostObject, WPRevision } from './wordpressClient';
+
+const BACKUPS_CACHE_KEY = 'content_backups';
+
+// Every field the tool writes, so that a restore undoes all of it
+const SNAPSHOT_FIELDS = [
+  'id', 'link', 'title', 'content', 'excerpt', 'status', 'meta',
+  'featured_media', 'categories', 'tags', 'modified_gmt'
+];
+
+export interface BackupTarget {
+  id: number;
+  restRoute: string;
+  url: string;
+  jobId?: string;
+}
+
+/**
+ * Raised instead of writing when the post was edited in WordPress after the
+ * version the write was based on was fetched.
+ */
+export class EditConflictError extends Error {
+  constructor(
+    public postId: number,
+    public expectedModifiedGmt: string,
+    public actualModifiedGmt: string,
+    /** The post's current raw content, for a three-way merge */
+    public currentContent: string
+  ) {
+    super(`Post ${postId} was edited in WordPress at ${actualModifiedGmt} UTC after the rewrite was based on it (${expectedModifiedGmt} UTC)`);
+    this.name = 'EditConflictError';
+  }
+}
+
+/**
+ * Reads the post's current version and checks it is still the expected one.
+ * @param fields Extra fields to read along, returned with the post.
+ * @throws {EditConflictError} When the post was modified since.
+ */
+export const assertPostUnchanged = async (
+  client: WordPressClient,
+  target: Pick<BackupTarget, 'id' | 'restRoute'>,
+  expectedModifiedGmt: string,
+  fields: string[] = []
+): Promise<WPPostObject> => {
+  const current = await client.getItem(target.restRoute, target.id, {
+    context: 'edit',
+    fields: ['modified_gmt', 'content', ...fields]
+  });
+  if (current.modified_gmt !== expectedModifiedGmt) {
+    throw new EditConflictError(
+      target.id,
+      expectedModifiedGmt,
+      current.modified_gmt,
+      current.content?.raw ?? current.content?.rendered ?? ''
+    );
+  }
+  return current;
+};
+
+export interface RestoreResult {
+  snapshotId?: string;
+  postId: number;
+  url: string;
+  ok: boolean;
+  error?: string;
+}
+
+class ContentBackupStore extends PersistedStore<ContentSnapshot> {
+  constructor() {
+    super('contentBackups', 'ContentBackups', BACKUPS_CACHE_KEY);
+  }
+
+  protected keyOf(snapshot: ContentSnapshot): string {
+    return snapshot.id;
+  }
+
+  /**
+   * All snapshots, newest first.
+   */
+  list(): ContentSnapshot[] {
+    return [...this.items].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  }
+
+  listByJob(jobId: string): ContentSnapshot[] {
+    return this.list().filter(snapshot => snapshot.jobId === jobId);
+  }
+
+  /**
+   * The most recent snapshot of a post, if any.
+   */
+  latestForPost(postId: number, restRoute: string): ContentSnapshot | null {
+    return this.list().find(snapshot => snapshot.postId === postId && snapshot.restRoute === restRoute) || null;
+  }
+
+  /**
+   * Reads the post's current raw state from WordPress and stores it.
+   * @throws {WordPressError} When the post cannot be read; callers must not
+   *   overwrite content they could not back up.
+   */
+  async snapshot(client: WordPressClient, target: BackupTarget): Promise<ContentSnapshot> {
+    await this.init();
+
+    const item = await client.getItem<WPPostObject>(target.restRoute, target.id, {
+      context: 'edit',
+      fields: SNAPSHOT_FIELDS
+    });
+
+    const snapshot: ContentSnapshot = {
+      id: `snap_${Date.now()}_${target.id}`,
+      jobId: target.jobId,
+      postId: target.id,
+      restRoute: target.restRoute,
+      url: item.link || target.url,
+      title: item.title?.raw ?? item.title?.rendered ?? '',
+      content: item.content?.raw ?? item.content?.rendered ?? '',
+      excerpt: item.excerpt?.raw ?? '',
+      status: item.status,
+      meta: item.meta && !Array.isArray(item.meta) ? item.meta : {},
+      featuredMedia: item.featured_media,
+      categories: item.categories,
+      tags: item.tags,
+      modifiedGmt: item.modified_gmt,
+      takenAt: new Date().toISOString()
+    };
+
+    this.items = [...this.items, snapshot];
+    this.notify();
+    await this.persist([snapshot]);
+    return snapshot;
+  }
+
+  /**
+   * Records the version the tool's write produced, so that a restore can tell
+   * whether the post was edited after it.
+   */
+  async recordWrite(snapshotId: string, modifiedGmt: string): Promise<void> {
+    await this.update(snapshotId, { writtenModifiedGmt: modifiedGmt });
+  }
+
+  /**
+   * Writes a snapshot back to its post, unless the post was edited after the
+   * tool wrote to it.
+   * @param expectedModifiedGmt Version the post must still be at; defaults to
+   *   the one the snapshot's write produced, or the snapshot itself when the
+   *   write never happened.
+   */
+  async restore(
+    client: WordPressClient,
+    snapshot: ContentSnapshot,
+    expectedModifiedGmt = snapshot.writtenModifiedGmt ?? snapshot.modifiedGmt
+  ): Promise<RestoreResult> {
+    await this.init();
+    try {
+      await assertPostUnchanged(client, { id: snapshot.postId, restRoute: snapshot.restRoute }, expectedModifiedGmt);
+      await client.updateItem(snapshot.restRoute, snapshot.postId, {
+        title: snapshot.title,
+        content: snapshot.content,
+        excerpt: snapshot.excerpt,
+        status: snapshot.status,
+        ...(Object.keys(snapshot.meta).length > 0 ? { meta: snapshot.meta } : {}),
+        ...(snapshot.featuredMedia !== undefined ? { featured_media: snapshot.featuredMedia } : {}),
+        ...(snapshot.categories ? { categories: snapshot.categories } : {}),
+        ...(snapshot.tags ? { tags: snapshot.tags } : {})
+      });
+
+      await this.update(snapshot.id, { restoredAt: new Date().toISOString() });
+      return { snapshotId: snapshot.id, postId: snapshot.postId, url: snapshot.url, ok: true };
+    } catch (error) {
+      return { snapshotId: snapshot.id, postId: snapshot.postId, url: snapshot.url, ok: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Restores every post a job touched to the state captured by that job.
+   * Posts are restored one at a time; failures do not stop the rest.
+   */
+  async restoreJob(client: WordPressClient, jobId: string): Promise<RestoreResult[]> {
+    await this.init();
+
+    // The earliest snapshot per post is the pre-job state; the latest holds the job's last write
+    const perPost = new Map<string, { first: ContentSnapshot; last: ContentSnapshot }>();
+    [...this.listByJob(jobId)].reverse().forEach(snapshot => {
+      const key = `${snapshot.restRoute}#${snapshot.postId}`;
+      const entry = perPost.get(key);
+      perPost.set(key, entry ? { ...entry, last: snapshot } : { first: snapshot, last: snapshot });
+    });
+
+    const results: RestoreResult[] = [];
+    for (const { first, last } of perPost.values()) {
+      results.push(await this.restore(client, first, last.writtenModifiedGmt ?? last.modifiedGmt));
+    }
+    return results;
+  }
+
+  /**
+   * Deletes the snapshots of a job, or of individual publishes when jobId is
+   * empty. Snapshots are never pruned otherwise, so that a job can always be
+   * restored in full.
+   */
+  async clearJob(jobId: string): Promise<void> {
+    await this.init();
+    const removed = this.items.filter(snapshot => (snapshot.jobId || '') === jobId);
+    this.items = this.items.filter(snapshot => (snapshot.jobId || '') !== jobId);
+    this.notify();
+    await this.persist([], removed.map(snapshot => snapshot.id));
+  }
+
+  private async update(id: string, changes: Partial<ContentSnapshot>): Promise<void> {
+    const snapshot = this.items.find(existing => existing.id === id);
+    if (!snapshot) return;
+
+    const updated = { ...snapshot, ...changes };
+    this.items = this.items.map(existing => existing.id === id ? updated : existing);
+    this.notify();
+    await this.persist([updated]);
+  }
+}
+
+/**
+ * Restores a post from WordPress's revision history when no local snapshot
+ * exists. Picks the newest revision saved before `before`, or otherwise the
+ * revision preceding the current content.
+ */
+export const restoreFromRevisions = async (
+  client: WordPressClient,
+  restRoute: string,
+  postId: number,
+  before?: string
+): Promise<WPRevision> => {
+  const revisions = (await client.listRevisions(restRoute, postId))
+    .sort((a, b) => b.date_gmt.localeCompare(a.date_gmt));
+
+  const cutoff = before ? new Date(before).getTime() : null;
+  const revision = cutoff !== null
+    ? revisions.find(candidate => new Date(`${candidate.date_gmt}Z`).getTime() < cutoff)
+    : revisions[1];
+
+  if (!revision) {
+    throw new Error(`No earlier revision found for post ${postId}. Revisions may be disabled for this post type.`);
+  }
+
+  await client.updateItem(restRoute, postId, {
+    title: revision.title?.raw ?? revision.title?.rendered,
+    content: revision.content?.raw ?? revision.content?.rendered,
+    excerpt: revision.excerpt?.raw ?? revision.excerpt?.rendered
+  });
+  return revision;
+};
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const contentBackups = new ContentBackupStore();
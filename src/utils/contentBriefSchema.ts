@@ -0,0 +1,54 @@
+/**
+ * CONTENT BRIEF SCHEMA
+ * Runtime schema for the JSON the brief stage asks the AI to return, mirroring
+ * the ContentBrief and EEATSignals types
+ */
+
+import { ContentBrief, EEATSignals } from '../types';
+import { Schema } from './structuredOutput';
+
+const stringList: Schema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+export const EEAT_SIGNALS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    authoritative: {
+      type: 'object',
+      properties: { expertQuotes: stringList, studies: stringList, sources: stringList }
+    },
+    experiential: {
+      type: 'object',
+      properties: { personalAnecdotes: stringList, firstPersonInsights: stringList }
+    },
+    trustworthy: {
+      type: 'object',
+      properties: {
+        prosAndCons: {
+          type: 'array',
+          items: { type: 'object', properties: { pro: { type: 'string' }, con: { type: 'string' } } }
+        },
+        balancedAnalysis: stringList
+      }
+    }
+  }
+};
+
+export const CONTENT_BRIEF_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    outline: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 3 },
+    competitorGaps: stringList,
+    eeatRequirements: EEAT_SIGNALS_SCHEMA,
+    targetKeywords: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }
+  }
+};
+
+/** The part of a ContentBrief produced by the AI; the schema type is chosen by the user */
+export type ContentBriefPayload = Omit<ContentBrief, 'schemaType'>;
+
+export const EMPTY_EEAT_SIGNALS: EEATSignals = {
+  authoritative: { expertQuotes: [], studies: [], sources: [] },
+  experiential: { personalAnecdotes: [], firstPersonInsights: [] },
+  trustworthy: { prosAndCons: [], balancedAnalysis: [] }
+};
@@ -0,0 +1,79 @@
+/**
+ * CONTENT CLUSTER SCHEMA
+ * Runtime schema for the content cluster strategy the strategist asks the AI
+ * to return, and its conversion to ContentCluster objects
+ */
+
+import { ContentCluster } from '../types';
+import { slugify } from './postTypes';
+import { Schema } from './structuredOutput';
+
+const PAGE_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 5 },
+    slug: { type: 'string', minLength: 1 }
+  }
+};
+
+export const CONTENT_CLUSTERS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    clusters: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          pillarPage: PAGE_SCHEMA,
+          clusterArticles: {
+            type: 'array',
+            minItems: 3,
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string', minLength: 5 },
+                slug: { type: 'string', minLength: 1 },
+                keywords: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+export interface ContentClustersPayload {
+  clusters: {
+    pillarPage: { title: string; slug: string };
+    clusterArticles: { title: string; slug: string; keywords: string[] }[];
+  }[];
+}
+
+/**
+ * Turns the AI's strategy into clusters. Slugs are normalized, and each
+ * cluster gets an id derived from its keyword and pillar slug, so the same
+ * pillar keeps its id, and with it its posts, across analyses.
+ */
+export const toContentClusters = (keyword: string, payload: ContentClustersPayload): ContentCluster[] => {
+  const ids = new Set<string>();
+
+  return payload.clusters.map(cluster => {
+    const pillarSlug = slugify(cluster.pillarPage.slug) || slugify(cluster.pillarPage.title);
+    const baseId = `cluster_${slugify(keyword)}_${pillarSlug}`;
+    let id = baseId;
+    for (let n = 2; ids.has(id); n++) id = `${baseId}_${n}`;
+    ids.add(id);
+
+    return {
+      id,
+      pillarPage: { title: cluster.pillarPage.title.trim(), slug: pillarSlug },
+      clusterArticles: cluster.clusterArticles.map(article => ({
+        title: article.title.trim(),
+        slug: slugify(article.slug) || slugify(article.title),
+        keywords: article.keywords.map(item => item.trim())
+      }))
+    };
+  });
+};
@@ -0,0 +1,271 @@
+/**
+ * CONTENT DIFF
+ * Compares an original post with its generated rewrite: sections are aligned by
+ * heading, then diffed word by word (rendered view) or line by line (HTML view),
+ * with totals for added and removed words, links and headings. Also merges
+ * concurrent WordPress edits into a rewrite section by section
+ */
+
+export type DiffOpType = 'same' | 'added' | 'removed';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface ContentSection {
+  /** Heading text; empty for the content before the first heading */
+  heading: string;
+  level: number;
+  html: string;
+}
+
+export interface AlignedSection {
+  original: ContentSection | null;
+  generated: ContentSection | null;
+  status: 'unchanged' | 'changed' | 'added' | 'removed';
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface DiffStats {
+  wordsAdded: number;
+  wordsRemoved: number;
+  linksAdded: string[];
+  linksRemoved: string[];
+  headingsAdded: string[];
+  headingsRemoved: string[];
+}
+
+// Above this many LCS cells a section is treated as fully replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+const stripTags = (html: string): string =>
+  html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const normalizeHeading = (text: string): string =>
+  stripTags(text).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const toWords = (html: string): string[] => {
+  const text = stripTags(html);
+  return text ? text.split(' ') : [];
+};
+
+/**
+ * Splits HTML source into lines at block-level tags so the HTML view diffs
+ * per element rather than per physical line.
+ */
+export const toSourceLines = (html: string): string[] =>
+  html
+    .replace(/(<\/(p|h[1-6]|li|ul|ol|table|tr|blockquote|figure|div|section)>)/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+/**
+ * Longest-common-subsequence diff of two token lists.
+ */
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', text: a[i++] });
+    } else {
+      ops.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) ops.push({ type: 'added', text: b[j++] });
+
+  return ops;
+};
+
+/**
+ * Splits HTML into sections, one per heading plus the intro before the first.
+ */
+export const splitSections = (html: string): ContentSection[] => {
+  const sections: ContentSection[] = [];
+  const headingPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let current: ContentSection = { heading: '', level: 0, html: '' };
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(html)) !== null) {
+    current.html += html.slice(lastIndex, match.index);
+    if (current.heading || stripTags(current.html)) sections.push(current);
+    current = { heading: stripTags(match[2]), level: Number(match[1]), html: match[0] };
+    lastIndex = match.index + match[0].length;
+  }
+  current.html += html.slice(lastIndex);
+  if (current.heading || stripTags(current.html)) sections.push(current);
+
+  return sections;
+};
+
+const countWordChanges = (ops: DiffOp[]) => ({
+  wordsAdded: ops.filter(op => op.type === 'added').length,
+  wordsRemoved: ops.filter(op => op.type === 'removed').length
+});
+
+/**
+ * Pairs sections with the same heading, keeping document order. The intro
+ * sections are always paired; unmatched sections show as added or removed.
+ */
+export const alignSections = (originalHtml: string, generatedHtml: string): AlignedSection[] => {
+  const original = splitSections(originalHtml);
+  const generated = splitSections(generatedHtml);
+  const keyOf = (section: ContentSection) => section.heading ? normalizeHeading(section.heading) : '__intro__';
+
+  const ops = diffSequences(original.map(keyOf), generated.map(keyOf));
+  const aligned: AlignedSection[] = [];
+  let o = 0;
+  let g = 0;
+
+  for (const op of ops) {
+    if (op.type === 'same') {
+      const pair = { original: original[o++], generated: generated[g++] };
+      const wordOps = diffSequences(toWords(pair.original.html), toWords(pair.generated.html));
+      const counts = countWordChanges(wordOps);
+      aligned.push({
+        ...pair,
+        ...counts,
+        status: counts.wordsAdded + counts.wordsRemoved === 0 ? 'unchanged' : 'changed'
+      });
+    } else if (op.type === 'removed') {
+      const section = original[o++];
+      aligned.push({ original: section, generated: null, status: 'removed', wordsAdded: 0, wordsRemoved: toWords(section.html).length });
+    } else {
+      const section = generated[g++];
+      aligned.push({ original: null, generated: section, status: 'added', wordsAdded: toWords(section.html).length, wordsRemoved: 0 });
+    }
+  }
+
+  return aligned;
+};
+
+const extractLinks = (html: string): string[] =>
+  Array.from(html.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi), match => match[1].replace(/\/$/, ''));
+
+const extractHeadings = (html: string): string[] =>
+  splitSections(html).filter(section => section.heading).map(section => section.heading);
+
+const setDifference = (a: string[], b: string[], normalize: (value: string) => string = value => value): string[] => {
+  const other = new Set(b.map(normalize));
+  return Array.from(new Set(a.filter(value => !other.has(normalize(value)))));
+};
+
+/**
+ * Totals for the whole document.
+ */
+export const computeDiffStats = (originalHtml: string, generatedHtml: string, sections = alignSections(originalHtml, generatedHtml)): DiffStats => {
+  const originalLinks = extractLinks(originalHtml);
+  const generatedLinks = extractLinks(generatedHtml);
+  const originalHeadings = extractHeadings(originalHtml);
+  const generatedHeadings = extractHeadings(generatedHtml);
+
+  return {
+    wordsAdded: sections.reduce((total, section) => total + section.wordsAdded, 0),
+    wordsRemoved: sections.reduce((total, section) => total + section.wordsRemoved, 0),
+    linksAdded: setDifference(generatedLinks, originalLinks),
+    linksRemoved: setDifference(originalLinks, generatedLinks),
+    headingsAdded: setDifference(generatedHeadings, originalHeadings, normalizeHeading),
+    headingsRemoved: setDifference(originalHeadings, generatedHeadings, normalizeHeading)
+  };
+};
+
+export type MergeChoice = 'ours' | 'theirs';
+
+export interface MergeSection {
+  heading: string;
+  base: string | null;
+  theirs: string | null;
+  ours: string | null;
+  /** Set when both sides changed the section differently */
+  conflict: boolean;
+  /** Side taken automatically, or the default for a conflict */
+  resolution: MergeChoice;
+}
+
+const sameHtml = (a: string | null, b: string | null): boolean =>
+  (a === null || b === null) ? a === b : a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+const sectionMap = (html: string): Map<string, ContentSection> => {
+  const map = new Map<string, ContentSection>();
+  const seen = new Map<string, number>();
+  for (const section of splitSections(html)) {
+    const key = section.heading ? normalizeHeading(section.heading) : '__intro__';
+    const count = seen.get(key) || 0;
+    seen.set(key, count + 1);
+    // Repeated headings get an occurrence suffix so they pair up in order
+    map.set(count ? `${key}#${count}` : key, section);
+  }
+  return map;
+};
+
+/**
+ * Three-way merge by section. "theirs" is the post as edited in WordPress,
+ * "ours" the generated rewrite, "base" the version the rewrite started from.
+ * A section changed on one side only takes that side; a section changed on
+ * both sides is a conflict the editor resolves.
+ */
+export const mergeSections = (baseHtml: string, theirsHtml: string, oursHtml: string): MergeSection[] => {
+  const base = sectionMap(baseHtml);
+  const theirs = sectionMap(theirsHtml);
+  const ours = sectionMap(oursHtml);
+
+  // Order: the rewrite's sections, with sections only WordPress has slotted in where they appear there
+  const keys = diffSequences(Array.from(ours.keys()), Array.from(theirs.keys())).map(op => op.text);
+
+  return Array.from(new Set(keys)).map(key => {
+    const b = base.get(key)?.html ?? null;
+    const t = theirs.get(key)?.html ?? null;
+    const o = ours.get(key)?.html ?? null;
+    const heading = (ours.get(key) || theirs.get(key) || base.get(key))?.heading || '';
+
+    if (sameHtml(t, b) || sameHtml(t, o)) {
+      return { heading, base: b, theirs: t, ours: o, conflict: false, resolution: 'ours' as const };
+    }
+    if (sameHtml(o, b)) {
+      return { heading, base: b, theirs: t, ours: o, conflict: false, resolution: 'theirs' as const };
+    }
+    return { heading, base: b, theirs: t, ours: o, conflict: true, resolution: 'ours' as const };
+  });
+};
+
+/**
+ * Joins merged sections using each section's resolution, or the editor's
+ * choice where one was made.
+ */
+export const buildMergedHtml = (sections: MergeSection[], choices: Record<number, MergeChoice> = {}): string =>
+  sections
+    .map((section, index) => (choices[index] || section.resolution) === 'ours' ? section.ours : section.theirs)
+    .filter((html): html is string => html !== null)
+    .join('\n');
@@ -0,0 +1,133 @@
+/**
+ * GENERATED CONTENT LIBRARY
+ * Generated content waiting for review, editing and publishing, shared by the
+ * strategist, single article and existing content flows. Persisted as one
+ * record per item.
+ */
+
+import { DraftProvenance, GeneratedContent, PublishMode, SeoMeta, TermSuggestion, VoiceCheckResult } from '../types';
+import { countWords } from './contentInventory';
+import { PersistedStore } from './persistedStore';
+import { SavePostResult } from './publishing';
+import { POSTS_ROUTE } from './wordpressClient';
+
+const LIBRARY_CACHE_KEY = 'content_library';
+
+/**
+ * Library entry for an article the new-post flows wrote to WordPress. Without
+ * a post the entry still has to be sent from the library.
+ */
+export const libraryItemForPost = (article: {
+  title: string;
+  slug: string;
+  content: string;
+  drafted: DraftProvenance;
+  voiceCheck: VoiceCheckResult;
+  mode: PublishMode;
+  post?: Pick<SavePostResult, 'postId' | 'link' | 'scheduledFor'>;
+  seo?: SeoMeta;
+  terms?: TermSuggestion[];
+}): GeneratedContent => ({
+  id: `${article.post ? `post_${article.post.postId}` : article.slug}_${Date.now()}`,
+  url: article.post?.link || `/${article.slug}/`,
+  title: article.title,
+  content: article.content,
+  wordCount: countWords(article.content),
+  status: article.post ? 'published' : 'draft',
+  postId: article.post?.postId,
+  restRoute: article.post ? POSTS_ROUTE : undefined,
+  publishMode: article.mode,
+  publishedAs: article.post ? article.mode : undefined,
+  scheduledFor: article.post?.scheduledFor,
+  seo: article.seo,
+  terms: article.terms,
+  generatedAt: new Date().toISOString(),
+  ...article.drafted,
+  voiceCheck: article.voiceCheck
+});
+
+/**
+ * Library entry for an existing post a bulk job rewrote and sent to WordPress,
+ * recording the model that wrote it.
+ */
+export const libraryItemForRewrite = (rewrite: {
+  url: string;
+  title: string;
+  content: string;
+  drafted: DraftProvenance;
+  voiceCheck: VoiceCheckResult;
+  mode: PublishMode;
+  post: { id: number; restRoute: string };
+  scheduledFor?: string;
+  seo?: SeoMeta;
+}): GeneratedContent => ({
+  id: `post_${rewrite.post.id}_${Date.now()}`,
+  url: rewrite.url,
+  title: rewrite.title,
+  content: rewrite.content,
+  wordCount: countWords(rewrite.content),
+  status: 'published',
+  postId: rewrite.post.id,
+  restRoute: rewrite.post.restRoute,
+  publishMode: rewrite.mode,
+  publishedAs: rewrite.mode,
+  scheduledFor: rewrite.scheduledFor,
+  seo: rewrite.seo,
+  generatedAt: new Date().toISOString(),
+  ...rewrite.drafted,
+  voiceCheck: rewrite.voiceCheck
+});
+
+class ContentLibrary extends PersistedStore<GeneratedContent> {
+  constructor() {
+    super('contentLibrary', 'ContentLibrary', LIBRARY_CACHE_KEY);
+  }
+
+  protected keyOf(item: GeneratedContent): string {
+    return item.id;
+  }
+
+  /**
+   * Items in the order they were generated; stored records load in key order.
+   */
+  list(): GeneratedContent[] {
+    return [...this.items].sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+  }
+
+  get(id: string): GeneratedContent | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  /**
+   * Adds content to the library. Content for a post that is already in the
+   * library replaces that entry, so re-runs do not pile up.
+   */
+  async add(item: GeneratedContent): Promise<GeneratedContent> {
+    await this.init();
+
+    const replaced = this.items.find(existing =>
+      existing.id === item.id || (item.postId !== undefined && existing.postId === item.postId)
+    );
+    this.items = replaced
+      ? this.items.map(existing => existing === replaced ? item : existing)
+      : [...this.items, item];
+
+    this.notify();
+    await this.persist([item], replaced && replaced.id !== item.id ? [replaced.id] : []);
+    return item;
+  }
+
+  async update(id: string, changes: Partial<GeneratedContent>): Promise<void> {
+    await this.init();
+    const current = this.get(id);
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    this.items = this.items.map(item => item === current ? updated : item);
+    this.notify();
+    await this.persist([updated]);
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const contentLibrary = new ContentLibrary();
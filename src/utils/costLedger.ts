@@ -0,0 +1,322 @@
+/**
+ * AI COST LEDGER
+ * Records token usage for every AI call, prices it per model and rolls it up
+ * per post, per job and per session. Persisted as one record per call.
+ */
+
+import { AICallContext, AIProvider, AIUsage, CostLedgerEntry, ModelPrice, ModelPriceTable } from '../types';
+import { PersistedStore } from './persistedStore';
+
+/**
+ * Default prices in USD per million tokens. Users can override or extend
+ * these in ConfigStep; OpenRouter IDs are matched on the part after the vendor prefix.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  // Text input and image output tokens
+  'gpt-image-1': { input: 5, output: 40 },
+  'claude-3.5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 }
+};
+
+const LEDGER_CACHE_KEY = 'cost_ledger_entries';
+
+/**
+ * Raised by the AI call layer when a job has spent its budget cap.
+ */
+export class BudgetExceededError extends Error {
+  constructor(public jobId: string, public spent: number, public cap: number) {
+    super(`Budget cap of $${cap.toFixed(2)} reached for job ${jobId} (spent $${spent.toFixed(4)})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Raised when a job with a budget cap calls a model that has no price, since
+ * its spending could not be tracked against the cap.
+ */
+export class UnpricedModelError extends BudgetExceededError {
+  constructor(jobId: string, public model: string, spent: number, cap: number) {
+    super(jobId, spent, cap);
+    this.message = `No price is configured for model ${model}, so the $${cap.toFixed(2)} budget cap of job ${jobId} cannot be enforced`;
+    this.name = 'UnpricedModelError';
+  }
+}
+
+export interface CostEstimate {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  /** True when the model has no known price and cost could not be estimated */
+  unpriced: boolean;
+}
+
+/**
+ * Pre-flight estimate for a job of identical calls.
+ * @param calls Number of AI calls the job will make.
+ * @param promptText A representative prompt, used to size input tokens.
+ * @param expectedOutputTokens Expected completion length per call.
+ */
+export const estimateJobCost = (
+  calls: number,
+  promptText: string,
+  expectedOutputTokens: number,
+  model: string,
+  priceTable: ModelPriceTable = {}
+): CostEstimate => {
+  const inputTokens = estimateTokens(promptText) * calls;
+  const outputTokens = expectedOutputTokens * calls;
+  const price = getModelPrice(model, priceTable);
+
+  return {
+    calls,
+    inputTokens,
+    outputTokens,
+    cost: price ? calculateCost({ inputTokens, outputTokens }, price) : 0,
+    unpriced: !price
+  };
+};
+
+/**
+ * Adds up the estimates of the different kinds of call a job makes.
+ */
+export const sumCostEstimates = (estimates: CostEstimate[]): CostEstimate =>
+  estimates.reduce(
+    (total, estimate) => ({
+      calls: total.calls + estimate.calls,
+      inputTokens: total.inputTokens + estimate.inputTokens,
+      outputTokens: total.outputTokens + estimate.outputTokens,
+      cost: total.cost + estimate.cost,
+      unpriced: total.unpriced || (estimate.calls > 0 && estimate.unpriced)
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: false }
+  );
+
+export type LedgerGrouping = 'sessionId' | 'jobId' | 'postUrl';
+
+export interface CostRollup {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * Looks up the price for a model, preferring user overrides.
+ * @returns The price, or null when the model is unknown.
+ */
+export const getModelPrice = (model: string, overrides: ModelPriceTable = {}): ModelPrice | null => {
+  const unprefixed = model.includes('/') ? model.slice(model.indexOf('/') + 1) : model;
+  return overrides[model] || overrides[unprefixed] ||
+    DEFAULT_MODEL_PRICES[model] || DEFAULT_MODEL_PRICES[unprefixed] || null;
+};
+
+export const calculateCost = (usage: AIUsage, price: ModelPrice): number =>
+  (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+
+/**
+ * Rough token estimate (about four characters per token) for providers that
+ * return no usage data.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const csvEscape = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class CostLedger extends PersistedStore<CostLedgerEntry> {
+  readonly sessionId = `session_${Date.now()}`;
+  private jobBudgets = new Map<string, number>();
+  // Worst-case cost of the calls each job has in flight
+  private reservations = new Map<string, number>();
+
+  constructor() {
+    super('costLedger', 'CostLedger', LEDGER_CACHE_KEY);
+  }
+
+  protected keyOf(entry: CostLedgerEntry): string {
+    return entry.id;
+  }
+
+  /**
+   * Records one completed AI call.
+   * @param call Provider, model and usage reported by the provider, if any.
+   * @param promptText Used to estimate input tokens when usage is missing.
+   * @param completionText Used to estimate output tokens when usage is missing.
+   */
+  async record(
+    call: {
+      provider: AIProvider;
+      model: string;
+      usage?: AIUsage;
+      context?: AICallContext;
+      priceTable?: ModelPriceTable;
+    },
+    promptText: string,
+    completionText: string
+  ): Promise<CostLedgerEntry> {
+    await this.init();
+
+    const usage = call.usage || {
+      inputTokens: estimateTokens(promptText),
+      outputTokens: estimateTokens(completionText)
+    };
+    const price = getModelPrice(call.model, call.priceTable);
+
+    const entry: CostLedgerEntry = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      jobId: call.context?.jobId,
+      postUrl: call.context?.postUrl,
+      stage: call.context?.stage,
+      provider: call.provider,
+      model: call.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      estimated: !call.usage,
+      unpriced: !price,
+      cost: price ? calculateCost(usage, price) : 0
+    };
+
+    // Entries are billing records and are never pruned; clear() is the only way to remove them
+    this.items = [...this.items, entry];
+
+    this.notify();
+    this.persist([entry]);
+    return entry;
+  }
+
+  getEntries(): CostLedgerEntry[] {
+    return this.items;
+  }
+
+  /**
+   * Totals entries grouped by session, job or post. Entries without the
+   * grouping key are left out.
+   */
+  summarize(groupBy: LedgerGrouping, entries: CostLedgerEntry[] = this.items): CostRollup[] {
+    const rollups = new Map<string, CostRollup>();
+
+    for (const entry of entries) {
+      const key = entry[groupBy];
+      if (!key) continue;
+
+      const rollup = rollups.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      rollup.calls++;
+      rollup.inputTokens += entry.inputTokens;
+      rollup.outputTokens += entry.outputTokens;
+      rollup.cost += entry.cost;
+      rollups.set(key, rollup);
+    }
+
+    return Array.from(rollups.values());
+  }
+
+  getJobCost(jobId: string): number {
+    return this.items
+      .filter(entry => entry.jobId === jobId)
+      .reduce((total, entry) => total + entry.cost, 0);
+  }
+
+  /**
+   * Sets a hard spending cap in USD for a job. Pass null to remove it.
+   */
+  setJobBudget(jobId: string, cap: number | null): void {
+    if (cap === null || !isFinite(cap) || cap <= 0) {
+      this.jobBudgets.delete(jobId);
+    } else {
+      this.jobBudgets.set(jobId, cap);
+    }
+  }
+
+  getJobBudget(jobId: string): number | null {
+    return this.jobBudgets.get(jobId) ?? null;
+  }
+
+  /**
+   * Reserves the worst-case cost of a call against its job's cap before the
+   * call is sent, so that concurrent calls cannot overshoot the cap together.
+   * Calls without a job or without a cap are always allowed.
+   * @param call Model and price table, the prompt and the completion limit.
+   * @returns Releases the reservation; call it once the call is recorded or has failed.
+   * @throws {UnpricedModelError} When the model has no price.
+   * @throws {BudgetExceededError} When spent and reserved cost plus this call would exceed the cap.
+   */
+  async reserveBudget(
+    jobId: string | undefined,
+    call: { model: string; priceTable?: ModelPriceTable; promptText: string; maxOutputTokens: number }
+  ): Promise<() => void> {
+    const cap = jobId ? this.jobBudgets.get(jobId) : undefined;
+    if (!jobId || cap === undefined) return () => {};
+
+    await this.init();
+    const spent = this.getJobCost(jobId);
+    const price = getModelPrice(call.model, call.priceTable);
+    if (!price) {
+      throw new UnpricedModelError(jobId, call.model, spent, cap);
+    }
+
+    const cost = calculateCost({ inputTokens: estimateTokens(call.promptText), outputTokens: call.maxOutputTokens }, price);
+    const reserved = this.reservations.get(jobId) || 0;
+    if (spent + reserved + cost > cap) {
+      throw new BudgetExceededError(jobId, spent, cap);
+    }
+
+    this.reservations.set(jobId, reserved + cost);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.reservations.get(jobId) || 0) - cost;
+      if (remaining > 1e-9) {
+        this.reservations.set(jobId, remaining);
+      } else {
+        this.reservations.delete(jobId);
+      }
+    };
+  }
+
+  getSessionCost(): number {
+    return this.items
+      .filter(entry => entry.sessionId === this.sessionId)
+      .reduce((total, entry) => total + entry.cost, 0);
+  }
+
+  /**
+   * Serializes entries as CSV for client invoicing.
+   */
+  toCSV(entries: CostLedgerEntry[] = this.items): string {
+    const columns: Array<keyof CostLedgerEntry> = [
+      'timestamp', 'sessionId', 'jobId', 'postUrl', 'stage', 'provider', 'model',
+      'inputTokens', 'outputTokens', 'estimated', 'unpriced', 'cost'
+    ];
+
+    const rows = entries.map(entry =>
+      columns.map(column => csvEscape(column === 'cost' ? entry.cost.toFixed(6) : entry[column])).join(',')
+    );
+
+    return [columns.join(','), ...rows].join('\n');
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    this.items = [];
+    this.notify();
+    await this.persistAll();
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const costLedger = new CostLedger();
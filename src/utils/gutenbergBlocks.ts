@@ -0,0 +1,296 @@
+/**
+ * GUTENBERG BLOCK SERIALIZER
+ * Converts generated HTML into block editor markup, so block-editor sites get
+ * heading, paragraph, list, table, image and quote blocks instead of a single
+ * Classic block. FAQ sections can become Yoast or Rank Math FAQ blocks
+ */
+
+import { ContentFormat, FaqBlockStyle } from '../types';
+
+export interface BlockSerializerOptions {
+  faqBlocks?: FaqBlockStyle;
+}
+
+const WRAPPER_TAGS = new Set(['BODY', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'FOOTER', 'ASIDE']);
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BR', 'CITE', 'CODE', 'DEL', 'EM', 'I', 'INS', 'KBD', 'MARK',
+  'Q', 'S', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U'
+]);
+const FAQ_HEADING = /\b(faqs?|frequently asked questions)\b/i;
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttr = (value: string): string =>
+  escapeText(value).replace(/"/g, '&quot;');
+
+/**
+ * Encodes block attributes the way WordPress does, so the comment delimiters
+ * cannot be broken by the JSON.
+ */
+const serializeAttributes = (attributes: Record<string, unknown>): string =>
+  JSON.stringify(attributes)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+
+const block = (name: string, inner: string, attributes?: Record<string, unknown>): string => {
+  const attrs = attributes && Object.keys(attributes).length > 0 ? ` ${serializeAttributes(attributes)}` : '';
+  return `<!-- wp:${name}${attrs} -->\n${inner}\n<!-- /wp:${name} -->`;
+};
+
+const headingLevel = (el: Element): number | null => {
+  const match = /^H([1-6])$/.exec(el.tagName);
+  return match ? Number(match[1]) : null;
+};
+
+const paragraph = (html: string): string => block('paragraph', `<p>${html}</p>`);
+
+const heading = (el: Element): string => {
+  const level = headingLevel(el)!;
+  const id = el.getAttribute('id');
+  return block(
+    'heading',
+    `<h${level} class="wp-block-heading"${id ? ` id="${escapeAttr(id)}"` : ''}>${el.innerHTML.trim()}</h${level}>`,
+    level === 2 ? undefined : { level }
+  );
+};
+
+const list = (el: Element): string => {
+  const tag = el.tagName.toLowerCase();
+  const items = Array.from(el.children)
+    .filter(child => child.tagName === 'LI')
+    .map(li => {
+      const nested = Array.from(li.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+      const own = li.cloneNode(true) as Element;
+      own.querySelectorAll(':scope > ul, :scope > ol').forEach(child => child.remove());
+      return block('list-item', `<li>${own.innerHTML.trim()}${nested.map(list).join('')}</li>`);
+    });
+  return block('list', `<${tag} class="wp-block-list">${items.join('\n\n')}</${tag}>`, tag === 'ol' ? { ordered: true } : undefined);
+};
+
+const table = (el: Element, caption = ''): string =>
+  block(
+    'table',
+    `<figure class="wp-block-table"><table class="has-fixed-layout">${el.innerHTML.trim()}</table>` +
+      `${caption ? `<figcaption class="wp-element-caption">${caption}</figcaption>` : ''}</figure>`
+  );
+
+const image = (img: Element, caption = '', href?: string | null): string => {
+  const id = /wp-image-(\d+)/.exec(img.getAttribute('class') || '')?.[1];
+  const tag = `<img src="${escapeAttr(img.getAttribute('src') || '')}" alt="${escapeAttr(img.getAttribute('alt') || '')}"` +
+    `${id ? ` class="wp-image-${id}"` : ''}/>`;
+  const attributes: Record<string, unknown> = {};
+  if (id) attributes.id = Number(id);
+  if (href) attributes.linkDestination = 'custom';
+
+  return block(
+    'image',
+    `<figure class="wp-block-image">${href ? `<a href="${escapeAttr(href)}">${tag}</a>` : tag}` +
+      `${caption ? `<figcaption class="wp-element-caption">${caption}</figcaption>` : ''}</figure>`,
+    attributes
+  );
+};
+
+/**
+ * The image in a paragraph or link that holds nothing else, with the link's href.
+ */
+const soleImage = (el: Element): { img: Element; href: string | null } | null => {
+  if (el.textContent?.trim()) return null;
+  if (el.children.length !== 1) return null;
+  const child = el.children[0];
+  if (child.tagName === 'IMG') return { img: child, href: el.tagName === 'A' ? el.getAttribute('href') : null };
+  if (child.tagName === 'A') return soleImage(child);
+  return null;
+};
+
+const quote = (el: Element, options: BlockSerializerOptions): string => {
+  const body = el.cloneNode(true) as Element;
+  const cite = body.querySelector(':scope > cite');
+  cite?.remove();
+  const inner = serializeNodes(Array.from(body.childNodes), options).join('\n\n');
+  return block('quote', `<blockquote class="wp-block-quote">${inner}${cite ? `<cite>${cite.innerHTML.trim()}</cite>` : ''}</blockquote>`);
+};
+
+const preformatted = (el: Element): string => {
+  const code = el.children.length === 1 && el.children[0].tagName === 'CODE' ? el.children[0] : null;
+  return code
+    ? block('code', `<pre class="wp-block-code"><code>${code.innerHTML}</code></pre>`)
+    : block('preformatted', `<pre class="wp-block-preformatted">${el.innerHTML}</pre>`);
+};
+
+const serializeElement = (el: Element, options: BlockSerializerOptions): string[] => {
+  if (headingLevel(el)) return [heading(el)];
+  if (WRAPPER_TAGS.has(el.tagName)) return serializeNodes(Array.from(el.childNodes), options);
+
+  switch (el.tagName) {
+    case 'P': {
+      const sole = soleImage(el);
+      if (sole) return [image(sole.img, '', sole.href)];
+      return el.innerHTML.trim() ? [paragraph(el.innerHTML.trim())] : [];
+    }
+    case 'UL':
+    case 'OL':
+      return [list(el)];
+    case 'TABLE':
+      return [table(el)];
+    case 'FIGURE': {
+      const caption = el.querySelector('figcaption')?.innerHTML.trim() || '';
+      const tableEl = el.querySelector('table');
+      if (tableEl) return [table(tableEl, caption)];
+      const img = el.querySelector('img');
+      if (img) return [image(img, caption, img.parentElement?.tagName === 'A' ? img.parentElement.getAttribute('href') : null)];
+      return [block('html', el.outerHTML)];
+    }
+    case 'IMG':
+      return [image(el)];
+    case 'BLOCKQUOTE':
+      return [quote(el, options)];
+    case 'HR':
+      return [block('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>')];
+    case 'PRE':
+      return [preformatted(el)];
+    default:
+      return [block('html', el.outerHTML)];
+  }
+};
+
+interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Reads questions (sub-headings) and answers (the content up to the next
+ * question) from the nodes of an FAQ section.
+ */
+const collectFaqItems = (nodes: Node[]): FaqItem[] => {
+  const items: FaqItem[] = [];
+  for (const node of nodes) {
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+    const el = node as Element;
+    if (headingLevel(el)) {
+      items.push({ question: el.innerHTML.trim(), answer: '' });
+    } else if (items.length > 0) {
+      const current = items[items.length - 1];
+      const part = el.tagName === 'P' ? el.innerHTML.trim() : el.outerHTML;
+      current.answer = current.answer ? `${current.answer}<br/>${part}` : part;
+    }
+  }
+  return items.filter(item => item.answer);
+};
+
+const faqBlock = (items: FaqItem[], style: Exclude<FaqBlockStyle, 'none'>): string => {
+  if (style === 'yoast') {
+    const questions = items.map((item, index) => ({
+      id: `faq-question-${index + 1}`,
+      question: item.question,
+      answer: item.answer,
+      jsonQuestion: item.question,
+      jsonAnswer: item.answer
+    }));
+    const sections = questions.map(q =>
+      `<div class="schema-faq-section" id="${q.id}"><strong class="schema-faq-question">${q.question}</strong> ` +
+      `<p class="schema-faq-answer">${q.answer}</p> </div>`
+    );
+    return block('yoast/faq-block', `<div class="schema-faq wp-block-yoast-faq-block">${sections.join('')}</div>`, { questions });
+  }
+
+  const questions = items.map((item, index) => ({
+    id: `faq-question-${index + 1}`,
+    title: item.question,
+    content: item.answer,
+    visible: true
+  }));
+  const sections = questions.map(q =>
+    `<div class="rank-math-faq-item"><h3 class="rank-math-question">${q.title}</h3><div class="rank-math-answer">${q.content}</div></div>`
+  );
+  return block('rank-math/faq-block', `<div class="wp-block-rank-math-faq-block">${sections.join('')}</div>`, { questions });
+};
+
+/**
+ * Serializes sibling nodes. Loose text and inline elements are gathered into
+ * paragraphs; an FAQ heading followed by question sub-headings becomes an FAQ
+ * block when enabled.
+ */
+const serializeNodes = (nodes: Node[], options: BlockSerializerOptions): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    if (inline.trim()) blocks.push(paragraph(inline.trim()));
+    inline = '';
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += escapeText(node.textContent || '');
+      continue;
+    }
+    if (node.nodeType === Node.COMMENT_NODE) {
+      flush();
+      blocks.push(`<!--${(node as Comment).data}-->`);
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const el = node as Element;
+    if (INLINE_TAGS.has(el.tagName) && !soleImage(el)) {
+      inline += el.outerHTML;
+      continue;
+    }
+    flush();
+
+    const level = headingLevel(el);
+    if (level && options.faqBlocks && options.faqBlocks !== 'none' && FAQ_HEADING.test(el.textContent || '')) {
+      // The section runs until the next heading of the same or a higher level
+      let end = i + 1;
+      while (end < nodes.length) {
+        const next = nodes[end];
+        const nextLevel = next.nodeType === Node.ELEMENT_NODE ? headingLevel(next as Element) : null;
+        if (nextLevel && nextLevel <= level) break;
+        end++;
+      }
+      const items = collectFaqItems(nodes.slice(i + 1, end));
+      if (items.length > 0) {
+        blocks.push(heading(el), faqBlock(items, options.faqBlocks));
+        i = end - 1;
+        continue;
+      }
+    }
+
+    if (el.tagName === 'A') {
+      const sole = soleImage(el)!;
+      blocks.push(image(sole.img, '', sole.href));
+      continue;
+    }
+    blocks.push(...serializeElement(el, options));
+  }
+  flush();
+
+  return blocks;
+};
+
+export const isBlockMarkup = (html: string): boolean => /<!-- wp:[a-z]/.test(html);
+
+/**
+ * Converts HTML to block markup. Content that already contains blocks is
+ * returned unchanged.
+ */
+export const serializeToBlocks = (html: string, options: BlockSerializerOptions = {}): string => {
+  if (isBlockMarkup(html)) return html;
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+  return serializeNodes(Array.from(doc.body.childNodes), options).join('\n\n');
+};
+
+/**
+ * Applies the site's content format setting to HTML about to be sent to WordPress.
+ */
+export const formatContentForSite = (
+  html: string,
+  config: { contentFormat?: ContentFormat; faqBlockStyle?: FaqBlockStyle }
+): string =>
+  config.contentFormat === 'blocks' ? serializeToBlocks(html, { faqBlocks: config.faqBlockStyle }) : html;
@@ -0,0 +1,250 @@
+/**
+ * IMAGE PIPELINE
+ * Suggests a featured image and in-content image placements with alt text and
+ * captions, sources the files from a local folder or an image provider,
+ * uploads them to the WordPress media library and inserts them into the content
+ */
+
+import { AICallContext, AIMessage, ContentImage, ImagePlacement } from '../types';
+import { AIProviderError } from './aiProviders';
+import { splitSections } from './contentDiff';
+import { costLedger, estimateTokens } from './costLedger';
+import { generateStructured, Schema } from './structuredOutput';
+import { WordPressClient } from './wordpressClient';
+
+/**
+ * Source of generated images. Register more with registerImageProvider.
+ */
+export interface ImageProvider {
+  id: string;
+  name: string;
+  isConfigured: (config: any) => boolean;
+  /**
+   * @param context Job and post the image is for; generations are recorded
+   *   in the cost ledger against it and count toward the job's budget cap.
+   */
+  generate: (prompt: string, config: any, context?: AICallContext) => Promise<Blob>;
+}
+
+const providers = new Map<string, ImageProvider>();
+
+export const registerImageProvider = (provider: ImageProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * @param config When given, only providers with the credentials they need are returned.
+ */
+export const getImageProviders = (config?: any): ImageProvider[] =>
+  Array.from(providers.values()).filter(provider => !config || provider.isConfigured(config));
+
+export const getImageProvider = (id: string): ImageProvider | undefined => providers.get(id);
+
+const base64ToBlob = (base64: string, type: string): Blob => {
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new Blob([buffer], { type });
+};
+
+const OPENAI_IMAGE_MODEL = 'gpt-image-1';
+// Image tokens of a 1536x1024 image at high quality, the most one generation is billed for
+const OPENAI_IMAGE_MAX_OUTPUT_TOKENS = 6240;
+
+registerImageProvider({
+  id: 'openai',
+  name: 'OpenAI (gpt-image-1)',
+  isConfigured: (config) => !!config.openaiApiKey,
+  generate: async (prompt, config, context) => {
+    const priceTable = config.modelPrices || {};
+    const release = await costLedger.reserveBudget(context?.jobId, {
+      model: OPENAI_IMAGE_MODEL,
+      priceTable,
+      promptText: prompt,
+      maxOutputTokens: OPENAI_IMAGE_MAX_OUTPUT_TOKENS
+    });
+
+    try {
+      const response = await fetch('https://api.openai.com/v1/images/generations', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.openaiApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ model: OPENAI_IMAGE_MODEL, prompt, size: '1536x1024', n: 1 })
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new AIProviderError(`OpenAI image generation failed (${response.status}): ${body.slice(0, 200)}`, 'openai', response.status);
+      }
+
+      const data = await response.json();
+      // Without usage data the generation is charged at its worst case
+      const usage = data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : { inputTokens: estimateTokens(prompt), outputTokens: OPENAI_IMAGE_MAX_OUTPUT_TOKENS };
+      try {
+        await costLedger.record({ provider: 'openai', model: OPENAI_IMAGE_MODEL, usage, context, priceTable }, prompt, '');
+      } catch (error) {
+        console.warn('[ImagePipeline] Failed to record image generation cost:', error);
+      }
+
+      const base64 = data.data?.[0]?.b64_json;
+      if (!base64) {
+        throw new Error('OpenAI returned no image data');
+      }
+      return base64ToBlob(base64, 'image/png');
+    } finally {
+      release();
+    }
+  }
+});
+
+const PLACEMENT_TEXT: Record<string, Schema> = {
+  description: { type: 'string', minLength: 10 },
+  alt: { type: 'string', minLength: 5, maxLength: 125 },
+  caption: { type: 'string', maxLength: 200 }
+};
+
+const IMAGE_PLAN_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    featured: { type: 'object', properties: PLACEMENT_TEXT, required: ['description', 'alt', 'caption'] },
+    inline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { afterHeading: { type: 'string' }, ...PLACEMENT_TEXT },
+        required: ['afterHeading', 'description', 'alt', 'caption']
+      }
+    }
+  },
+  required: ['featured', 'inline']
+};
+
+interface ImagePlanPayload {
+  featured: { description: string; alt: string; caption: string };
+  inline: { afterHeading: string; description: string; alt: string; caption: string }[];
+}
+
+const normalizeHeading = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Asks the AI where images belong: one featured image plus up to maxInline
+ * images under the article's headings. Placements under headings the article
+ * does not have are dropped.
+ * @param call Sends the conversation to the AI and resolves to its text.
+ */
+export const suggestImagePlacements = async (
+  article: { title: string; html: string },
+  call: (messages: AIMessage[]) => Promise<string>,
+  maxInline = 3
+): Promise<ImagePlacement[]> => {
+  const headings = splitSections(article.html).filter(section => section.heading && section.level <= 3).map(section => section.heading);
+  const prompt = `
+      Plan the images for this article: "${article.title}"
+
+      - featured: the featured image for the whole article
+      - inline: up to ${maxInline} images, each placed under one of these headings (copy the heading exactly):
+      ${headings.map(heading => `  - ${heading}`).join('\n      ')}
+
+      For every image:
+      - description: what the image shows, concrete enough to generate or pick a photo from
+      - alt: descriptive alt text for screen readers, at most 125 characters, no "image of"
+      - caption: one short sentence that adds context, or an empty string
+    `;
+
+  const payload = await generateStructured<ImagePlanPayload>([{ role: 'user', content: prompt }], IMAGE_PLAN_SCHEMA, call);
+  const known = new Map(headings.map(heading => [normalizeHeading(heading), heading]));
+  const stamp = Date.now();
+
+  return [
+    { id: `img_${stamp}_featured`, position: 'featured' as const, ...payload.featured },
+    ...payload.inline
+      .filter(item => known.has(normalizeHeading(item.afterHeading)))
+      .slice(0, maxInline)
+      .map((item, index) => ({
+        id: `img_${stamp}_${index}`,
+        position: 'inline' as const,
+        afterHeading: known.get(normalizeHeading(item.afterHeading)),
+        description: item.description,
+        alt: item.alt,
+        caption: item.caption
+      }))
+  ];
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif'
+};
+
+/**
+ * Filename for an upload, taken from the alt text so the media library stays readable.
+ */
+export const imageFilename = (placement: ImagePlacement, file: Blob): string => {
+  const name = placement.alt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'image';
+  return `${name}.${EXTENSIONS[file.type] || 'jpg'}`;
+};
+
+/**
+ * Uploads an image to the media library with the placement's alt text and caption.
+ */
+export const uploadPlacementImage = async (
+  client: WordPressClient,
+  placement: ImagePlacement,
+  file: Blob,
+  source: { type: 'local'; filename: string } | { type: 'provider'; providerId: string }
+): Promise<ContentImage> => {
+  const filename = source.type === 'local' ? source.filename : imageFilename(placement, file);
+  const media = await client.uploadMedia(file, filename, {
+    alt_text: placement.alt,
+    caption: placement.caption,
+    title: placement.alt
+  });
+
+  return {
+    ...placement,
+    source: source.type,
+    providerId: source.type === 'provider' ? source.providerId : undefined,
+    filename,
+    mediaId: media.id,
+    sourceUrl: media.source_url,
+    uploadedAt: new Date().toISOString()
+  };
+};
+
+const escapeAttr = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const imageFigure = (image: ContentImage): string =>
+  `<figure class="wp-block-image"><img src="${escapeAttr(image.sourceUrl)}" alt="${escapeAttr(image.alt)}" class="wp-image-${image.mediaId}"/>` +
+  `${image.caption ? `<figcaption class="wp-element-caption">${escapeAttr(image.caption)}</figcaption>` : ''}</figure>`;
+
+/**
+ * Inserts a figure after the heading of each inline image. Images already in
+ * the content and images whose heading is gone are skipped.
+ */
+export const insertImages = (html: string, images: ContentImage[]): string =>
+  images
+    .filter(image => image.position === 'inline' && image.afterHeading && !html.includes(`wp-image-${image.mediaId}`))
+    .reduce((result, image) => {
+      const target = normalizeHeading(image.afterHeading!);
+      const headingPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+      let match: RegExpExecArray | null;
+      while ((match = headingPattern.exec(result)) !== null) {
+        if (normalizeHeading(match[2].replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')) === target) {
+          const end = match.index + match[0].length;
+          return `${result.slice(0, end)}\n${imageFigure(image)}${result.slice(end)}`;
+        }
+      }
+      console.warn(`[ImagePipeline] Heading "${image.afterHeading}" not found; image ${image.mediaId} not inserted`);
+      return result;
+    }, html);
+
+export const featuredImageOf = (images: ContentImage[] = []): ContentImage | undefined =>
+  images.find(image => image.position === 'featured');
@@ -51,16 +51,13 @@ export const fetchWithProxies = async (url: string, options: RequestInit = {}):
     
     const encodedUrl = encodeURIComponent(url);
     const proxies = [
-        // HIGH-PERFORMANCE PROXY CHAIN (8 tiers)
-        `https://corsproxy.io/?${url}`,
-        `https://api.allorigins.win/raw?url=${encodedUrl}`,
+        // HIGH-PERFORMANCE PROXY CHAIN (7 tiers)
+        `https://corsproxy.io/?${encodedUrl}`,
         `https://api.allorigins.win/raw?url=${encodedUrl}`,
         `https://cors-anywhere.herokuapp.com/${url}`,
         `https://thingproxy.freeboard.io/fetch/${url}`,
         `https://proxy.cors.sh/${url}`,
         `https://api.codetabs.com/v1/tmp?quest=${encodedUrl}`,
-        url // Direct request as final fallback
-        `https://thingproxy.freeboard.io/fetch/${url}`,
         // Fallback: try direct request (works if CORS is properly configured)
         url
     ];
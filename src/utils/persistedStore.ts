@@ -0,0 +1,181 @@
+/**
+ * PERSISTED STORES
+ * Durable storage for data that cannot be regenerated: the cost ledger,
+ * prompt overrides, voice and author profiles, content backups, the publish
+ * queue, the content library and the posts created for content clusters.
+ * Each collection has its own object store in a dedicated IndexedDB
+ * database, one record per item, and nothing is ever evicted, unlike the
+ * size-capped cacheManager.
+ */
+
+import { cacheManager } from './cacheManager';
+
+const DB_NAME = 'WP_Content_Optimizer_Data';
+const DB_VERSION = 2;
+
+export type PersistedStoreName =
+  | 'costLedger'
+  | 'promptOverrides'
+  | 'voiceProfiles'
+  | 'authorProfiles'
+  | 'contentBackups'
+  | 'publishSchedule'
+  | 'contentLibrary'
+  | 'clusterPosts';
+
+// Object stores can only be created in an upgrade; add new ones here and bump DB_VERSION
+const STORE_NAMES: PersistedStoreName[] = [
+  'costLedger',
+  'promptOverrides',
+  'voiceProfiles',
+  'authorProfiles',
+  'contentBackups',
+  'publishSchedule',
+  'contentLibrary',
+  'clusterPosts'
+];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES
+          .filter(name => !db.objectStoreNames.contains(name))
+          .forEach(name => db.createObjectStore(name));
+      };
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const readAll = async <T>(storeName: PersistedStoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as T[]);
+  });
+};
+
+/**
+ * Puts and deletes records in one transaction.
+ */
+const writeRecords = async (
+  storeName: PersistedStoreName,
+  records: Array<[string, unknown]>,
+  removedKeys: string[] = [],
+  clear = false
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    if (clear) store.clear();
+    removedKeys.forEach(key => store.delete(key));
+    records.forEach(([key, record]) => store.put(record, key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Base for the app's persisted singleton stores: loads the collection once,
+ * keeps it in memory, notifies subscribers and writes only the items that
+ * changed.
+ */
+export abstract class PersistedStore<T> {
+  protected items: T[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param legacyCacheKey cacheManager key the collection used to live under;
+   *   moved into the store on first load.
+   */
+  constructor(
+    private storeName: PersistedStoreName,
+    private label: string,
+    private legacyCacheKey?: string
+  ) {}
+
+  /** Record key of an item */
+  protected abstract keyOf(item: T): string;
+
+  async init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load()
+        .then((stored) => {
+          // Items added before loading finished win over stored ones
+          const keys = new Set(this.items.map(item => this.keyOf(item)));
+          this.items = [...stored.filter(item => !keys.has(this.keyOf(item))), ...this.items];
+          this.notify();
+        })
+        .catch((error) => console.warn(`[${this.label}] Failed to load:`, error));
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Converts what the collection stored under its legacy cache key; an
+   * array of items by default.
+   */
+  protected fromLegacy(stored: unknown): T[] {
+    return Array.isArray(stored) ? stored as T[] : [];
+  }
+
+  /**
+   * Writes changed items and deletes removed ones. Failures are logged; the
+   * in-memory state stays as it is.
+   */
+  protected async persist(changed: T[], removedKeys: string[] = []): Promise<void> {
+    try {
+      await writeRecords(this.storeName, changed.map(item => [this.keyOf(item), item]), removedKeys);
+    } catch (error) {
+      console.warn(`[${this.label}] Failed to persist:`, error);
+    }
+  }
+
+  /**
+   * Replaces the whole stored collection with the in-memory items.
+   */
+  protected async persistAll(): Promise<void> {
+    try {
+      await writeRecords(this.storeName, this.items.map(item => [this.keyOf(item), item]), [], true);
+    } catch (error) {
+      console.warn(`[${this.label}] Failed to persist:`, error);
+    }
+  }
+
+  private async load(): Promise<T[]> {
+    const stored = await readAll<T>(this.storeName);
+    if (stored.length > 0 || !this.legacyCacheKey) return stored;
+
+    const legacy = this.fromLegacy(await cacheManager.get(this.legacyCacheKey));
+    if (legacy.length > 0) {
+      await writeRecords(this.storeName, legacy.map(item => [this.keyOf(item), item]));
+    }
+    await cacheManager.delete(this.legacyCacheKey);
+    return legacy;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * POST TYPE RESOLUTION
+ * Discovers the REST route of every public post type (posts, pages, WooCommerce
+ * products, custom post types) from /wp/v2/types and works out which collection
+ * a URL belongs to, so reads and writes go to the right endpoint
+ */
+
+import { PAGES_ROUTE, POSTS_ROUTE, WordPressClient, WordPressError, WPListParams, WPPostObject } from './wordpressClient';
+
+export interface PostTypeRoute {
+  postType: string;
+  name: string;
+  /** REST collection route, e.g. "wp/v2/product" */
+  restRoute: string;
+  /** Taxonomy slugs the type supports, e.g. "category" and "post_tag" */
+  taxonomies: string[];
+}
+
+export interface ResolvedContent {
+  item: WPPostObject;
+  postType: string;
+  restRoute: string;
+}
+
+// Registered with show_in_rest but never the target of a sitemap URL
+const NON_CONTENT_TYPES = [
+  'attachment',
+  'nav_menu_item',
+  'wp_block',
+  'wp_template',
+  'wp_template_part',
+  'wp_navigation',
+  'wp_global_styles',
+  'wp_font_family',
+  'wp_font_face'
+];
+
+const DEFAULT_ROUTES: PostTypeRoute[] = [
+  { postType: 'post', name: 'Posts', restRoute: POSTS_ROUTE, taxonomies: ['category', 'post_tag'] },
+  { postType: 'page', name: 'Pages', restRoute: PAGES_ROUTE, taxonomies: [] }
+];
+
+const routeCache = new Map<string, Promise<PostTypeRoute[]>>();
+
+/**
+ * Lists the content post types of a site with their REST routes, posts and
+ * pages first. Cached per site; falls back to posts and pages when the types
+ * endpoint is unavailable.
+ */
+export const resolvePostTypes = (client: WordPressClient): Promise<PostTypeRoute[]> => {
+  const cached = routeCache.get(client.baseUrl);
+  if (cached) return cached;
+
+  const routes = client.listPostTypes()
+    .then((types) => {
+      const discovered = Object.values(types)
+        .filter(type => type.rest_base && !NON_CONTENT_TYPES.includes(type.slug))
+        .map(type => ({
+          postType: type.slug,
+          name: type.name,
+          restRoute: `${type.rest_namespace || 'wp/v2'}/${type.rest_base}`,
+          taxonomies: type.taxonomies || []
+        }));
+      const rank = (route: PostTypeRoute) => {
+        const index = DEFAULT_ROUTES.findIndex(known => known.postType === route.postType);
+        return index === -1 ? DEFAULT_ROUTES.length : index;
+      };
+      return discovered.length > 0 ? discovered.sort((a, b) => rank(a) - rank(b)) : DEFAULT_ROUTES;
+    })
+    .catch((error) => {
+      console.warn('[PostTypes] Could not read /wp/v2/types, assuming posts and pages only:', error);
+      routeCache.delete(client.baseUrl);
+      return DEFAULT_ROUTES;
+    });
+
+  routeCache.set(client.baseUrl, routes);
+  return routes;
+};
+
+/**
+ * Slug the tool gives a post generated from a title.
+ */
+export const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const slugFromUrl = (url: string): string => {
+  try {
+    const pathname = new URL(url).pathname;
+    return pathname.split('/').filter(Boolean).pop() || '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Reads the post type from a sitemap file name. Handles core sitemaps
+ * (wp-sitemap-posts-product-1.xml) and the Yoast, Rank Math and SEOPress
+ * naming (product-sitemap.xml, product-sitemap2.xml).
+ */
+export const postTypeFromSitemapUrl = (sitemapUrl: string): string | null => {
+  const core = sitemapUrl.match(/wp-sitemap-posts-([a-z0-9_-]+?)-\d+\.xml/i);
+  if (core) return core[1];
+
+  const plugin = sitemapUrl.match(/\/([a-z0-9_-]+?)-sitemap\d*\.xml/i);
+  return plugin && plugin[1] !== 'wp' ? plugin[1] : null;
+};
+
+export const findPostTypeRoute = (routes: PostTypeRoute[], postType?: string | null): PostTypeRoute | null =>
+  routes.find(route => route.postType === postType) || null;
+
+// Posts sharing a slug (e.g. child pages under different parents) checked per post type
+const SLUG_MATCH_LIMIT = 20;
+
+/**
+ * Key two spellings of the same permalink share: no trailing slash or fragment.
+ */
+const permalinkKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url.replace(/\/+$/, '');
+  }
+};
+
+/**
+ * Finds the post behind a URL. A known route is tried first; otherwise every
+ * content post type is searched by slug in order. A post only matches when
+ * its permalink is the URL, so a same-slug post elsewhere on the site is never
+ * picked.
+ */
+export const resolveContentByUrl = async (
+  client: WordPressClient,
+  url: string,
+  knownRoute?: string,
+  params: WPListParams = {}
+): Promise<ResolvedContent | null> => {
+  const slug = slugFromUrl(url);
+  if (!slug) return null;
+
+  const routes = await resolvePostTypes(client);
+  const known = routes.find(route => route.restRoute === knownRoute);
+  const candidates = known ? [known, ...routes.filter(route => route !== known)] : routes;
+
+  const fields = params.fields && !params.fields.includes('link') ? [...params.fields, 'link'] : params.fields;
+  const key = permalinkKey(url);
+
+  for (const route of candidates) {
+    try {
+      const { items } = await client.list<WPPostObject>(route.restRoute, { ...params, fields, slug, perPage: SLUG_MATCH_LIMIT });
+      const item = items.find(candidate => candidate.link && permalinkKey(candidate.link) === key);
+      if (item) return { item, postType: route.postType, restRoute: route.restRoute };
+    } catch (error) {
+      // Some custom post types refuse listing; skip them but surface credential problems
+      if (error instanceof WordPressError && error.kind !== 'auth' && error.status !== undefined && error.status < 500) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Finds the post behind an inventory item. Items from the REST inventory
+ * carry their ID and are loaded by it with context=edit, so drafts, private
+ * posts and "?p=ID" links resolve; anything else is resolved by URL.
+ */
+export const resolveContent = async (
+  client: WordPressClient,
+  target: { url: string; id?: number; restRoute?: string },
+  params: WPListParams = {}
+): Promise<ResolvedContent | null> => {
+  if (target.id === undefined || !target.restRoute) {
+    return resolveContentByUrl(client, target.url, target.restRoute, params);
+  }
+
+  const fields = params.fields && !params.fields.includes('type') ? [...params.fields, 'type'] : params.fields;
+  const item = await client.getItem<WPPostObject>(target.restRoute, target.id, { ...params, fields, context: 'edit' });
+  return { item, postType: item.type, restRoute: target.restRoute };
+};
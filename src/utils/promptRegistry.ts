@@ -0,0 +1,175 @@
+/**
+ * PROMPT TEMPLATE REGISTRY
+ * Named, versioned prompt templates with typed variables. Users can override
+ * any template from the UI; overrides are persisted one record per template
+ * and every rendered prompt carries a stamp of the template version used.
+ */
+
+import { AIMessage } from '../types';
+import { PersistedStore } from './persistedStore';
+import { DEFAULT_PROMPT_TEMPLATES } from './promptTemplates';
+
+/**
+ * Variables each template accepts. Placeholders are written as {name}.
+ */
+export interface PromptVariables {
+  pillarPage: { title: string };
+  clusterArticle: { title: string; pillarTitle: string; keywords: string };
+  quantumPillar: { url: string; title: string; excerpt: string; competitorInsights: string };
+  premiumRewrite: { url: string; title: string; excerpt: string; competitorInsights: string };
+  humanPillar: { url: string; title: string; internalLinks: string };
+}
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptTemplateId = PromptTemplateId> {
+  id: K;
+  name: string;
+  description: string;
+  /** Built-in version; bumped whenever the default text changes */
+  version: number;
+  variables: Array<keyof PromptVariables[K] & string>;
+  messages: AIMessage[];
+}
+
+export interface PromptOverride {
+  templateId: PromptTemplateId;
+  /** Built-in version the override was written against */
+  baseVersion: number;
+  /** Incremented on every save; never reused, even after a reset */
+  revision: number;
+  messages: AIMessage[];
+  updatedAt: string;
+  /** Set when the override was reset to the built-in text; the record keeps the revision counter */
+  resetAt?: string;
+}
+
+/** Identifies the exact template text that produced a piece of content */
+export interface PromptStamp {
+  templateId: PromptTemplateId;
+  version: string;
+}
+
+export interface RenderedPrompt {
+  messages: AIMessage[];
+  stamp: PromptStamp;
+}
+
+const OVERRIDES_CACHE_KEY = 'prompt_template_overrides';
+
+/**
+ * Formats a stamp as "templateId@version", e.g. "quantumPillar@1+custom.3".
+ */
+export const formatPromptStamp = (stamp: PromptStamp): string => `${stamp.templateId}@${stamp.version}`;
+
+/**
+ * Appends the prompt stamp to generated HTML as a comment so published posts
+ * can be traced back to the template that wrote them.
+ */
+export const stampContent = (html: string, stamp: PromptStamp): string =>
+  `${html.trimEnd()}\n<!-- prompt: ${formatPromptStamp(stamp)} -->`;
+
+/**
+ * Replaces {name} placeholders for the declared variables only, so literal
+ * braces elsewhere in a prompt are left alone.
+ */
+const fillPlaceholders = (text: string, variables: Record<string, string>): string =>
+  Object.entries(variables).reduce(
+    (result, [name, value]) => result.split(`{${name}}`).join(value),
+    text
+  );
+
+class PromptRegistry extends PersistedStore<PromptOverride> {
+  constructor() {
+    super('promptOverrides', 'PromptRegistry', OVERRIDES_CACHE_KEY);
+  }
+
+  protected keyOf(override: PromptOverride): string {
+    return override.templateId;
+  }
+
+  protected fromLegacy(stored: unknown): PromptOverride[] {
+    return stored && typeof stored === 'object' ? Object.values(stored as Record<string, PromptOverride>) : [];
+  }
+
+  listTemplates(): PromptTemplate[] {
+    return Object.values(DEFAULT_PROMPT_TEMPLATES) as PromptTemplate[];
+  }
+
+  getDefault<K extends PromptTemplateId>(id: K): PromptTemplate<K> {
+    return DEFAULT_PROMPT_TEMPLATES[id] as PromptTemplate<K>;
+  }
+
+  /**
+   * The active override of a template; null when none was saved or it was reset.
+   */
+  getOverride(id: PromptTemplateId): PromptOverride | null {
+    const override = this.items.find(item => item.templateId === id);
+    return override && !override.resetAt ? override : null;
+  }
+
+  /**
+   * True when the override was written against an older built-in version.
+   */
+  isOverrideOutdated(id: PromptTemplateId): boolean {
+    const override = this.getOverride(id);
+    return !!override && override.baseVersion < this.getDefault(id).version;
+  }
+
+  getStamp(id: PromptTemplateId): PromptStamp {
+    const base = this.getDefault(id);
+    const override = this.getOverride(id);
+    return {
+      templateId: id,
+      version: override ? `${override.baseVersion}+custom.${override.revision}` : `${base.version}`
+    };
+  }
+
+  /**
+   * Renders the active version of a template (the override when one exists).
+   * Call init() first so that persisted overrides are loaded.
+   */
+  render<K extends PromptTemplateId>(id: K, variables: PromptVariables[K]): RenderedPrompt {
+    const messages = this.getOverride(id)?.messages || this.getDefault(id).messages;
+    const values = variables as unknown as Record<string, string>;
+
+    return {
+      messages: messages.map(message => ({ ...message, content: fillPlaceholders(message.content, values) })),
+      stamp: this.getStamp(id)
+    };
+  }
+
+  async saveOverride(id: PromptTemplateId, messages: AIMessage[]): Promise<PromptOverride> {
+    await this.init();
+
+    // Continues from the last revision, including one that was reset
+    const previous = this.items.find(item => item.templateId === id);
+    const override: PromptOverride = {
+      templateId: id,
+      baseVersion: this.getDefault(id).version,
+      revision: (previous?.revision || 0) + 1,
+      messages,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.items = [...this.items.filter(item => item.templateId !== id), override];
+    this.notify();
+    await this.persist([override]);
+    return override;
+  }
+
+  async resetOverride(id: PromptTemplateId): Promise<void> {
+    await this.init();
+
+    const override = this.getOverride(id);
+    if (!override) return;
+
+    const reset = { ...override, resetAt: new Date().toISOString() };
+    this.items = this.items.map(item => item.templateId === id ? reset : item);
+    this.notify();
+    await this.persist([reset]);
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,473 @@
+/**
+ * DEFAULT PROMPT TEMPLATES
+ * Built-in versions of every generation prompt. Placeholders such as {title}
+ * are filled by the prompt registry; bump the version whenever a template changes
+ */
+
+import { PromptTemplate, PromptTemplateId } from './promptRegistry';
+
+export const DEFAULT_PROMPT_TEMPLATES: { [K in PromptTemplateId]: PromptTemplate<K> } = {
+  pillarPage: {
+    id: 'pillarPage',
+    name: 'Strategist Pillar Page',
+    description: 'Pillar page for a content cluster',
+    version: 2,
+    variables: ['title'],
+    messages: [
+      {
+        role: 'user',
+        content: `🚨 MISSION CRITICAL DIRECTIVE 🚨
+You are tasked with creating the DEFINITIVE pillar page that will DOMINATE search results and become the #1 resource in its field.
+
+CRITICAL PRE-GENERATION CHECKLIST:
+□ Will this content shock readers with an opening statistic?
+□ Will this be 2,500+ words of pure value?
+□ Will every semantic keyword be strategically placed?
+□ Will readers finish thinking "This is the BEST content I've ever read on this topic"?
+□ Will this answer EVERY People Also Ask question perfectly?
+
+TARGET PILLAR PAGE: {title}
+
+🔥 UNBREAKABLE LAWS OF CONTENT CREATION 🔥
+
+LAW #1: THE NUCLEAR HOOK MANDATE
+- MUST start with a statistic so shocking it makes readers say "HOLY SHIT!"
+- MUST be 100% fact-checked and verifiable
+- MUST create instant emotional connection through storytelling
+- MUST promise specific, measurable outcomes readers will achieve
+- Introduction MUST be 400-500 words minimum
+
+LAW #2: THE WORD COUNT COMMANDMENT
+- ABSOLUTE MINIMUM: 2,500 words (aim for 3,000-4,000)
+- Every word must deliver value - NO FLUFF ALLOWED
+- Must feel comprehensive, not padded
+- Quality AND quantity - both are NON-NEGOTIABLE
+
+LAW #3: SEMANTIC KEYWORD SUPREMACY
+- 100% KEYWORD INTEGRATION - Every related term MUST appear
+- LSI keywords woven naturally (never forced or awkward)
+- Topic clusters and semantic relationships exploited fully
+- Primary keyword density: 1-2% (measure this!)
+- Long-tail variations strategically distributed
+- Industry jargon and terminology included appropriately
+
+LAW #4: PAA DUAL-LOCATION DOMINATION
+   MANDATORY People Also Ask questions to answer (BOTH in dedicated FAQ AND woven throughout):
+   - What is [topic] and why is it important?
+   - How do you get started with [topic]?
+   - What are the benefits of [topic]?
+   - What are common mistakes to avoid with [topic]?
+   - How long does [topic] take to master?
+   - What tools are needed for [topic]?
+   - How much does [topic] cost?
+   - What are alternatives to [topic]?
+   - Is [topic] right for beginners?
+   - How do you measure success with [topic]?
+   - What are the latest trends in [topic]?
+   - How has [topic] changed over time?
+   
+   CRITICAL: Each question must be answered TWICE:
+   1. Naturally integrated within relevant sections
+   2. Explicitly in a comprehensive FAQ section
+
+LAW #5: SUPREME READABILITY ENFORCEMENT
+   - Grade 8-10 reading level (use Hemingway principles)
+   - Paragraphs: 2-3 sentences MAXIMUM
+   - Subheadings every 200-300 words (no exceptions)
+   - Transition phrases between ALL sections
+   - Active voice dominance (80%+ active voice)
+   - Varied sentence lengths for rhythm
+   - Zero jargon without explanation
+
+LAW #6: STRUCTURAL PERFECTION MANDATE
+   - Table of contents
+   - 10-15 main sections with laser-focused insights
+   - Real examples and case studies
+   - Approved author quotes and credible, citable sources
+   - Comprehensive FAQ section (PAA questions)
+   - Step-by-step tutorials
+   - Balanced pros/cons analysis
+   - Strong conclusion with next steps
+   - Internal linking opportunities clearly marked
+
+LAW #7: ENGAGEMENT MAXIMIZATION PROTOCOL
+   - "Pro Tips" and "Expert Insights" callouts
+   - Warning boxes for common mistakes
+   - Action items concluding EVERY section
+   - Power words and emotional triggers throughout
+   - Numbered/bulleted lists for scannability
+   - Relevant analogies and metaphors
+   - "What This Means For You" sections
+
+LAW #8: E-E-A-T AUTHORITY ESTABLISHMENT
+   - First-person experience ONLY from the AUTHOR FACTS provided
+   - Approved quotes from the AUTHOR FACTS (never invented)
+   - Credible sources and citations
+   - Balanced, nuanced analysis
+   - Real, verifiable case studies and examples
+   - Author credentials where relevant
+
+🎯 MISSION SUCCESS CRITERIA:
+- Reader thinks: "This is the BEST content on this topic I've EVER read"
+- Covers everything competitors discuss + 50% more unique insights
+- Answers every possible question a reader might have
+- Provides actionable value in every section
+- Becomes the definitive bookmark-worthy resource
+
+FINAL DIRECTIVE: Return ONLY the complete HTML content that will CRUSH all competition and establish absolute topical authority. NO meta tags, titles, or WordPress markup - just pure, dominant content.`
+      }
+    ]
+  },
+
+  clusterArticle: {
+    id: 'clusterArticle',
+    name: 'Strategist Cluster Article',
+    description: 'Supporting article for a content cluster',
+    version: 2,
+    variables: ['title', 'pillarTitle', 'keywords'],
+    messages: [
+      {
+        role: 'user',
+        content: `CLUSTER ARTICLE GENERATION - PREMIUM QUALITY:
+
+Article: {title}
+Supporting Pillar: {pillarTitle}
+Target Keywords: {keywords}
+
+MISSION: Create a comprehensive supporting article that perfectly complements the pillar page.
+
+CRITICAL REQUIREMENTS:
+
+1. ENGAGING OPENER:
+   - Start with a surprising, fact-checked statistic
+   - Connect to the pillar page topic naturally
+   - Promise specific value readers will gain
+
+2. OPTIMAL LENGTH: 1500-2500 words
+
+3. SEMANTIC KEYWORD STRATEGY:
+   - Focus on long-tail variations of pillar keywords
+   - Include semantic keywords and LSI terms
+   - Use related terminology strategically
+   - Reference pillar page topic naturally
+
+4. PEOPLE ALSO ASK COVERAGE:
+   Answer relevant PAA questions for this specific subtopic:
+   - How does [article topic] relate to [pillar topic]?
+   - What are the best practices for [article topic]?
+   - What mistakes should you avoid with [article topic]?
+   - How do you implement [article topic] effectively?
+   - When should you use [article topic]?
+   - What tools help with [article topic]?
+
+5. SUPPORTING STRUCTURE:
+   - Clear introduction linking to pillar concept
+   - 5-8 main sections with deep dives
+   - Practical examples and case studies
+   - Expert insights and approved author quotes
+   - FAQ section for subtopic
+   - Clear internal linking opportunities to pillar page
+
+6. E-E-A-T SIGNALS:
+   - First-hand experience from the AUTHOR FACTS only
+   - Expert authority establishment
+   - Balanced analysis with pros/cons
+   - Credible sources and citations
+
+7. READABILITY:
+   - Grade 8-10 reading level
+   - Scannable format with subheadings
+   - Short paragraphs and clear transitions
+   - Actionable takeaways in each section
+
+Return complete HTML content optimized for search rankings and reader engagement.`
+      }
+    ]
+  },
+
+  quantumPillar: {
+    id: 'quantumPillar',
+    name: 'Bulk Pillar Rewrite',
+    description: 'Bulk job: turn an existing post into a pillar post',
+    version: 1,
+    variables: ['url', 'title', 'excerpt', 'competitorInsights'],
+    messages: [
+      {
+        role: 'system',
+        content: `PREMIUM PILLAR CONTENT GENERATION PROTOCOL
+
+You are an expert content strategist creating premium WordPress pillar posts. Your content must be:
+1. PERFECTLY FORMATTED for WordPress - clean HTML that won't break layouts
+2. SEO-optimized with proper heading structure (H2, H3, H4)
+3. Engaging, comprehensive, and authoritative
+4. 2500+ words minimum
+5. Professional and publication-ready
+
+CRITICAL FORMATTING REQUIREMENTS:
+- Use semantic HTML tags: <h2>, <h3>, <h4>, <p>, <ul>, <ol>, <li>, <strong>, <em>
+- NO custom CSS classes or inline styles
+- NO JavaScript or dynamic content
+- Proper paragraph breaks with <p> tags
+- Lists must use <ul><li> or <ol><li> structure
+- Headings must follow hierarchy (H2 → H3 → H4)
+- Use <strong> for emphasis, <em> for italics
+- Include relevant internal linking opportunities with <a> tags
+
+CONTENT STRUCTURE REQUIREMENTS:
+1. Compelling introduction (200-300 words)
+2. Table of contents (if over 2000 words)
+3. 6-10 main sections with descriptive H2 headings
+4. Subsections with H3/H4 headings as needed
+5. FAQ section with common questions
+6. Conclusion with next steps
+7. Throughout: bullet points, numbered lists, and scannable formatting`
+      },
+      {
+        role: 'user',
+        content: `WORDPRESS FORMATTING GUIDELINES:
+
+OUTPUT FORMAT: Return ONLY clean HTML content - no JSON, no metadata, just the article HTML.
+
+CRITICAL: The HTML must be WordPress-compatible:
+- Clean semantic HTML only
+- No custom CSS classes or IDs  
+- No inline styles or JavaScript
+- Use standard HTML tags: h2, h3, h4, p, ul, ol, li, strong, em, a
+- Proper heading hierarchy starting with H2 (no H1 - WordPress handles that)
+- Use <p> tags for all paragraphs
+- Use <ul> and <ol> for lists with proper <li> items
+
+CONTENT REQUIREMENTS:
+- 2500+ words minimum
+- Engaging, comprehensive, authoritative
+- SEO-optimized with natural keyword usage
+- Scannable with lists, headers, and short paragraphs
+- Include FAQ section with common questions
+- Professional tone suitable for publication
+
+STRUCTURE EXAMPLE:
+<h2>Introduction Section</h2>
+<p>Opening paragraph content...</p>
+
+<h2>Main Topic Section</h2>
+<p>Section content...</p>
+<h3>Subsection</h3>
+<ul>
+<li>Bullet point one</li>
+<li>Bullet point two</li>
+</ul>
+
+<h2>Frequently Asked Questions</h2>
+<h3>Question 1?</h3>
+<p>Answer to question 1...</p>`
+      },
+      {
+        role: 'user',
+        content: `GENERATE PREMIUM PILLAR CONTENT FOR:
+
+URL: {url}
+Title: {title}
+Content Preview: {excerpt}
+
+🔍 COMPETITOR INTELLIGENCE:
+{competitorInsights}
+
+Create the ultimate pillar post that:
+1. Completely covers the topic comprehensively
+2. Uses proper WordPress-compatible HTML formatting
+3. Is engaging and authoritative
+4. Includes practical, actionable advice
+5. Has a clear structure with proper headings
+6. Contains 2500+ words of valuable content
+
+Return ONLY the HTML content - no JSON, no metadata, just clean HTML ready for WordPress.`
+      }
+    ]
+  },
+
+  premiumRewrite: {
+    id: 'premiumRewrite',
+    name: 'Bulk Optimize Rewrite',
+    description: 'Bulk job: upgrade an existing post',
+    version: 2,
+    variables: ['url', 'title', 'excerpt', 'competitorInsights'],
+    messages: [
+      {
+        role: 'system',
+        content: `You are a world-class content strategist and domain expert with 20+ years of experience creating viral, engaging content. Your articles consistently rank #1 on Google, have 90%+ engagement rates, and are cited by industry leaders. You excel at transforming complex topics into compelling, easy-to-understand content that delivers massive value to readers.`
+      },
+      {
+        role: 'developer',
+        content: `CRITICAL REQUIREMENTS - MUST FOLLOW ALL:
+
+        CONTENT QUALITY & LENGTH:
+        - Minimum 2000 words (aim for 2500-3500 words)
+        - 10x higher quality than any competing content
+        - Grade 8-10 readability (use Hemingway Editor principles)
+        - Short paragraphs (2-3 sentences max)
+        - Scannable with clear subheadings every 200-300 words
+
+        INTRODUCTION REQUIREMENTS:
+        - Start with a jaw-dropping, fact-checked statistic that shocks readers
+        - Use storytelling elements to create emotional connection
+        - Promise specific, actionable outcomes the reader will achieve
+        - Include a compelling hook that makes scrolling irresistible
+
+        SEMANTIC KEYWORD INTEGRATION:
+        - Naturally weave semantic keywords throughout (LSI keywords, synonyms, related terms)
+        - Use topic clusters and semantic relationships
+        - Include industry-specific terminology and jargon appropriately
+        - Maintain keyword density of 1-2% for primary keywords
+
+        PEOPLE ALSO ASK (PAA) INTEGRATION:
+        - Research and include 8-12 People Also Ask questions for the topic
+        - Answer each PAA question comprehensively within the content
+        - Format as dedicated FAQ section AND weave answers throughout
+        - Use question-based subheadings where natural
+
+        STRUCTURE & E-E-A-T:
+        1. Compelling headline with power words
+        2. Shocking statistic + engaging introduction (300+ words)
+        3. Table of contents for long-form content
+        4. 7-12 main sections with actionable insights
+        5. Real examples, verifiable case studies, and first-hand experience from the AUTHOR FACTS
+        6. Comprehensive FAQ section (People Also Ask)
+        7. Approved author quotes and credible sources
+        8. Pros/cons analysis with balanced perspective
+        9. Step-by-step tutorials with screenshots/examples
+        10. Strong conclusion with clear next steps
+
+        ENGAGEMENT & READABILITY:
+        - Use power words and emotional triggers
+        - Include numbered/bulleted lists frequently
+        - Add "Pro Tips," "Warning,\" and "Expert Insight\" callout boxes
+        - Use transition phrases between sections
+        - Include relevant analogies and metaphors
+        - End each section with a takeaway or action item`
+      },
+      {
+        role: 'user',
+        content: `CONTENT UPGRADE MISSION:
+
+URL: {url}
+Original Title: {title}
+Current Content Preview: """{excerpt}"""
+
+COMPETITOR ANALYSIS:
+{competitorInsights}
+
+MISSION: Transform this into the DEFINITIVE, most comprehensive resource on this topic that:
+
+1. SHOCKING OPENER: Start with a mind-blowing, fact-checked statistic that makes readers think "I had no idea!"
+
+2. SEMANTIC MASTERY: Strategically incorporate ALL related semantic keywords, synonyms, and LSI terms naturally throughout the content
+
+3. PAA DOMINATION: Research and answer these People Also Ask questions within the content:
+   - What is [main topic] and why does it matter?
+   - How do beginners get started with [topic]?
+   - What are the most common mistakes with [topic]?
+   - How long does it take to see results from [topic]?
+   - What tools/resources are needed for [topic]?
+   - How much does [topic] cost?
+   - Is [topic] worth it for [specific audience]?
+   - What are alternatives to [topic]?
+
+4. AUTHORITY BUILDING: Include approved author quotes, citable studies, and credible sources
+
+5. EXPERIENCE SIGNALS: Add first-person insights and lessons learned only from the AUTHOR FACTS, plus real examples
+
+6. COMPREHENSIVE COVERAGE: Cover every angle competitors miss, go 3x deeper than existing content
+
+7. ACTIONABLE VALUE: Every section must include specific, implementable advice
+
+CONTENT REQUIREMENTS:
+- Minimum 2000 words, targeting 2500-3500 words
+- Grade 8-10 readability with short paragraphs
+- Scannable format with clear subheadings
+- FAQ section answering People Also Ask questions
+- Expert-level insights with balanced analysis
+- Strong E-E-A-T signals throughout
+
+Return only the complete HTML content for the post body (no meta tags, titles, or WordPress-specific markup).`
+      }
+    ]
+  },
+
+  humanPillar: {
+    id: 'humanPillar',
+    name: 'Human-Voice Pillar Post',
+    description: 'Existing Content Hub: pillar post with internal links',
+    version: 2,
+    variables: ['url', 'title', 'internalLinks'],
+    messages: [
+      {
+        role: 'user',
+        content: `🎯 CRITICAL MISSION: WRITE THE MOST VALUABLE, HUMAN-SOUNDING PILLAR POST EVER CREATED
+
+You write on behalf of the real author described in the AUTHOR FACTS. Your writing is so human, engaging, and valuable that readers bookmark it instantly and share it widely.
+
+TARGET URL: {url}
+POST TITLE: {title}
+
+🔥 ULTRA-CRITICAL REQUIREMENTS (FAILURE IS NOT AN OPTION):
+
+1. 1000000% HUMAN-WRITTEN CONTENT (NEVER SOUND LIKE AI):
+   - Write like you're personally teaching your best friend
+   - Share real stories ONLY from the author's verified experience notes
+   - Express genuine opinions and perspective on the topic
+   - Use natural, conversational language
+
+2. ULTRA-PREMIUM CONTENT STRUCTURE (3500+ WORDS):
+   - MIND-BLOWING opener: Start with a verifiable statistic or a story from the author's verified experience
+   - 10-15 main sections with deep, actionable insights
+   - Case studies only where they are real and verifiable
+   - Contrarian viewpoints: Challenge popular beliefs with sound reasoning
+   - Comprehensive FAQ with honest, practical answers
+   - Strong conclusion with personal recommendations and next steps
+
+3. ADVANCED INTERNAL LINKING SYSTEM (8-12 HIGH-QUALITY LINKS):
+   Available internal links: {internalLinks}
+   
+   LINKING REQUIREMENTS:
+   - Use RICH anchor text: "proven SEO strategies that actually work", "comprehensive guide to content marketing"
+   - Natural integration within sentences that already make a point
+   - Value-driven placement: Only link where it genuinely helps the reader
+   - Contextual relevance: Link to related topics that support your points
+   - MUST include 8-12 internal links minimum using rich anchor text
+   
+4. CRITICAL THINKING & EXPERIENCE INTEGRATION:
+   - Challenge conventional wisdom with clear reasoning
+   - Provide nuanced perspectives: explain when advice does and does not apply
+   - Question popular advice and show what happens in practice
+   - Tie first-person experience strictly to the author's verified experience notes
+
+5. AUTHENTICITY WITHOUT FABRICATION:
+   - Credentials and experience come only from the AUTHOR FACTS
+   - Quotes come only from the approved quotes list
+   - Never invent clients, dollar amounts, timelines or personal failures
+
+6. PERFECT WORDPRESS FORMATTING (NEVER BREAK LAYOUTS):
+   - ONLY semantic HTML: <h2>, <h3>, <h4>, <p>, <ul>, <ol>, <li>, <strong>, <em>, <a>
+   - ZERO custom CSS classes, inline styles, or JavaScript
+   - Proper heading hierarchy (H2 → H3 → H4)
+   - Short, scannable paragraphs (2-3 sentences maximum)
+   - Scannable with lists and subheadings
+   - Clean, professional HTML that publishes perfectly
+
+7. EXTREME VALUE & READABILITY:
+   - Every paragraph must teach something valuable
+   - Use simple words and short sentences (grade 8-10 reading level)
+   - Include actionable takeaways in every section
+   - Provide step-by-step guidance with real examples
+   - End each section with "What this means for you:" practical applications
+
+🎯 ULTIMATE GOAL: Create content so valuable, human, and engaging that readers:
+- Bookmark it immediately
+- Share it with colleagues
+- Reference it months later
+- Feel like they're learning from a trusted mentor
+- Take immediate action based on your advice`
+      }
+    ]
+  }
+};
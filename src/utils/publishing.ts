@@ -0,0 +1,351 @@
+/**
+ * PUBLISHING MODES & SCHEDULE QUEUE
+ * Writes generated content to WordPress as a draft revision, pending review,
+ * a scheduled post or a live update, and spreads scheduled publications over
+ * a cadence. Also creates new posts for generated articles, updating the
+ * post from an earlier run instead of duplicating it. The queue is persisted
+ * one record per publication.
+ */
+
+import { PublishMode, PublishSettings, ScheduledPublication, ScheduledUpdate } from '../types';
+import { PersistedStore } from './persistedStore';
+import { extractJSON } from './structuredOutput';
+import { assertPostUnchanged, BackupTarget, contentBackups } from './contentBackups';
+import { POSTS_ROUTE, WordPressClient, WordPressError, WPPostInput, WPPostObject, WPStatus } from './wordpressClient';
+
+export const PUBLISH_MODES: Record<PublishMode, { label: string; description: string }> = {
+  draft: {
+    label: 'Draft revision',
+    description: 'Saves a revision for review; the live post is not changed'
+  },
+  pending: {
+    label: 'Pending review',
+    description: 'Updates the post and sets it to Pending; a published post goes offline until approved'
+  },
+  schedule: {
+    label: 'Scheduled',
+    description: 'Publishes at the next slot in the queue. A live post stays online: its update is saved as an autosave and applied at the slot while this app is open, or the next time it is opened'
+  },
+  publish: {
+    label: 'Publish now',
+    description: 'Updates the live post immediately'
+  }
+};
+
+export const DEFAULT_PUBLISH_SETTINGS: PublishSettings = {
+  mode: 'draft',
+  cadenceHours: 24
+};
+
+const QUEUE_CACHE_KEY = 'publish_schedule';
+
+export interface PublishTarget extends BackupTarget {
+  /** modified_gmt of the version the rewrite was based on; enables the conflict check */
+  baseModifiedGmt?: string;
+}
+
+export interface PublishResult {
+  mode: PublishMode;
+  postId: number;
+  scheduledFor?: string;
+  /** Snapshot of the post taken before it was overwritten */
+  snapshotId: string;
+  /** For a live post in "schedule" mode: the update to queue; the post itself was not changed */
+  deferredUpdate?: ScheduledUpdate;
+}
+
+/**
+ * Checks the post has not changed since the rewrite's base version, snapshots
+ * it, then writes content to it according to the publish mode. Scheduling a
+ * live post only saves an autosave and returns the update for the queue,
+ * since status "future" would take the post offline until the slot.
+ * @throws {EditConflictError} When the post was edited in the meantime.
+ * @param scheduledFor Required for the "schedule" mode.
+ * @param fields Extra post fields (title, meta, ...) written alongside the content.
+ */
+export const publishContent = async (
+  client: WordPressClient,
+  target: PublishTarget,
+  content: string,
+  mode: PublishMode,
+  scheduledFor?: Date,
+  fields: WPPostInput = {}
+): Promise<PublishResult> => {
+  const input: WPPostInput = { ...fields, content };
+
+  const current = target.baseModifiedGmt
+    ? await assertPostUnchanged(client, target, target.baseModifiedGmt, ['status'])
+    : mode === 'schedule'
+      ? await client.getItem(target.restRoute, target.id, { context: 'edit', fields: ['modified_gmt', 'status'] })
+      : null;
+
+  const snapshot = await contentBackups.snapshot(client, target);
+  const snapshotId = snapshot.id;
+  // Records the version a write produced; autosaves leave the post at the snapshot's version
+  const written = (saved?: WPPostObject) => contentBackups.recordWrite(snapshotId, saved?.modified_gmt ?? snapshot.modifiedGmt);
+
+  switch (mode) {
+    case 'draft': {
+      // Autosaves only hold title, content and excerpt; meta, terms or a featured image would change the live post
+      const autosave: WPPostInput = { title: input.title, content: input.content, excerpt: input.excerpt };
+      await client.createAutosave(target.restRoute, target.id, autosave);
+      await written();
+      return { mode, postId: target.id, snapshotId };
+    }
+
+    case 'pending':
+      await written(await client.updateItem(target.restRoute, target.id, { ...input, status: 'pending' }));
+      return { mode, postId: target.id, snapshotId };
+
+    case 'schedule': {
+      if (!scheduledFor) {
+        throw new Error('A scheduled publication needs a date');
+      }
+      if (current?.status === 'publish') {
+        // Keep the live post online; the queue applies the update at the slot
+        await client.createAutosave(target.restRoute, target.id, { title: input.title, content: input.content, excerpt: input.excerpt });
+        await written();
+        return {
+          mode,
+          postId: target.id,
+          scheduledFor: scheduledFor.toISOString(),
+          snapshotId,
+          deferredUpdate: { content, fields, baseModifiedGmt: current.modified_gmt }
+        };
+      }
+      // WordPress expects GMT dates without a zone suffix
+      const dateGmt = scheduledFor.toISOString().slice(0, 19);
+      await written(await client.updateItem(target.restRoute, target.id, { ...input, status: 'future', date_gmt: dateGmt }));
+      return { mode, postId: target.id, scheduledFor: scheduledFor.toISOString(), snapshotId };
+    }
+
+    case 'publish':
+      await written(await client.updateItem(target.restRoute, target.id, { ...input, status: 'publish' }));
+      return { mode, postId: target.id, snapshotId };
+  }
+};
+
+/**
+ * Appends JSON-LD to post content as a script tag. Schema output that is not
+ * JSON is left out. WordPress only keeps the tag for users allowed to post
+ * unfiltered HTML.
+ */
+export const appendSchemaScript = (html: string, schemaText?: string): string => {
+  if (!schemaText) return html;
+  try {
+    const json = JSON.stringify(extractJSON(schemaText)).replace(/</g, '\\u003c');
+    return `${html.trimEnd()}\n<script type="application/ld+json">${json}</script>`;
+  } catch {
+    console.warn('[Publishing] Schema output is not JSON; not added to the post');
+    return html;
+  }
+};
+
+export interface NewPostInput {
+  /** Post created by an earlier run; it is updated instead of creating a duplicate */
+  postId?: number;
+  title: string;
+  slug: string;
+  content: string;
+  /** Extra post fields: excerpt, meta, categories, ... */
+  fields?: WPPostInput;
+  jobId?: string;
+}
+
+export interface SavePostResult {
+  postId: number;
+  link: string;
+  created: boolean;
+  scheduledFor?: string;
+  /** Update the queue must apply at the slot, when the post was already live */
+  deferredUpdate?: ScheduledUpdate;
+}
+
+const NEW_POST_STATUSES: Record<PublishMode, WPStatus> = {
+  draft: 'draft',
+  pending: 'pending',
+  schedule: 'future',
+  publish: 'publish'
+};
+
+/**
+ * Finds the post an earlier run created by the id stored for it. Posts are
+ * never matched by slug, as a post with that slug may be one the tool did not
+ * write; a new post gets a unique slug from WordPress instead. Trashed and
+ * deleted posts count as gone.
+ */
+const findSavedPost = async (client: WordPressClient, post: NewPostInput): Promise<WPPostObject | null> => {
+  if (!post.postId) return null;
+  try {
+    const item = await client.getItem(POSTS_ROUTE, post.postId, { context: 'edit', fields: ['id', 'link', 'status'] });
+    return item.status !== 'trash' ? item : null;
+  } catch (error) {
+    if (error instanceof WordPressError && error.kind === 'notFound') return null;
+    throw error;
+  }
+};
+
+/**
+ * Creates a new post for generated content in the given publish mode, or
+ * updates the post from an earlier run. A post that is already live goes
+ * through publishContent, so it is snapshotted and "draft" does not take it
+ * offline.
+ * @param scheduledFor Required for the "schedule" mode.
+ */
+export const savePost = async (
+  client: WordPressClient,
+  post: NewPostInput,
+  mode: PublishMode,
+  scheduledFor?: Date
+): Promise<SavePostResult> => {
+  const fields: WPPostInput = { ...post.fields, title: post.title, slug: post.slug };
+  const existing = await findSavedPost(client, post);
+
+  if (existing?.status === 'publish') {
+    const result = await publishContent(
+      client,
+      { id: existing.id, restRoute: POSTS_ROUTE, url: existing.link, jobId: post.jobId },
+      post.content,
+      mode,
+      scheduledFor,
+      fields
+    );
+    return {
+      postId: existing.id,
+      link: existing.link,
+      created: false,
+      scheduledFor: result.scheduledFor,
+      deferredUpdate: result.deferredUpdate
+    };
+  }
+
+  const input: WPPostInput = { ...fields, content: post.content, status: NEW_POST_STATUSES[mode] };
+  if (mode === 'schedule') {
+    if (!scheduledFor) {
+      throw new Error('A scheduled publication needs a date');
+    }
+    input.date_gmt = scheduledFor.toISOString().slice(0, 19);
+  }
+
+  const snapshot = existing
+    ? await contentBackups.snapshot(client, { id: existing.id, restRoute: POSTS_ROUTE, url: existing.link, jobId: post.jobId })
+    : null;
+  const saved = existing
+    ? await client.updateItem(POSTS_ROUTE, existing.id, input)
+    : await client.createItem(POSTS_ROUTE, input);
+  if (snapshot) {
+    await contentBackups.recordWrite(snapshot.id, saved.modified_gmt);
+  }
+
+  return {
+    postId: saved.id,
+    link: saved.link,
+    created: !existing,
+    scheduledFor: mode === 'schedule' ? scheduledFor!.toISOString() : undefined
+  };
+};
+
+class PublishScheduleQueue extends PersistedStore<ScheduledPublication> {
+  // Updates being applied in this tab, so overlapping runs do not apply one twice
+  private applying = new Set<string>();
+
+  constructor() {
+    super('publishSchedule', 'PublishSchedule', QUEUE_CACHE_KEY);
+  }
+
+  protected keyOf(entry: ScheduledPublication): string {
+    return entry.id;
+  }
+
+  /**
+   * Publications that have not gone live yet, soonest first.
+   */
+  upcoming(): ScheduledPublication[] {
+    const now = Date.now();
+    return this.items
+      .filter(entry => new Date(entry.scheduledFor).getTime() > now)
+      .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  }
+
+  /**
+   * Held updates whose slot has passed but that could not be applied.
+   */
+  failed(): ScheduledPublication[] {
+    return this.items.filter(entry => entry.update && entry.error);
+  }
+
+  /**
+   * Plans the next publication slots: one cadence after the last queued
+   * publication, or from the requested start if that is later.
+   */
+  planSlots(count: number, settings: PublishSettings): Date[] {
+    const cadenceMs = Math.max(settings.cadenceHours, 0) * 60 * 60 * 1000;
+    const last = this.upcoming().pop();
+    const requested = settings.startAt ? new Date(settings.startAt).getTime() : 0;
+    const afterQueue = last
+      ? new Date(last.scheduledFor).getTime() + cadenceMs
+      : requested || Date.now() + cadenceMs;
+    const first = Math.max(afterQueue, requested);
+
+    return Array.from({ length: count }, (_, index) => new Date(first + index * cadenceMs));
+  }
+
+  async add(entry: Omit<ScheduledPublication, 'id'>): Promise<ScheduledPublication> {
+    await this.init();
+
+    const saved: ScheduledPublication = { ...entry, id: `sched_${Date.now()}_${entry.postId}` };
+    // A post has at most one pending publication; past ones without a held update are done
+    const now = Date.now();
+    const removed = this.items.filter(existing =>
+      existing.postId === entry.postId || (!existing.update && new Date(existing.scheduledFor).getTime() <= now)
+    );
+    this.items = [...this.items.filter(existing => !removed.includes(existing)), saved];
+    this.notify();
+    await this.persist([saved], removed.map(existing => existing.id));
+    return saved;
+  }
+
+  /**
+   * Applies the held updates of live posts whose slot has arrived. Applied
+   * updates leave the queue. Network and server failures are retried on the
+   * next run; any other failure, such as an edit conflict, stays in the queue
+   * with its error.
+   */
+  async applyDue(client: WordPressClient): Promise<void> {
+    await this.init();
+
+    const now = Date.now();
+    const due = this.items.filter(entry =>
+      entry.update && !entry.error && !this.applying.has(entry.id) && new Date(entry.scheduledFor).getTime() <= now
+    );
+
+    for (const entry of due) {
+      this.applying.add(entry.id);
+      try {
+        await publishContent(
+          client,
+          { id: entry.postId, restRoute: entry.restRoute, url: entry.url, jobId: entry.jobId, baseModifiedGmt: entry.update!.baseModifiedGmt },
+          entry.update!.content,
+          'publish',
+          undefined,
+          entry.update!.fields
+        );
+        this.items = this.items.filter(existing => existing.id !== entry.id);
+        this.notify();
+        await this.persist([], [entry.id]);
+      } catch (error) {
+        console.warn(`[PublishSchedule] Could not apply the scheduled update of ${entry.url}:`, error);
+        if (error instanceof WordPressError && ['network', 'serverError', 'rateLimit'].includes(error.kind)) continue;
+        const failed = { ...entry, error: error instanceof Error ? error.message : String(error) };
+        this.items = this.items.map(existing => existing.id === entry.id ? failed : existing);
+        this.notify();
+        await this.persist([failed]);
+      } finally {
+        this.applying.delete(entry.id);
+      }
+    }
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const publishSchedule = new PublishScheduleQueue();
@@ -0,0 +1,198 @@
+/**
+ * SEO PLUGIN META ADAPTERS
+ * Writes SEO title, meta description, focus keyword, canonical and robots flags
+ * through the post meta of Yoast, Rank Math or SEOPress, whichever is active,
+ * and drafts the title and description with the AI
+ */
+
+import { AIMessage, SeoMeta, SeoPlugin } from '../types';
+import { generateStructured, Schema } from './structuredOutput';
+import { WordPressClient, WPPostObject } from './wordpressClient';
+
+interface SeoMetaAdapter {
+  name: string;
+  /** REST namespace the plugin registers, used for detection */
+  namespace: string;
+  toMeta: (seo: SeoMeta) => Record<string, any>;
+}
+
+const defined = (fields: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+export const SEO_ADAPTERS: Record<SeoPlugin, SeoMetaAdapter> = {
+  yoast: {
+    name: 'Yoast SEO',
+    namespace: 'yoast/v1',
+    toMeta: (seo) => defined({
+      _yoast_wpseo_title: seo.title,
+      _yoast_wpseo_metadesc: seo.description,
+      _yoast_wpseo_focuskw: seo.focusKeyword,
+      _yoast_wpseo_canonical: seo.canonical,
+      // Yoast: "1" = noindex, "2" = index; "1" = nofollow, "0" = follow
+      '_yoast_wpseo_meta-robots-noindex': seo.noindex === undefined ? undefined : seo.noindex ? '1' : '2',
+      '_yoast_wpseo_meta-robots-nofollow': seo.nofollow === undefined ? undefined : seo.nofollow ? '1' : '0'
+    })
+  },
+  rankmath: {
+    name: 'Rank Math',
+    namespace: 'rankmath/v1',
+    toMeta: (seo) => defined({
+      rank_math_title: seo.title,
+      rank_math_description: seo.description,
+      rank_math_focus_keyword: seo.focusKeyword,
+      rank_math_canonical_url: seo.canonical,
+      rank_math_robots: seo.noindex === undefined && seo.nofollow === undefined
+        ? undefined
+        : [seo.noindex ? 'noindex' : 'index', seo.nofollow ? 'nofollow' : 'follow']
+    })
+  },
+  seopress: {
+    name: 'SEOPress',
+    namespace: 'seopress/v1',
+    toMeta: (seo) => defined({
+      _seopress_titles_title: seo.title,
+      _seopress_titles_desc: seo.description,
+      _seopress_analysis_target_kw: seo.focusKeyword,
+      _seopress_robots_canonical: seo.canonical,
+      // SEOPress stores "yes" to switch indexing or following off
+      _seopress_robots_index: seo.noindex === undefined ? undefined : seo.noindex ? 'yes' : '',
+      _seopress_robots_follow: seo.nofollow === undefined ? undefined : seo.nofollow ? 'yes' : ''
+    })
+  }
+};
+
+const pluginCache = new Map<string, Promise<SeoPlugin | null>>();
+
+/**
+ * Finds the active SEO plugin from the namespaces in the REST index.
+ * Cached per site.
+ */
+export const detectSeoPlugin = (client: WordPressClient): Promise<SeoPlugin | null> => {
+  const cached = pluginCache.get(client.baseUrl);
+  if (cached) return cached;
+
+  const detected = client.getSiteIndex()
+    .then(({ namespaces = [] }) =>
+      (Object.keys(SEO_ADAPTERS) as SeoPlugin[]).find(plugin => namespaces.includes(SEO_ADAPTERS[plugin].namespace)) || null
+    )
+    .catch((error) => {
+      console.warn('[SeoMeta] Could not read the REST index to detect the SEO plugin:', error);
+      pluginCache.delete(client.baseUrl);
+      return null;
+    });
+
+  pluginCache.set(client.baseUrl, detected);
+  return detected;
+};
+
+export interface PreparedSeoMeta {
+  plugin: SeoPlugin | null;
+  meta: Record<string, any>;
+  /** Keys the site does not expose over REST; WordPress would silently drop them */
+  unregistered: string[];
+}
+
+const metaSchemaCache = new Map<string, Promise<Set<string>>>();
+
+/**
+ * Meta keys a route registers for REST, from its OPTIONS schema. Cached per
+ * site and route.
+ */
+const registeredMetaKeys = (client: WordPressClient, restRoute: string): Promise<Set<string>> => {
+  const cacheKey = `${client.baseUrl}|${restRoute}`;
+  const cached = metaSchemaCache.get(cacheKey);
+  if (cached) return cached;
+
+  const keys = client.getRouteSchema(restRoute)
+    .then(schema => new Set(Object.keys(schema?.properties?.meta?.properties || {})));
+  keys.catch(() => metaSchemaCache.delete(cacheKey));
+
+  metaSchemaCache.set(cacheKey, keys);
+  return keys;
+};
+
+/**
+ * Maps SEO fields to the active plugin's meta keys. Keys the target does not
+ * expose in its REST meta are left out and reported, since most SEO plugins
+ * only register their meta for REST when configured to. An existing post is
+ * checked against its own meta; a post that is yet to be created against the
+ * schema of its route.
+ */
+export const prepareSeoMeta = async (
+  client: WordPressClient,
+  seo: SeoMeta,
+  target: { id?: number; restRoute: string }
+): Promise<PreparedSeoMeta> => {
+  const plugin = await detectSeoPlugin(client);
+  if (!plugin) return { plugin: null, meta: {}, unregistered: [] };
+
+  const fields = SEO_ADAPTERS[plugin].toMeta(seo);
+  let registered: Set<string>;
+  if (target.id !== undefined) {
+    const item = await client.getItem<WPPostObject>(target.restRoute, target.id, { context: 'edit', fields: ['meta'] });
+    registered = new Set(Object.keys(item.meta && !Array.isArray(item.meta) ? item.meta : {}));
+  } else {
+    registered = await registeredMetaKeys(client, target.restRoute);
+  }
+
+  const unregistered = Object.keys(fields).filter(key => !registered.has(key));
+  if (unregistered.length > 0) {
+    console.warn(`[SeoMeta] ${SEO_ADAPTERS[plugin].name} meta not exposed over REST: ${unregistered.join(', ')}`);
+  }
+
+  return {
+    plugin,
+    meta: Object.fromEntries(Object.entries(fields).filter(([key]) => registered.has(key))),
+    unregistered
+  };
+};
+
+/**
+ * Warning shown when some SEO fields could not be written.
+ */
+export const describeUnregisteredSeoMeta = (prepared: PreparedSeoMeta): string | null =>
+  prepared.plugin && prepared.unregistered.length > 0
+    ? `${SEO_ADAPTERS[prepared.plugin].name} does not expose ${prepared.unregistered.join(', ')} over REST; those fields are skipped`
+    : null;
+
+export const SEO_TITLE_MAX = 60;
+export const META_DESCRIPTION_MAX = 160;
+
+const SEO_META_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    seoTitle: { type: 'string', minLength: 10, maxLength: SEO_TITLE_MAX },
+    metaDescription: { type: 'string', minLength: 50, maxLength: META_DESCRIPTION_MAX }
+  },
+  required: ['seoTitle', 'metaDescription']
+};
+
+/**
+ * Asks the AI for an SEO title and meta description for an article.
+ * @param call Sends the conversation to the AI and resolves to its text.
+ */
+export const draftSeoMeta = async (
+  article: { title: string; html: string; focusKeyword?: string },
+  call: (messages: AIMessage[]) => Promise<string>
+): Promise<Pick<SeoMeta, 'title' | 'description'>> => {
+  const excerpt = article.html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 3000);
+  const prompt = `
+      Write the search result title and meta description for this article.
+      Article title: "${article.title}"
+      ${article.focusKeyword ? `Focus keyword: ${article.focusKeyword} (use it naturally in both)` : ''}
+
+      - seoTitle: at most ${SEO_TITLE_MAX} characters, specific and compelling, no clickbait
+      - metaDescription: at most ${META_DESCRIPTION_MAX} characters, summarises what the reader will learn
+      - Only promise what the article actually covers
+
+      Article text:
+      ${excerpt}
+    `;
+
+  const payload = await generateStructured<{ seoTitle: string; metaDescription: string }>(
+    [{ role: 'user', content: prompt }],
+    SEO_META_SCHEMA,
+    call
+  );
+  return { title: payload.seoTitle.trim(), description: payload.metaDescription.trim() };
+};
@@ -0,0 +1,297 @@
+/**
+ * SITEMAP DISCOVERY
+ * Finds the content URLs a site lists in its XML sitemaps. Follows sitemap
+ * indexes into nested sitemaps, drops duplicate URLs, applies include and
+ * exclude rules and records which sitemap every URL came from. Progress is
+ * reported as events the UI can subscribe to.
+ */
+
+import { fetchWithProxies, retryWithBackoff } from './networkUtils';
+
+/** Root sitemaps tried in order when no path is given */
+export const DEFAULT_SITEMAP_PATHS = [
+  '/wp-sitemap.xml',
+  '/sitemap_index.xml',
+  '/sitemap.xml',
+  '/post-sitemap.xml',
+  '/page-sitemap.xml',
+  '/wp-sitemap-posts-post-1.xml',
+  '/wp-sitemap-posts-page-1.xml',
+  '/sitemap1.xml'
+];
+
+/** Path fragments of URLs that are never content: admin, assets, archives, feeds */
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '/wp-admin', '/wp-content', '/wp-includes', '/feed', '/comments',
+  '/author', '/category', '/tag', '/attachment', '/search',
+  '.xml', '.json', '.css', '.js', '.png', '.jpg', '.jpeg', '.gif',
+  '/page/', '/archives', '/sitemap'
+];
+
+const MAX_DEPTH = 3;
+const MAX_SITEMAPS = 500;
+
+export interface SitemapUrlRules {
+  /** When set, a URL must match one of these; strings match part of the path, regexes the full URL */
+  include?: Array<string | RegExp>;
+  /** Checked in addition to DEFAULT_EXCLUDE_PATTERNS */
+  exclude?: Array<string | RegExp>;
+}
+
+export interface DiscoveredUrl {
+  url: string;
+  /** lastmod from the sitemap, when it has one */
+  lastModified?: string;
+  /** Sitemap the URL was first found in; its name often carries the post type */
+  sitemapUrl: string;
+}
+
+/**
+ * One sitemap file that was fetched. URLs are counted as listed, added after
+ * dedup and rules, and skipped by the rules.
+ */
+export interface SitemapRecord {
+  url: string;
+  /** Sitemap index that listed this sitemap; absent for root sitemaps */
+  parentUrl?: string;
+  kind: 'index' | 'urlset' | 'failed';
+  listed: number;
+  added: number;
+  excluded: number;
+  error?: string;
+}
+
+export interface SitemapDiscoveryProgress {
+  sitemapsProcessed: number;
+  sitemapsQueued: number;
+  urlsFound: number;
+}
+
+export type SitemapDiscoveryEvent =
+  | { type: 'root'; sitemapUrl: string; progress: SitemapDiscoveryProgress }
+  | { type: 'sitemap'; record: SitemapRecord; progress: SitemapDiscoveryProgress }
+  | { type: 'done'; result: SitemapDiscoveryResult; progress: SitemapDiscoveryProgress };
+
+export interface SitemapDiscoveryResult {
+  /** Root sitemap the URLs were discovered from */
+  rootUrl: string;
+  urls: DiscoveredUrl[];
+  sitemaps: SitemapRecord[];
+}
+
+export interface SitemapDiscoveryOptions {
+  /** Root sitemap paths or URLs; tried in order until one lists content */
+  paths?: string[];
+  rules?: SitemapUrlRules;
+  /** Sitemaps fetched at the same time */
+  concurrency?: number;
+  onEvent?: (event: SitemapDiscoveryEvent) => void;
+}
+
+/**
+ * Raised when none of the root sitemaps lists any content URL.
+ */
+export class SitemapDiscoveryError extends Error {
+  constructor(public tried: string[], public sitemaps: SitemapRecord[]) {
+    super(`No content found in any sitemap. Tried: ${tried.join(', ')}`);
+    this.name = 'SitemapDiscoveryError';
+  }
+}
+
+const matchesPattern = (url: URL, pattern: string | RegExp): boolean =>
+  typeof pattern === 'string'
+    ? url.pathname.toLowerCase().includes(pattern.toLowerCase())
+    : pattern.test(url.href);
+
+/**
+ * Whether a sitemap URL is a content URL under the default exclusions and
+ * the given rules.
+ */
+export const isValidContentUrl = (url: string, rules: SitemapUrlRules = {}): boolean => {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.toLowerCase();
+    if (path.length <= 1) return false;
+
+    if ([...DEFAULT_EXCLUDE_PATTERNS, ...(rules.exclude || [])].some(pattern => matchesPattern(parsed, pattern))) {
+      return false;
+    }
+    return !rules.include?.length || rules.include.some(pattern => matchesPattern(parsed, pattern));
+  } catch {
+    return false;
+  }
+};
+
+const REGEX_PREFIX = 're:';
+
+/**
+ * Parses include/exclude rules typed by the user. A line starting with "re:"
+ * holds one regular expression, matched case-insensitively against the full
+ * URL; other lines hold path fragments separated by commas, such as "/blog/".
+ * @throws {Error} When a regular expression is invalid, since skipping it
+ *   would silently widen or narrow the discovered URLs.
+ */
+export const parseUrlRules = (text: string): Array<string | RegExp> =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .flatMap(line => line.startsWith(REGEX_PREFIX) ? [line] : line.split(',').map(part => part.trim()))
+    .filter(Boolean)
+    .map(part => {
+      if (!part.startsWith(REGEX_PREFIX)) return part;
+      try {
+        return new RegExp(part.slice(REGEX_PREFIX.length).trim(), 'i');
+      } catch (error) {
+        throw new Error(`Invalid URL rule "${part}": ${(error as Error).message}`);
+      }
+    });
+
+/**
+ * Key two spellings of the same URL share: no fragment and no trailing slash.
+ */
+const dedupKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`.toLowerCase();
+  } catch {
+    return url;
+  }
+};
+
+const parseSitemap = (xml: string): { sitemaps: string[]; urls: Array<{ loc: string; lastmod?: string }> } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parseError = doc.querySelector('parsererror');
+  if (parseError) {
+    throw new Error(`Invalid XML: ${parseError.textContent?.trim().slice(0, 200)}`);
+  }
+
+  const text = (element: Element | null) => element?.textContent?.trim() || undefined;
+  return {
+    sitemaps: Array.from(doc.querySelectorAll('sitemap > loc')).map(text).filter((loc): loc is string => !!loc),
+    urls: Array.from(doc.querySelectorAll('url'))
+      .map(element => ({ loc: text(element.querySelector('loc')) || '', lastmod: text(element.querySelector('lastmod')) }))
+      .filter(entry => entry.loc)
+  };
+};
+
+/**
+ * Crawls a root sitemap and every sitemap nested under it, breadth first.
+ */
+const crawlFromRoot = async (
+  rootUrl: string,
+  rules: SitemapUrlRules,
+  concurrency: number,
+  emit: (event: SitemapDiscoveryEvent) => void,
+  snapshot: () => SitemapDiscoveryProgress,
+  state: { queued: number; urls: Map<string, DiscoveredUrl>; sitemaps: SitemapRecord[]; seenSitemaps: Set<string> }
+): Promise<void> => {
+  let level: Array<{ url: string; parentUrl?: string }> = [{ url: rootUrl }];
+  state.seenSitemaps.add(dedupKey(rootUrl));
+
+  for (let depth = 0; level.length > 0 && depth <= MAX_DEPTH; depth++) {
+    const next: Array<{ url: string; parentUrl?: string }> = [];
+    state.queued += level.length;
+
+    for (let i = 0; i < level.length; i += concurrency) {
+      await Promise.all(level.slice(i, i + concurrency).map(async ({ url, parentUrl }) => {
+        const record: SitemapRecord = { url, parentUrl, kind: 'failed', listed: 0, added: 0, excluded: 0 };
+        try {
+          const { sitemaps, urls } = parseSitemap(await retryWithBackoff(() => fetchWithProxies(url), 2, 1000));
+
+          if (sitemaps.length > 0) {
+            record.kind = 'index';
+            record.listed = sitemaps.length;
+            for (const child of sitemaps) {
+              const key = dedupKey(child);
+              if (state.seenSitemaps.has(key) || state.seenSitemaps.size >= MAX_SITEMAPS) continue;
+              state.seenSitemaps.add(key);
+              next.push({ url: child, parentUrl: url });
+            }
+          } else {
+            record.kind = 'urlset';
+            record.listed = urls.length;
+            for (const { loc, lastmod } of urls) {
+              if (!isValidContentUrl(loc, rules)) {
+                record.excluded++;
+                continue;
+              }
+              const key = dedupKey(loc);
+              if (state.urls.has(key)) continue;
+              state.urls.set(key, { url: loc, lastModified: lastmod, sitemapUrl: url });
+              record.added++;
+            }
+          }
+        } catch (error) {
+          record.error = error instanceof Error ? error.message : String(error);
+          console.warn(`[SitemapDiscovery] Failed to process ${url}:`, error);
+        }
+
+        state.queued--;
+        state.sitemaps.push(record);
+        emit({ type: 'sitemap', record, progress: snapshot() });
+      }));
+    }
+
+    level = next;
+  }
+};
+
+/**
+ * Discovers the content URLs of a site from its sitemaps. Root sitemaps are
+ * tried in order and discovery stops at the first one that lists content, as
+ * most roots on a WordPress site index the same sitemaps.
+ * @param siteUrl Site address; paths are resolved against its origin.
+ * @throws {SitemapDiscoveryError} When no root sitemap lists any content.
+ */
+export const discoverSitemapUrls = async (
+  siteUrl: string,
+  options: SitemapDiscoveryOptions = {}
+): Promise<SitemapDiscoveryResult> => {
+  const origin = new URL(siteUrl).origin;
+  const roots = (options.paths?.length ? options.paths : DEFAULT_SITEMAP_PATHS)
+    .map(path => new URL(path, origin).href);
+  const rules = options.rules || {};
+  const concurrency = Math.max(1, options.concurrency || 5);
+  const emit = options.onEvent || (() => {});
+
+  const state = { queued: 0, urls: new Map<string, DiscoveredUrl>(), sitemaps: [] as SitemapRecord[], seenSitemaps: new Set<string>() };
+  const snapshot = (): SitemapDiscoveryProgress => ({
+    sitemapsProcessed: state.sitemaps.length,
+    sitemapsQueued: state.queued,
+    urlsFound: state.urls.size
+  });
+
+  for (const rootUrl of roots) {
+    if (state.seenSitemaps.has(dedupKey(rootUrl))) continue;
+    emit({ type: 'root', sitemapUrl: rootUrl, progress: snapshot() });
+    await crawlFromRoot(rootUrl, rules, concurrency, emit, snapshot, state);
+
+    if (state.urls.size > 0) {
+      const result: SitemapDiscoveryResult = { rootUrl, urls: Array.from(state.urls.values()), sitemaps: state.sitemaps };
+      emit({ type: 'done', result, progress: snapshot() });
+      return result;
+    }
+  }
+
+  throw new SitemapDiscoveryError(roots, state.sitemaps);
+};
+
+/**
+ * One-line progress message for a discovery event.
+ */
+export const describeDiscoveryEvent = (event: SitemapDiscoveryEvent): string => {
+  const { sitemapsProcessed, urlsFound } = event.progress;
+  switch (event.type) {
+    case 'root':
+      return `🔍 Analyzing: ${new URL(event.sitemapUrl).pathname}...`;
+    case 'sitemap': {
+      const { record } = event;
+      const path = new URL(record.url).pathname;
+      if (record.kind === 'failed') return `❌ ${path} failed, continuing...`;
+      if (record.kind === 'index') return `📚 ${path} lists ${record.listed} nested sitemaps`;
+      return `📄 ${path}: ${record.added} new URLs • ${urlsFound} found in ${sitemapsProcessed} sitemaps`;
+    }
+    case 'done':
+      return `✅ Discovered ${urlsFound} unique URLs from ${new URL(event.result.rootUrl).pathname} (${sitemapsProcessed} sitemaps)`;
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * INCREMENTAL SERVER-SENT EVENTS PARSER
+ * Buffers partial lines across network chunks and dispatches complete events
+ * following the WHATWG event-stream rules
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  constructor(private onEvent: (event: SSEEvent) => void) {}
+
+  /**
+   * Feeds decoded text. Incomplete trailing lines are held until the next call.
+   */
+  feed(text: string): void {
+    this.buffer += text;
+
+    // A trailing CR may be the first half of a CRLF split across chunks
+    const holdBack = this.buffer.endsWith('\r') ? 1 : 0;
+    const readable = this.buffer.slice(0, this.buffer.length - holdBack);
+
+    const lineBreak = /\r\n|\r|\n/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = lineBreak.exec(readable)) !== null) {
+      this.processLine(readable.slice(consumed, match.index));
+      consumed = match.index + match[0].length;
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+  }
+
+  /**
+   * Processes whatever remains once the stream has ended.
+   */
+  flush(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    // Comment lines (e.g. OpenRouter keep-alives) carry no data
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+      default:
+        // Unknown fields (including retry) are ignored
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length > 0) {
+      this.onEvent({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId
+      });
+    }
+
+    this.eventType = '';
+    this.dataLines = [];
+  }
+}
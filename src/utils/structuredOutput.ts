@@ -0,0 +1,162 @@
+/**
+ * STRUCTURED AI OUTPUT
+ * Minimal runtime schemas for JSON returned by the AI, with validation and a
+ * repair loop that feeds validation errors back to the model
+ */
+
+import { AIMessage } from '../types';
+
+export type Schema =
+  | { type: 'string'; minLength?: number; maxLength?: number }
+  | { type: 'number' }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] };
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public errors: string[], public rawOutput: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Validates a parsed value against a schema.
+ * @returns A list of human-readable errors; empty when the value is valid.
+ */
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.minLength && value.trim().length < schema.minLength) {
+        return [`${path} must have at least ${schema.minLength} characters`];
+      }
+      if (schema.maxLength && value.trim().length > schema.maxLength) {
+        return [`${path} must have at most ${schema.maxLength} characters (has ${value.trim().length})`];
+      }
+      return [];
+
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${path} must be a number`];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const errors = value.flatMap((item, index) => validateSchema(item, schema.items, `${path}[${index}]`));
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.unshift(`${path} must have at least ${schema.minItems} items`);
+      }
+      return errors;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const required = schema.required ?? Object.keys(schema.properties);
+
+      return Object.entries(schema.properties).flatMap(([key, propertySchema]) => {
+        if (record[key] === undefined) {
+          return required.includes(key) ? [`${path}.${key} is required`] : [];
+        }
+        return validateSchema(record[key], propertySchema, `${path}.${key}`);
+      });
+    }
+  }
+};
+
+/**
+ * Renders a schema as a compact JSON-like shape for use in prompts.
+ */
+export const describeSchema = (schema: Schema, indent = ''): string => {
+  switch (schema.type) {
+    case 'array':
+      return `[${describeSchema(schema.items, indent)}, ...]`;
+    case 'object': {
+      const inner = indent + '  ';
+      const fields = Object.entries(schema.properties)
+        .map(([key, propertySchema]) => `${inner}"${key}": ${describeSchema(propertySchema, inner)}`);
+      return `{\n${fields.join(',\n')}\n${indent}}`;
+    }
+    default:
+      return schema.type;
+  }
+};
+
+/**
+ * Pulls the JSON document out of a model response, tolerating markdown code
+ * fences and prose before or after the JSON.
+ * @throws {SyntaxError} When no parseable JSON is found.
+ */
+export const extractJSON = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw new SyntaxError('Response contains no JSON');
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+};
+
+/** Corrections requested after an invalid answer before generateStructured gives up */
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Asks the AI for JSON matching a schema. Invalid output is sent back with the
+ * validation errors until the model corrects it or the attempts run out.
+ * @param call Sends the conversation to the AI and resolves to its text.
+ * @throws {StructuredOutputError} When no attempt produced valid output.
+ */
+export const generateStructured = async <T>(
+  messages: AIMessage[],
+  schema: Schema,
+  call: (messages: AIMessage[]) => Promise<string>,
+  maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS
+): Promise<T> => {
+  const conversation: AIMessage[] = [
+    ...messages,
+    {
+      role: 'user',
+      content: `Respond with a single JSON object and nothing else. It must match this shape:\n${describeSchema(schema)}`
+    }
+  ];
+
+  let rawOutput = '';
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    rawOutput = await call(conversation);
+
+    try {
+      const parsed = extractJSON(rawOutput);
+      errors = validateSchema(parsed, schema);
+      if (errors.length === 0) return parsed as T;
+    } catch (error) {
+      errors = [`Invalid JSON: ${(error as Error).message}`];
+    }
+
+    console.warn(`[StructuredOutput] Attempt ${attempt + 1} returned invalid output:`, errors);
+    conversation.push(
+      { role: 'assistant', content: rawOutput },
+      {
+        role: 'user',
+        content: `That response is not valid. Fix these problems and return only the corrected JSON:\n- ${errors.slice(0, 20).join('\n- ')}`
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `AI output did not match the expected schema after ${maxRepairAttempts + 1} attempts`,
+    errors,
+    rawOutput
+  );
+};
@@ -0,0 +1,304 @@
+/**
+ * TAXONOMY SUGGESTIONS
+ * Loads the site's categories and tags, suggests the best-fitting existing terms
+ * for a post from an AI pick combined with keyword overlap, proposes new terms
+ * for approval and turns approved suggestions into term ids for the post
+ */
+
+import { AIMessage, TermSuggestion, TermTaxonomy } from '../types';
+import { resolvePostTypes } from './postTypes';
+import { generateStructured, Schema } from './structuredOutput';
+import { WordPressClient, WordPressError, WPPostInput, WPTerm } from './wordpressClient';
+
+export interface SiteTerms {
+  categories: WPTerm[];
+  tags: WPTerm[];
+}
+
+export interface TermArticle {
+  title: string;
+  html: string;
+  keywords?: string[];
+}
+
+// Existing terms scoring at least this much are approved by default
+export const AUTO_APPROVE_SCORE = 0.5;
+const AI_WEIGHT = 0.6;
+const OVERLAP_WEIGHT = 0.4;
+const MAX_CANDIDATES = { categories: 40, tags: 80 };
+
+// Taxonomy slugs a post type reports for each REST base
+const TAXONOMY_SLUGS: Record<TermTaxonomy, string> = { categories: 'category', tags: 'post_tag' };
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'your', 'you', 'are', 'how', 'what', 'why', 'when',
+  'who', 'can', 'will', 'not', 'but', 'all', 'any', 'its', 'our', 'into', 'about', 'more', 'best', 'guide'
+]);
+
+const termCache = new Map<string, Promise<SiteTerms>>();
+
+/**
+ * Loads every category and tag of the site. Cached per site until
+ * invalidateSiteTerms is called.
+ */
+export const loadSiteTerms = (client: WordPressClient): Promise<SiteTerms> => {
+  const cached = termCache.get(client.baseUrl);
+  if (cached) return cached;
+
+  const fields = ['id', 'name', 'slug', 'count', 'parent'];
+  const terms = Promise.all([
+    client.listTerms('categories', { fields }),
+    client.listTerms('tags', { fields })
+  ])
+    .then(([categories, tags]) => ({ categories, tags }))
+    .catch((error) => {
+      termCache.delete(client.baseUrl);
+      throw error;
+    });
+
+  termCache.set(client.baseUrl, terms);
+  return terms;
+};
+
+export const invalidateSiteTerms = (client: WordPressClient): void => {
+  termCache.delete(client.baseUrl);
+};
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/&amp;/g, '&')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const usableTerms = (terms: WPTerm[]): WPTerm[] => terms.filter(term => term.slug !== 'uncategorized');
+
+/**
+ * Share of each term's words found in the article. Words in the title or
+ * keywords count fully, words only in the body count half.
+ * @returns Scores from 0 to 1 keyed by term id.
+ */
+export const keywordOverlapScores = (article: TermArticle, terms: WPTerm[]): Map<number, number> => {
+  const focus = new Set(tokenize(`${article.title} ${(article.keywords || []).join(' ')}`));
+  const body = new Set(tokenize(article.html.replace(/<[^>]+>/g, ' ')));
+
+  return new Map(terms.map(term => {
+    const words = tokenize(term.name);
+    if (words.length === 0) return [term.id, 0];
+    const hits = words.reduce((total, word) => total + (focus.has(word) ? 1 : body.has(word) ? 0.5 : 0), 0);
+    return [term.id, hits / words.length];
+  }));
+};
+
+const rankCandidates = (terms: WPTerm[], scores: Map<number, number>, limit: number): WPTerm[] =>
+  [...terms]
+    .sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || b.count - a.count)
+    .slice(0, limit);
+
+/**
+ * Suggestions from keyword overlap alone, for when no AI call is wanted.
+ */
+export const suggestTermsByKeywords = (article: TermArticle, siteTerms: SiteTerms, maxPerTaxonomy = 5): TermSuggestion[] =>
+  (['categories', 'tags'] as TermTaxonomy[]).flatMap(taxonomy => {
+    const terms = usableTerms(siteTerms[taxonomy]);
+    const scores = keywordOverlapScores(article, terms);
+    return rankCandidates(terms, scores, maxPerTaxonomy)
+      .filter(term => (scores.get(term.id) || 0) >= AUTO_APPROVE_SCORE)
+      .map(term => ({
+        taxonomy,
+        name: term.name,
+        termId: term.id,
+        score: (scores.get(term.id) || 0) * OVERLAP_WEIGHT,
+        source: 'keywords' as const,
+        approved: true
+      }));
+  });
+
+const TERM_PICK_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    categories: { type: 'array', items: { type: 'string' } },
+    tags: { type: 'array', items: { type: 'string' } },
+    newCategories: { type: 'array', items: { type: 'string' } },
+    newTags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['categories', 'tags', 'newCategories', 'newTags']
+};
+
+interface TermPickPayload {
+  categories: string[];
+  tags: string[];
+  newCategories: string[];
+  newTags: string[];
+}
+
+/**
+ * Suggests categories and tags for an article. The AI picks from the
+ * best-overlapping existing terms and may propose new ones; its picks are
+ * blended with the keyword overlap score. Existing terms above
+ * AUTO_APPROVE_SCORE start approved, new terms never do.
+ * @param call Sends the conversation to the AI and resolves to its text.
+ */
+export const suggestTerms = async (
+  article: TermArticle,
+  siteTerms: SiteTerms,
+  call: (messages: AIMessage[]) => Promise<string>,
+  limits: { categories: number; tags: number } = { categories: 2, tags: 8 }
+): Promise<TermSuggestion[]> => {
+  const terms = { categories: usableTerms(siteTerms.categories), tags: usableTerms(siteTerms.tags) };
+  const scores = {
+    categories: keywordOverlapScores(article, terms.categories),
+    tags: keywordOverlapScores(article, terms.tags)
+  };
+  const candidates = {
+    categories: rankCandidates(terms.categories, scores.categories, MAX_CANDIDATES.categories),
+    tags: rankCandidates(terms.tags, scores.tags, MAX_CANDIDATES.tags)
+  };
+
+  const prompt = `
+      Choose the categories and tags for this article: "${article.title}"
+      ${article.keywords?.length ? `Keywords: ${article.keywords.join(', ')}` : ''}
+
+      Existing categories: ${candidates.categories.map(term => term.name).join(' | ') || '(none)'}
+      Existing tags: ${candidates.tags.map(term => term.name).join(' | ') || '(none)'}
+
+      - categories: up to ${limits.categories} existing categories, best fit first, copied exactly
+      - tags: up to ${limits.tags} existing tags, copied exactly
+      - newCategories / newTags: only if no existing term covers a central topic of the article; usually empty
+
+      Article text:
+      ${article.html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').slice(0, 4000)}
+    `;
+
+  const pick = await generateStructured<TermPickPayload>([{ role: 'user', content: prompt }], TERM_PICK_SCHEMA, call);
+
+  return (['categories', 'tags'] as TermTaxonomy[]).flatMap(taxonomy => {
+    const aiNames = pick[taxonomy];
+    const existing = candidates[taxonomy]
+      .map(term => {
+        const overlap = scores[taxonomy].get(term.id) || 0;
+        const byAI = aiNames.some(name => sameName(name, term.name));
+        const score = (byAI ? AI_WEIGHT : 0) + overlap * OVERLAP_WEIGHT;
+        const source = byAI ? (overlap > 0 ? 'both' as const : 'ai' as const) : 'keywords' as const;
+        return { taxonomy, name: term.name, termId: term.id, score, source, approved: score >= AUTO_APPROVE_SCORE };
+      })
+      // Keyword-only matches are offered, unapproved, when at least half the term's words match
+      .filter(suggestion => suggestion.source !== 'keywords' || suggestion.score >= AUTO_APPROVE_SCORE * OVERLAP_WEIGHT)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limits[taxonomy]);
+
+    // Proposals that match an existing term by name are not new
+    const proposed = pick[taxonomy === 'categories' ? 'newCategories' : 'newTags']
+      .map(name => name.trim())
+      .filter(name => name && !terms[taxonomy].some(term => sameName(term.name, name)))
+      .map(name => ({ taxonomy, name, score: AI_WEIGHT, source: 'ai' as const, approved: false }));
+
+    return [...existing, ...proposed];
+  });
+};
+
+/**
+ * The best-scoring approved category, falling back to the best category at all.
+ */
+export const primaryCategory = (suggestions: TermSuggestion[] = []): TermSuggestion | undefined => {
+  const categories = suggestions.filter(suggestion => suggestion.taxonomy === 'categories').sort((a, b) => b.score - a.score);
+  return categories.find(suggestion => suggestion.approved) || categories[0];
+};
+
+/**
+ * Creates approved new terms and returns the ids of every approved term.
+ * A term created elsewhere in the meantime is looked up instead.
+ */
+export const resolveApprovedTerms = async (
+  client: WordPressClient,
+  suggestions: TermSuggestion[]
+): Promise<Record<TermTaxonomy, number[]>> => {
+  const ids: Record<TermTaxonomy, number[]> = { categories: [], tags: [] };
+
+  for (const suggestion of suggestions.filter(item => item.approved)) {
+    if (suggestion.termId) {
+      ids[suggestion.taxonomy].push(suggestion.termId);
+      continue;
+    }
+
+    try {
+      const created = await client.createTerm(suggestion.taxonomy, { name: suggestion.name });
+      ids[suggestion.taxonomy].push(created.id);
+    } catch (error) {
+      if (!(error instanceof WordPressError && error.code === 'term_exists')) throw error;
+      invalidateSiteTerms(client);
+      const existing = (await loadSiteTerms(client))[suggestion.taxonomy].find(term => sameName(term.name, suggestion.name));
+      if (!existing) throw error;
+      ids[suggestion.taxonomy].push(existing.id);
+    }
+    invalidateSiteTerms(client);
+  }
+
+  return { categories: Array.from(new Set(ids.categories)), tags: Array.from(new Set(ids.tags)) };
+};
+
+/**
+ * Post fields for the approved terms, limited to the taxonomies the post's
+ * type supports. Nothing is returned when no term is approved, so the post's
+ * current terms stay as they are.
+ */
+export const buildTermFields = async (
+  client: WordPressClient,
+  restRoute: string,
+  suggestions: TermSuggestion[] = []
+): Promise<WPPostInput> => {
+  if (!suggestions.some(suggestion => suggestion.approved)) return {};
+
+  const routes = await resolvePostTypes(client);
+  const supported = routes.find(route => route.restRoute === restRoute)?.taxonomies || [];
+  const usable = suggestions.filter(suggestion => supported.includes(TAXONOMY_SLUGS[suggestion.taxonomy]));
+  const ids = await resolveApprovedTerms(client, usable);
+
+  return Object.fromEntries(
+    (['categories', 'tags'] as TermTaxonomy[])
+      .filter(taxonomy => ids[taxonomy].length > 0)
+      .map(taxonomy => [taxonomy, ids[taxonomy]])
+  );
+};
+
+/**
+ * Adds term fields to the terms a post already has, so writing them removes none.
+ */
+export const mergeTermFields = (current: Pick<WPPostInput, 'categories' | 'tags'>, fields: WPPostInput): WPPostInput =>
+  Object.fromEntries(
+    (['categories', 'tags'] as TermTaxonomy[])
+      .filter(taxonomy => fields[taxonomy])
+      .map(taxonomy => [taxonomy, Array.from(new Set([...(current[taxonomy] || []), ...fields[taxonomy]!]))])
+  );
+
+/**
+ * Adds terms to a post without removing the ones it already has.
+ */
+export const addTermsToPost = async (
+  client: WordPressClient,
+  restRoute: string,
+  postId: number,
+  suggestions: TermSuggestion[]
+): Promise<void> => {
+  const fields = await buildTermFields(client, restRoute, suggestions);
+  if (Object.keys(fields).length === 0) return;
+
+  const current = await client.getItem(restRoute, postId, { context: 'edit', fields: ['categories', 'tags'] });
+  await client.updateItem(restRoute, postId, mergeTermFields(current, fields));
+};
+
+/**
+ * Default terms for a cluster article: the pillar's primary category, plus
+ * existing tags matched from the article's keywords.
+ */
+export const clusterArticleTerms = (
+  article: TermArticle,
+  siteTerms: SiteTerms,
+  pillarTerms: TermSuggestion[] = []
+): TermSuggestion[] => {
+  const primary = primaryCategory(pillarTerms);
+  const tags = suggestTermsByKeywords(article, siteTerms).filter(suggestion => suggestion.taxonomy === 'tags');
+  return [...(primary ? [{ ...primary, source: 'pillar' as const }] : []), ...tags];
+};
@@ -0,0 +1,174 @@
+/**
+ * BRAND VOICE PROFILES
+ * Reusable tone, reading level, person, banned phrases and disclaimers that are
+ * injected into every content-writing prompt and checked after generation.
+ * Custom profiles are persisted one record per profile.
+ */
+
+import { AIMessage, AIStage, VoiceCheckResult, VoiceProfile } from '../types';
+import { PersistedStore } from './persistedStore';
+
+export const DEFAULT_VOICE_PROFILE_ID = 'neutral-expert';
+
+export const BUILT_IN_VOICE_PROFILES: VoiceProfile[] = [
+  {
+    id: 'neutral-expert',
+    name: 'Neutral Expert',
+    tone: 'Clear, confident and factual. Helpful without hype; no invented anecdotes or client stories.',
+    bannedPhrases: [
+      'I remember working with a client who',
+      '20+ years of experience',
+      'After working with over 1,000 clients',
+      'HOLY SHIT',
+      'in today\'s fast-paced world',
+      'delve into'
+    ],
+    readingLevel: 'Grade 8-10',
+    person: 'second',
+    disclaimers: [],
+    builtIn: true
+  },
+  {
+    id: 'personal-mentor',
+    name: 'Personal Mentor',
+    tone: 'Warm, conversational and candid, like an experienced practitioner teaching a friend.',
+    bannedPhrases: ['in today\'s fast-paced world', 'delve into'],
+    readingLevel: 'Grade 7-9',
+    person: 'first',
+    disclaimers: [],
+    builtIn: true
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    tone: 'Professional, measured and brand-safe. No slang, no emotional language, no personal stories.',
+    bannedPhrases: ['I remember', 'Between you and me', 'brutally honest', 'HOLY SHIT'],
+    readingLevel: 'Grade 10-12',
+    person: 'third',
+    disclaimers: [],
+    builtIn: true
+  }
+];
+
+/** Stages whose output is published prose and therefore follows the voice profile */
+export const VOICE_STAGES: AIStage[] = ['draft', 'rewrite', 'internalLinks', 'seoMeta'];
+
+const PROFILES_CACHE_KEY = 'voice_profiles';
+
+const PERSON_INSTRUCTIONS: Record<VoiceProfile['person'], string> = {
+  first: 'Write in the first person ("I", "we"). First-hand observations are welcome; never invent specific clients, numbers or events.',
+  second: 'Address the reader directly in the second person ("you"). Do not write as a named individual or invent personal stories.',
+  third: 'Write in the third person. Do not use "I" or "we" and do not address the reader as "you" except in instructions.'
+};
+
+/**
+ * Renders a profile as prompt instructions.
+ */
+export const buildVoiceInstructions = (profile: VoiceProfile): string => {
+  const lines = [
+    `BRAND VOICE: ${profile.name}`,
+    'This voice guide overrides any persona, tone, experience claims or example phrases given elsewhere in these instructions.',
+    `- Tone: ${profile.tone}`,
+    `- Reading level: ${profile.readingLevel}`,
+    `- Point of view: ${PERSON_INSTRUCTIONS[profile.person]}`
+  ];
+
+  if (profile.bannedPhrases.length > 0) {
+    lines.push(`- Never use these phrases or close variants: ${profile.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}`);
+  }
+  if (profile.disclaimers.length > 0) {
+    lines.push('- Include each of these disclaimers verbatim in its own paragraph near the end of the article:');
+    profile.disclaimers.forEach(disclaimer => lines.push(`  "${disclaimer}"`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Appends the voice guide as the final system message so it takes precedence
+ * over personas baked into the prompt templates.
+ */
+export const applyVoiceProfile = (messages: AIMessage[], profile: VoiceProfile | null): AIMessage[] =>
+  profile ? [...messages, { role: 'system', content: buildVoiceInstructions(profile) }] : messages;
+
+const normalizeForMatch = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[‘’]/g, '\'')
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+
+/**
+ * Post-generation check for banned phrases that slipped through and required
+ * disclaimers that are missing. Matching ignores HTML tags, case and whitespace.
+ */
+export const checkVoiceCompliance = (html: string, profile: VoiceProfile | null): VoiceCheckResult => {
+  if (!profile) return { bannedPhrases: [], missingDisclaimers: [] };
+
+  const text = normalizeForMatch(html);
+  return {
+    bannedPhrases: profile.bannedPhrases.filter(phrase => phrase.trim() && text.includes(normalizeForMatch(phrase).trim())),
+    missingDisclaimers: profile.disclaimers.filter(disclaimer => disclaimer.trim() && !text.includes(normalizeForMatch(disclaimer).trim()))
+  };
+};
+
+export const hasVoiceIssues = (result: VoiceCheckResult): boolean =>
+  result.bannedPhrases.length > 0 || result.missingDisclaimers.length > 0;
+
+class VoiceProfileStore extends PersistedStore<VoiceProfile> {
+  constructor() {
+    super('voiceProfiles', 'VoiceProfiles', PROFILES_CACHE_KEY);
+  }
+
+  protected keyOf(profile: VoiceProfile): string {
+    return profile.id;
+  }
+
+  list(): VoiceProfile[] {
+    return [...BUILT_IN_VOICE_PROFILES, ...this.items];
+  }
+
+  /**
+   * Looks up a profile, falling back to the default profile for unknown IDs.
+   */
+  get(id?: string): VoiceProfile {
+    return this.list().find(profile => profile.id === id) ||
+      BUILT_IN_VOICE_PROFILES.find(profile => profile.id === DEFAULT_VOICE_PROFILE_ID)!;
+  }
+
+  /**
+   * Creates or updates a custom profile. Built-in profiles are copied rather
+   * than modified.
+   */
+  async save(profile: VoiceProfile): Promise<VoiceProfile> {
+    await this.init();
+
+    const isBuiltIn = BUILT_IN_VOICE_PROFILES.some(builtIn => builtIn.id === profile.id);
+    const saved: VoiceProfile = {
+      ...profile,
+      id: isBuiltIn || !profile.id ? `custom_${Date.now()}` : profile.id,
+      builtIn: false
+    };
+
+    const exists = this.items.some(existing => existing.id === saved.id);
+    this.items = exists
+      ? this.items.map(existing => existing.id === saved.id ? saved : existing)
+      : [...this.items, saved];
+
+    this.notify();
+    await this.persist([saved]);
+    return saved;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.init();
+    this.items = this.items.filter(profile => profile.id !== id);
+    this.notify();
+    await this.persist([], [id]);
+  }
+}
+
+// SINGLETON INSTANCE FOR GLOBAL USE
+export const voiceProfiles = new VoiceProfileStore();
@@ -0,0 +1,507 @@
+/**
+ * WORDPRESS REST CLIENT
+ * Typed access to the WP REST API for posts, pages, custom post types, media,
+ * taxonomies, users and revisions, with pagination, _fields trimming,
+ * Basic auth via application passwords, error mapping and retry
+ */
+
+export type WordPressErrorKind =
+  | 'auth'
+  | 'forbidden'
+  | 'notFound'
+  | 'invalid'
+  | 'rateLimit'
+  | 'serverError'
+  | 'network'
+  | 'other';
+
+const kindFromStatus = (status: number): WordPressErrorKind => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 400 || status === 409 || status === 422) return 'invalid';
+  if (status === 429) return 'rateLimit';
+  if (status >= 500) return 'serverError';
+  return 'other';
+};
+
+const RETRYABLE_KINDS: WordPressErrorKind[] = ['rateLimit', 'serverError', 'network'];
+
+export class WordPressError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    /** WordPress error code, e.g. "rest_post_invalid_id" */
+    public code?: string,
+    public kind: WordPressErrorKind = status === undefined ? 'network' : kindFromStatus(status)
+  ) {
+    super(message);
+    this.name = 'WordPressError';
+  }
+}
+
+export interface WPRenderedField {
+  rendered: string;
+  raw?: string;
+  protected?: boolean;
+}
+
+export type WPStatus = 'publish' | 'future' | 'draft' | 'pending' | 'private' | 'trash';
+
+/** A post, page or custom post type item */
+export interface WPPostObject {
+  id: number;
+  date: string;
+  date_gmt: string;
+  modified: string;
+  modified_gmt: string;
+  slug: string;
+  status: WPStatus;
+  type: string;
+  link: string;
+  title: WPRenderedField;
+  content: WPRenderedField;
+  excerpt: WPRenderedField;
+  author: number;
+  featured_media: number;
+  parent?: number;
+  categories?: number[];
+  tags?: number[];
+  meta?: Record<string, any>;
+  [field: string]: any;
+}
+
+export interface WPPostInput {
+  title?: string;
+  content?: string;
+  excerpt?: string;
+  slug?: string;
+  status?: WPStatus;
+  /** Local publish date; with status "future" this is when the post goes live */
+  date?: string;
+  date_gmt?: string;
+  author?: number;
+  featured_media?: number;
+  categories?: number[];
+  tags?: number[];
+  meta?: Record<string, any>;
+  [field: string]: any;
+}
+
+export interface WPPostTypeObject {
+  slug: string;
+  name: string;
+  rest_base: string;
+  /** Missing before WordPress 5.9, where every type lives under wp/v2 */
+  rest_namespace?: string;
+  hierarchical: boolean;
+  taxonomies: string[];
+}
+
+export interface WPSiteIndex {
+  name: string;
+  url: string;
+  namespaces: string[];
+}
+
+/** JSON schema of a route's resource, as described by an OPTIONS request */
+export interface WPRouteSchema {
+  title: string;
+  type: string;
+  properties: Record<string, { type?: string | string[]; properties?: Record<string, any>; [key: string]: any }>;
+}
+
+export interface WPMedia {
+  id: number;
+  source_url: string;
+  alt_text: string;
+  caption: WPRenderedField;
+  title: WPRenderedField;
+  media_type: string;
+  mime_type: string;
+}
+
+export interface WPTerm {
+  id: number;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  count: number;
+  parent?: number;
+  description?: string;
+}
+
+export interface WPUser {
+  id: number;
+  name: string;
+  slug: string;
+  link?: string;
+  description?: string;
+}
+
+export interface WPRevision {
+  id: number;
+  parent: number;
+  author: number;
+  date: string;
+  date_gmt: string;
+  modified: string;
+  modified_gmt: string;
+  title: WPRenderedField;
+  content: WPRenderedField;
+  excerpt: WPRenderedField;
+}
+
+export interface WPListParams {
+  page?: number;
+  /** Items per page, at most 100 */
+  perPage?: number;
+  /** Trims the response to these fields */
+  fields?: string[];
+  context?: 'view' | 'edit' | 'embed';
+  [param: string]: string | number | boolean | string[] | number[] | undefined;
+}
+
+export interface WPPage<T> {
+  items: T[];
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface WordPressClientOptions {
+  siteUrl: string;
+  username?: string;
+  /** WordPress application password */
+  appPassword?: string;
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms */
+  retryDelay?: number;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'OPTIONS';
+  query?: Record<string, any>;
+  body?: any;
+  signal?: AbortSignal;
+  /** Whether sending the request twice is harmless; defaults to true for every method but POST */
+  idempotent?: boolean;
+}
+
+const MAX_PER_PAGE = 100;
+
+export const POSTS_ROUTE = 'wp/v2/posts';
+export const PAGES_ROUTE = 'wp/v2/pages';
+
+const buildQuery = (query: Record<string, any> = {}): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const text = params.toString();
+  return text ? `?${text}` : '';
+};
+
+const listQuery = ({ page, perPage, fields, ...rest }: WPListParams): Record<string, any> => ({
+  ...rest,
+  page,
+  per_page: perPage ? Math.min(perPage, MAX_PER_PAGE) : undefined,
+  _fields: fields
+});
+
+export class WordPressClient {
+  readonly baseUrl: string;
+  private authHeader: string | null;
+  private maxRetries: number;
+  private retryDelay: number;
+
+  constructor(options: WordPressClientOptions) {
+    this.baseUrl = options.siteUrl.trim().replace(/\/+$/, '');
+    this.authHeader = options.username && options.appPassword
+      ? `Basic ${btoa(`${options.username}:${options.appPassword}`)}`
+      : null;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelay = options.retryDelay ?? 1000;
+  }
+
+  get isAuthenticated(): boolean {
+    return this.authHeader !== null;
+  }
+
+  /**
+   * Sends a request to /wp-json/{path}. Rate limits, server errors and network
+   * failures are retried with exponential backoff. Requests that are not
+   * idempotent, such as creating a post, are only retried on rate limits:
+   * after a network or server error they may already have been carried out.
+   * @throws {WordPressError}
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<{ data: T; headers: Headers }> {
+    if (!this.baseUrl) {
+      throw new WordPressError('WordPress site URL not configured', undefined, undefined, 'invalid');
+    }
+
+    const url = `${this.baseUrl}/wp-json/${path.replace(/^\/+/, '')}${buildQuery(options.query)}`;
+    const isFormData = typeof FormData !== 'undefined' && options.body instanceof FormData;
+    const headers: Record<string, string> = {};
+    if (this.authHeader) headers['Authorization'] = this.authHeader;
+    if (options.body !== undefined && !isFormData && !(options.body instanceof Blob)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const method = options.method || 'GET';
+    const retryableKinds: WordPressErrorKind[] = (options.idempotent ?? method !== 'POST') ? RETRYABLE_KINDS : ['rateLimit'];
+    let lastError: WordPressError | null = null;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.retryDelay * Math.pow(2, attempt - 1) + Math.random() * 250;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          mode: 'cors',
+          headers,
+          signal: options.signal,
+          body: options.body === undefined
+            ? undefined
+            : isFormData || options.body instanceof Blob ? options.body : JSON.stringify(options.body)
+        });
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        lastError = new WordPressError(`Network error calling ${path}: ${(error as Error).message}`);
+        if (!retryableKinds.includes(lastError.kind)) throw lastError;
+        continue;
+      }
+
+      if (response.ok) {
+        const data = response.status === 204 ? (null as T) : await response.json();
+        return { data, headers: response.headers };
+      }
+
+      lastError = await this.toError(response, path);
+      if (!retryableKinds.includes(lastError.kind)) throw lastError;
+
+      console.warn(`[WordPressClient] ${path} failed (${lastError.status}), attempt ${attempt + 1}/${this.maxRetries + 1}`);
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Fetches one page of a collection, e.g. list('wp/v2/posts', { perPage: 100 }).
+   */
+  async list<T>(route: string, params: WPListParams = {}): Promise<WPPage<T>> {
+    const { data, headers } = await this.request<T[]>(route, { query: listQuery(params) });
+    return {
+      items: data,
+      page: params.page || 1,
+      total: Number(headers.get('X-WP-Total') || data.length),
+      totalPages: Number(headers.get('X-WP-TotalPages') || 1)
+    };
+  }
+
+  /**
+   * Fetches every page of a collection.
+   * @param onPage Called after each page with the running item count.
+   */
+  async listAll<T>(
+    route: string,
+    params: WPListParams = {},
+    onPage?: (loaded: number, total: number) => void
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.list<T>(route, { perPage: MAX_PER_PAGE, ...params, page });
+      items.push(...result.items);
+      totalPages = result.totalPages;
+      onPage?.(items.length, result.total);
+      page++;
+    } while (page <= totalPages);
+
+    return items;
+  }
+
+  // POSTS, PAGES AND CUSTOM POST TYPES (route is e.g. "wp/v2/pages", see resolvePostTypes)
+
+  async getItem<T = WPPostObject>(route: string, id: number, params: WPListParams = {}): Promise<T> {
+    const { data } = await this.request<T>(`${route}/${id}`, { query: listQuery(params) });
+    return data;
+  }
+
+  async findBySlug<T = WPPostObject>(route: string, slug: string, params: WPListParams = {}): Promise<T | null> {
+    const { items } = await this.list<T>(route, { ...params, slug, perPage: 1 });
+    return items[0] || null;
+  }
+
+  async createItem<T = WPPostObject>(route: string, input: WPPostInput): Promise<T> {
+    const { data } = await this.request<T>(route, { method: 'POST', body: input });
+    return data;
+  }
+
+  async updateItem<T = WPPostObject>(route: string, id: number, input: WPPostInput): Promise<T> {
+    const { data } = await this.request<T>(`${route}/${id}`, { method: 'POST', body: input, idempotent: true });
+    return data;
+  }
+
+  /**
+   * Saves content as an autosave revision. For a published post the live
+   * version is left untouched until someone publishes the revision.
+   */
+  async createAutosave(route: string, id: number, input: WPPostInput): Promise<WPRevision> {
+    const { data } = await this.request<WPRevision>(`${route}/${id}/autosaves`, { method: 'POST', body: input, idempotent: true });
+    return data;
+  }
+
+  listPosts(params: WPListParams = {}): Promise<WPPage<WPPostObject>> {
+    return this.list<WPPostObject>(POSTS_ROUTE, params);
+  }
+
+  getPost(id: number, params: WPListParams = {}): Promise<WPPostObject> {
+    return this.getItem(POSTS_ROUTE, id, params);
+  }
+
+  createPost(input: WPPostInput): Promise<WPPostObject> {
+    return this.createItem(POSTS_ROUTE, input);
+  }
+
+  updatePost(id: number, input: WPPostInput): Promise<WPPostObject> {
+    return this.updateItem(POSTS_ROUTE, id, input);
+  }
+
+  listPages(params: WPListParams = {}): Promise<WPPage<WPPostObject>> {
+    return this.list<WPPostObject>(PAGES_ROUTE, params);
+  }
+
+  getPage(id: number, params: WPListParams = {}): Promise<WPPostObject> {
+    return this.getItem(PAGES_ROUTE, id, params);
+  }
+
+  updatePage(id: number, input: WPPostInput): Promise<WPPostObject> {
+    return this.updateItem(PAGES_ROUTE, id, input);
+  }
+
+  /**
+   * Reads the REST index, whose namespaces reveal active plugins (e.g. "yoast/v1").
+   */
+  async getSiteIndex(): Promise<WPSiteIndex> {
+    const { data } = await this.request<WPSiteIndex>('', { query: { _fields: 'name,url,namespaces' } });
+    return data;
+  }
+
+  /**
+   * Lists the registered post types that are exposed over REST, keyed by slug.
+   */
+  async listPostTypes(): Promise<Record<string, WPPostTypeObject>> {
+    const { data } = await this.request<Record<string, WPPostTypeObject>>('wp/v2/types');
+    return data;
+  }
+
+  /**
+   * Reads the schema of a route's resource; its "meta" property lists the
+   * meta keys registered for REST.
+   */
+  async getRouteSchema(route: string): Promise<WPRouteSchema> {
+    const { data } = await this.request<{ schema: WPRouteSchema }>(route, { method: 'OPTIONS' });
+    return data.schema;
+  }
+
+  // MEDIA
+
+  async uploadMedia(file: Blob, filename: string, details: { alt_text?: string; caption?: string; title?: string } = {}): Promise<WPMedia> {
+    const form = new FormData();
+    form.append('file', file, filename);
+    Object.entries(details).forEach(([key, value]) => value && form.append(key, value));
+
+    const { data } = await this.request<WPMedia>('wp/v2/media', { method: 'POST', body: form });
+    return data;
+  }
+
+  async getMedia(id: number, params: WPListParams = {}): Promise<WPMedia> {
+    const { data } = await this.request<WPMedia>(`wp/v2/media/${id}`, { query: listQuery(params) });
+    return data;
+  }
+
+  async updateMedia(id: number, details: { alt_text?: string; caption?: string; title?: string }): Promise<WPMedia> {
+    const { data } = await this.request<WPMedia>(`wp/v2/media/${id}`, { method: 'POST', body: details, idempotent: true });
+    return data;
+  }
+
+  // TAXONOMIES (restBase is "categories", "tags" or a custom taxonomy's base)
+
+  listTerms(restBase: string, params: WPListParams = {}): Promise<WPTerm[]> {
+    return this.listAll<WPTerm>(`wp/v2/${restBase}`, params);
+  }
+
+  async createTerm(restBase: string, term: { name: string; slug?: string; parent?: number; description?: string }): Promise<WPTerm> {
+    const { data } = await this.request<WPTerm>(`wp/v2/${restBase}`, { method: 'POST', body: term });
+    return data;
+  }
+
+  // USERS
+
+  listUsers(params: WPListParams = {}): Promise<WPUser[]> {
+    return this.listAll<WPUser>('wp/v2/users', params);
+  }
+
+  async getCurrentUser(params: WPListParams = {}): Promise<WPUser> {
+    const { data } = await this.request<WPUser>('wp/v2/users/me', { query: listQuery(params) });
+    return data;
+  }
+
+  // REVISIONS
+
+  async listRevisions(route: string, id: number, params: WPListParams = {}): Promise<WPRevision[]> {
+    const { data } = await this.request<WPRevision[]>(`${route}/${id}/revisions`, {
+      query: listQuery({ context: 'edit', ...params })
+    });
+    return data;
+  }
+
+  async getRevision(route: string, id: number, revisionId: number): Promise<WPRevision> {
+    const { data } = await this.request<WPRevision>(`${route}/${id}/revisions/${revisionId}`, {
+      query: { context: 'edit' }
+    });
+    return data;
+  }
+
+  private async toError(response: Response, path: string): Promise<WordPressError> {
+    let code: string | undefined;
+    let detail = '';
+    try {
+      const body = await response.json();
+      code = body?.code;
+      detail = body?.message || '';
+    } catch {
+      // Non-JSON error pages (e.g. from a WAF) carry no useful detail
+    }
+
+    const hint = response.status === 401
+      ? ' Check the username and application password.'
+      : response.status === 403
+        ? ' The user lacks permission for this action.'
+        : '';
+
+    return new WordPressError(
+      `WordPress request ${path} failed with ${response.status}${detail ? `: ${detail}` : ''}.${hint}`,
+      response.status,
+      code
+    );
+  }
+}
+
+/**
+ * Creates a client from the app config collected by ConfigStep.
+ */
+export const createWordPressClient = (config: any): WordPressClient =>
+  new WordPressClient({
+    siteUrl: config.wpSiteUrl || '',
+    username: config.wpUsername,
+    appPassword: config.wpAppPassword
+  });